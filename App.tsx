@@ -28,7 +28,13 @@ import {
   Globe,
   Bell,
   BellRing,
-  Info
+  Info,
+  Network,
+  SlidersHorizontal,
+  BrainCircuit,
+  Server,
+  ShieldOff,
+  Radar
 } from 'lucide-react';
 import { 
   LineChart, 
@@ -46,10 +52,80 @@ import {
   ReferenceLine,
   Label
 } from 'recharts';
-import { DNSQuery, AppState, ForensicReport, ThreatLevel } from './types';
-import { generateMockData, getStats, classifyQuery, parseLogContent, calculateEntropy, calculateThreatScore, checkIpReputation } from './utils/forensics';
+import { DNSQuery, Alert, AppState, ClassifierModel, DetectionRule, ExfiltrationEstimate, ScoreFactor, StatsBucket, SuppressionEntry, SuppressionKind, ThreatFeed, IntelMatch, GeoDatabase, DomainIntel, DomainProviderConfig, DomainProviderKind, ForensicReport, ThreatLevel, ParseError, CsvMapping, CsvColumnMapping, CsvProfile, LiveSourceConfig, LiveSourceKind, LiveSourceStatus, LiveConnectionState } from './types';
+import { generateMockData, getStats, getStatsByBucket, scoreQuery, alertForQuery, calculateAnswerEntropy, detectLogFormat, queryFeatures } from './utils/forensics';
+import { DEFAULT_RULES, parseRules, RuleFormat, serializeRules, setActiveRules } from './utils/rules';
+import { SIGNATURE_LIBRARY_VERSION, TOOL_SIGNATURES } from './utils/signatures';
+import { DEFAULT_TRAINING_OPTIONS, parseModel, setActiveModel, trainClassifier, trainingLabel } from './utils/model';
+import { CSV_FIELDS, guessCsvColumns, inferCsvMapping, parseDelimited } from './utils/csv';
+import { isDnstapStream } from './utils/dnstap';
+import { BeaconCandidate, detectBeacons } from './utils/beacon';
+import { detectNxdomainBursts, NxdomainBurst } from './utils/dga';
+import { estimateExfiltration, formatBytes } from './utils/exfil';
+import { alertTarget, applySuppressions, countSuppressionHits, DEFAULT_SUPPRESSIONS, isExpired, matchSuppression, setActiveSuppressions, SUPPRESSION_KINDS, SuppressionTarget, validateSuppressions } from './utils/suppression';
+import { parseIp } from './utils/ip';
+import { parseIntelFeed, setActiveIntel } from './utils/intel';
+import { lookupGeo, openGeoDatabase, setActiveGeoDatabases } from './utils/geo';
+import { domainAge, getActiveDomainIntel, hasDomainData, lookupDomainIntel, parseDomainIntelFile, setActiveDomainIntel } from './utils/domainIntel';
+import { MmdbFormatError } from './utils/mmdb';
+import { splitDomain } from './utils/publicSuffix';
+import { DEFAULT_BASELINE_OPTIONS, describeHostAnomaly, HostProfile, profileHosts } from './utils/baseline';
+import { AggregateViolation, aggregateTraffic, DEFAULT_AGGREGATION_THRESHOLDS, describeViolation, TrafficAggregates } from './utils/aggregation';
+import { IngestProgress } from './utils/ingest';
 import { analyzeForensics } from './services/geminiService';
-import { fetchGeolocation } from './services/geoService';
+import { deleteGeoDatabase, fetchGeolocation, loadGeoDatabases, loadOnlineGeoFallback, saveGeoDatabase, saveOnlineGeoFallback } from './services/geoService';
+import { IngestJob, startIngest } from './services/ingestService';
+import { deleteCsvProfile, loadCsvProfiles, saveCsvProfile } from './services/csvProfileService';
+import { loadLiveSourceConfig, saveLiveSourceConfig, startLiveSource } from './services/liveSourceService';
+import { loadRules, saveRules } from './services/ruleService';
+import { downloadModel, loadModel, saveModel } from './services/modelService';
+import { loadSuppressions, saveSuppressions } from './services/suppressionService';
+import { loadIntelFeeds, saveIntelFeeds } from './services/intelService';
+import { createDomainProvider, DomainIntelFile, enrichDomains, loadDomainCache, loadDomainFile, loadDomainProviderConfig, saveDomainCache, saveDomainFile, saveDomainProviderConfig } from './services/domainIntelService';
+
+// Upper bound on records held in memory across imports and the live feed; every
+// merge copies the retained list, so this stays within what the main thread handles
+const MAX_RETAINED_LOGS = 250_000;
+// The DNS Logs table only renders this many of the filtered rows
+const MAX_TABLE_ROWS = 500;
+// Bytes read from a CSV file for format detection and the mapping preview
+const CSV_PREVIEW_BYTES = 64 * 1024;
+// Aggregates are recomputed once the log stream has been quiet for this long
+const AGGREGATION_DEBOUNCE_MS = 2000;
+// Dashboard statistics follow a busy log stream at most this often
+const STATS_THROTTLE_MS = 1000;
+
+const TREND_BUCKETS = [
+  { label: '1m', ms: 60 * 1000 },
+  { label: '5m', ms: 5 * 60 * 1000 },
+  { label: '15m', ms: 15 * 60 * 1000 },
+  { label: '1h', ms: 60 * 60 * 1000 },
+  { label: '1d', ms: 24 * 60 * 60 * 1000 }
+];
+
+/**
+ * Short executable name for display, e.g. `C:\Windows\System32\rundll32.exe` -> `rundll32.exe`
+ */
+const processBasename = (image: string): string => image.split(/[\\/]/).pop() || image;
+
+const LIVE_SOURCE_OPTIONS: { label: string; value: LiveSourceKind }[] = [
+  { label: 'Simulator', value: 'simulator' },
+  { label: 'WebSocket', value: 'websocket' },
+  { label: 'Server-Sent Events', value: 'sse' }
+];
+
+const DOMAIN_PROVIDER_OPTIONS: { label: string; value: DomainProviderKind }[] = [
+  { label: 'Off', value: 'none' },
+  { label: 'Local File', value: 'file' },
+  { label: 'HTTP Service', value: 'http' }
+];
+
+const LIVE_STATE_STYLES: Record<LiveConnectionState, { dot: string; label: string }> = {
+  connecting: { dot: 'bg-amber-400 animate-pulse', label: 'Connecting' },
+  connected: { dot: 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.8)]', label: 'Connected' },
+  reconnecting: { dot: 'bg-amber-500 animate-pulse', label: 'Reconnecting' },
+  closed: { dot: 'bg-red-500', label: 'Disconnected' }
+};
 
 // --- Components ---
 
@@ -324,6 +400,498 @@ const InteractiveTimeline: React.FC<{ timeline: { time: string; event: string }[
   );
 };
 
+const FACTOR_EFFECT_STYLES: Record<ScoreFactor['effect'], string> = {
+  score: 'bg-slate-800 text-slate-300 border-slate-700',
+  classify: 'bg-red-500/20 text-red-400 border-red-500/30',
+  alert: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  detector: 'bg-purple-500/20 text-purple-300 border-purple-500/30'
+};
+
+/**
+ * "Why was this flagged?" panel: every rule or detector behind a score, label or alert
+ */
+const ScoreBreakdown: React.FC<{ factors?: ScoreFactor[]; score?: number }> = ({ factors, score }) => {
+  const sorted = [...(factors ?? [])].sort((a, b) => (b.contribution ?? -1) - (a.contribution ?? -1));
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold flex items-center gap-2"><Info size={12} /> Why was this flagged?</h4>
+        {score !== undefined && <span className="text-[10px] font-mono text-slate-500 uppercase">Threat Score: <b className="text-slate-300">{score}</b></span>}
+      </div>
+      {sorted.length > 0 ? (
+        <table className="w-full text-left border border-slate-800 rounded-lg overflow-hidden text-[11px]">
+          <thead className="bg-slate-900 text-[10px] uppercase tracking-widest text-slate-500">
+            <tr>
+              <th className="px-3 py-2">Factor</th>
+              <th className="px-3 py-2">Observed</th>
+              <th className="px-3 py-2 w-24 text-right">Contribution</th>
+              <th className="px-3 py-2 w-40">Rule</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/50">
+            {sorted.map((f, i) => (
+              <tr key={`${f.ruleId}-${i}`}>
+                <td className="px-3 py-2 text-slate-200">{f.factor}</td>
+                <td className="px-3 py-2 mono text-slate-400 break-all">{f.observed}</td>
+                <td className="px-3 py-2 mono text-right text-slate-300">{f.contribution !== undefined ? `+${f.contribution}` : '—'}</td>
+                <td className="px-3 py-2">
+                  <span className={`text-[9px] font-bold uppercase px-1 rounded border mr-1 ${FACTOR_EFFECT_STYLES[f.effect]}`}>{f.effect}</span>
+                  <span className="mono text-slate-500">{f.ruleId}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-slate-600 italic text-xs">No rule matched this record.</div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Holdout evaluation of a trained classifier: per-label precision/recall and the confusion matrix
+ */
+const ModelMetricsPanel: React.FC<{ model: ClassifierModel }> = ({ model }) => (
+  <div className="space-y-4">
+    <div className="flex flex-wrap gap-6 text-[10px] font-mono text-slate-500 uppercase">
+      <span>Accuracy: <b className="text-emerald-400">{(model.metrics.accuracy * 100).toFixed(1)}%</b></span>
+      <span>Train: <b className="text-slate-300">{model.metrics.trainSize.toLocaleString()}</b></span>
+      <span>Holdout: <b className="text-slate-300">{model.metrics.holdoutSize.toLocaleString()}</b></span>
+      <span>Features: <b className="text-slate-300">{model.features.length}</b></span>
+    </div>
+    <table className="w-full text-left border border-slate-800 rounded-lg overflow-hidden text-[11px]">
+      <thead className="bg-slate-900 text-[10px] uppercase tracking-widest text-slate-500">
+        <tr>
+          <th className="px-3 py-2">Label</th>
+          <th className="px-3 py-2 text-right">Precision</th>
+          <th className="px-3 py-2 text-right">Recall</th>
+          <th className="px-3 py-2 text-right">F1</th>
+          <th className="px-3 py-2 text-right">Support</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-800/50 font-mono">
+        {model.metrics.classes.map(c => (
+          <tr key={c.label}>
+            <td className="px-3 py-2 text-slate-200 font-sans">{c.label}</td>
+            <td className="px-3 py-2 text-right text-slate-300">{(c.precision * 100).toFixed(1)}%</td>
+            <td className="px-3 py-2 text-right text-slate-300">{(c.recall * 100).toFixed(1)}%</td>
+            <td className="px-3 py-2 text-right text-slate-300">{c.f1.toFixed(3)}</td>
+            <td className="px-3 py-2 text-right text-slate-500">{c.support.toLocaleString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    <div>
+      <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold mb-2">Confusion Matrix (actual × predicted)</h4>
+      <table className="text-[11px] font-mono border border-slate-800">
+        <thead>
+          <tr className="bg-slate-900 text-slate-500">
+            <th className="px-3 py-1" />
+            {model.labels.map(l => <th key={l} className="px-3 py-1 font-normal">{l}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {model.metrics.confusion.map((row, i) => (
+            <tr key={model.labels[i]}>
+              <td className="px-3 py-1 bg-slate-900 text-slate-500">{model.labels[i]}</td>
+              {row.map((count, j) => (
+                <td key={j} className={`px-3 py-1 text-right ${i === j ? 'text-emerald-400' : (count > 0 ? 'text-red-400' : 'text-slate-600')}`}>{count.toLocaleString()}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const LogDetail: React.FC<{ log: DNSQuery }> = ({ log }) => {
+  const answerEntropy = calculateAnswerEntropy(log.answers);
+  const metadata = Object.entries(log.metadata ?? {});
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 text-xs">
+      <div className="lg:col-span-2 space-y-3">
+        <div className="flex flex-wrap gap-6 text-[10px] font-mono text-slate-500 uppercase pb-3 border-b border-slate-800">
+          <span>Subdomain: <b className="text-slate-300 normal-case break-all">{log.subdomain || '—'}</b></span>
+          <span>Registered Domain: <b className="text-slate-300 normal-case">{log.registeredDomain || '—'}</b></span>
+          <span>Public Suffix: <b className="text-slate-300 normal-case">{log.publicSuffix || '—'}</b></span>
+        </div>
+        <div className="pb-3 border-b border-slate-800">
+          <ScoreBreakdown factors={log.breakdown} score={log.threatScore} />
+        </div>
+        {log.lexical && (
+          <div className="flex flex-wrap gap-6 text-[10px] font-mono text-slate-500 uppercase pb-3 border-b border-slate-800">
+            <span>Encoding: <b className={log.lexical.encoding ? 'text-red-400' : 'text-slate-300'}>{log.lexical.encoding ?? 'none'}</b></span>
+            <span>Bigram / Trigram: <b className={log.lexical.bigramScore < -1.5 ? 'text-amber-400' : 'text-slate-300'}>{log.lexical.bigramScore.toFixed(2)} / {log.lexical.trigramScore.toFixed(2)}</b></span>
+            <span>Vowel / Consonant / Digit: <b className="text-slate-300">{log.lexical.vowelRatio.toFixed(2)} / {log.lexical.consonantRatio.toFixed(2)} / {log.lexical.digitRatio.toFixed(2)}</b></span>
+            <span>Longest Label: <b className={log.lexical.longestLabel > 50 ? 'text-amber-400' : 'text-slate-300'}>{log.lexical.longestLabel}</b></span>
+            {log.dgaScore !== undefined && <span>DGA Probability: <b className={log.dgaScore >= 0.7 ? 'text-purple-400' : 'text-slate-300'}>{Math.round(log.dgaScore * 100)}%</b></span>}
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Answer Section</h4>
+          <div className="flex gap-4 text-[10px] font-mono text-slate-500 uppercase">
+            <span>RCode: <b className="text-slate-300">{log.responseCode || 'NOERROR'}</b></span>
+            <span>Size: <b className="text-slate-300">{log.responseSize !== undefined ? `${log.responseSize} B` : '—'}</b></span>
+            <span>Truncated: <b className={log.truncated ? 'text-amber-400' : 'text-slate-300'}>{log.truncated === undefined ? '—' : log.truncated ? 'YES' : 'NO'}</b></span>
+            <span>Answer Entropy: <b className={answerEntropy > 4.5 ? 'text-red-400' : 'text-slate-300'}>{answerEntropy.toFixed(2)}</b></span>
+          </div>
+        </div>
+        {log.answers && log.answers.length > 0 ? (
+          <table className="w-full text-left border border-slate-800 rounded-lg overflow-hidden">
+            <thead className="bg-slate-900 text-[10px] uppercase tracking-widest text-slate-500">
+              <tr>
+                <th className="px-3 py-2 w-20">Type</th>
+                <th className="px-3 py-2">Data</th>
+                <th className="px-3 py-2 w-20 text-right">TTL</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/50">
+              {log.answers.map((answer, i) => (
+                <tr key={i}>
+                  <td className="px-3 py-2"><span className="text-[10px] font-bold px-2 py-0.5 rounded border bg-slate-800 text-slate-400 border-slate-700">{answer.type}</span></td>
+                  <td className="px-3 py-2 mono text-slate-300 break-all">{answer.data}</td>
+                  <td className="px-3 py-2 mono text-slate-500 text-right">{answer.ttl ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-slate-600 italic">No answer records captured for this query.</div>
+        )}
+      </div>
+      <div className="space-y-3">
+        <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Metadata</h4>
+        {metadata.length > 0 ? (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 mono text-[11px]">
+            {metadata.map(([key, value]) => (
+              <React.Fragment key={key}>
+                <dt className="text-slate-500">{key}</dt>
+                <dd className="text-slate-300 break-all">{typeof value === 'object' ? JSON.stringify(value) : String(value)}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        ) : (
+          <div className="text-slate-600 italic">None</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const DELIMITER_OPTIONS = [
+  { label: 'Comma', value: ',' },
+  { label: 'Tab', value: '\t' },
+  { label: 'Semicolon', value: ';' },
+  { label: 'Pipe', value: '|' }
+];
+
+const CsvMappingWizard: React.FC<{
+  fileName: string;
+  sample: string;
+  onCancel: () => void;
+  onImport: (mapping: CsvMapping) => void;
+}> = ({ fileName, sample, onCancel, onImport }) => {
+  const [initial] = useState(() => inferCsvMapping(sample));
+  const [delimiter, setDelimiter] = useState(initial.delimiter);
+  const [isCustomDelimiter, setIsCustomDelimiter] = useState(false);
+  const [hasHeader, setHasHeader] = useState(initial.hasHeader);
+  const [columns, setColumns] = useState<CsvColumnMapping[]>(initial.columns);
+  const [profiles, setProfiles] = useState<CsvProfile[]>(() => loadCsvProfiles());
+  const [profileName, setProfileName] = useState('');
+
+  const records = delimiter ? parseDelimited(sample, delimiter).slice(0, 11) : [];
+  const headerRow = hasHeader ? records[0]?.fields ?? null : null;
+  const previewRows = (hasHeader ? records.slice(1) : records).slice(0, 10);
+  const columnCount = Math.max(columns.length, ...records.map(r => r.fields.length));
+  const hasQueryColumn = columns.some(c => c.target === 'query');
+
+  const remap = (nextDelimiter: string, nextHasHeader: boolean) => {
+    const rows = nextDelimiter ? parseDelimited(sample, nextDelimiter).slice(0, 11) : [];
+    const count = Math.max(0, ...rows.map(r => r.fields.length));
+    setColumns(guessCsvColumns(nextHasHeader ? rows[0]?.fields ?? null : null, count));
+  };
+
+  const updateColumn = (index: number, column: CsvColumnMapping) => {
+    const next = [...columns];
+    for (let i = next.length; i < index; i++) next[i] = { target: 'ignore' };
+    next[index] = column;
+    setColumns(next);
+  };
+
+  const applyProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    setDelimiter(profile.delimiter);
+    setIsCustomDelimiter(!DELIMITER_OPTIONS.some(d => d.value === profile.delimiter));
+    setHasHeader(profile.hasHeader);
+    setColumns(profile.columns);
+    setProfileName(profile.name);
+  };
+
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    setProfiles(saveCsvProfile({ name, delimiter, hasHeader, columns }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-slate-900 border border-slate-800 rounded-2xl w-full max-w-6xl max-h-full flex flex-col shadow-2xl">
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-white flex items-center gap-2"><FileText className="w-5 h-5 text-emerald-500" />Map CSV Columns</h3>
+            <p className="text-xs text-slate-500 font-mono truncate">{fileName}</p>
+          </div>
+          <div className="flex items-end gap-2">
+            <FilterSelect 
+              label="Profile" 
+              value={profiles.some(p => p.name === profileName) ? profileName : ''} 
+              onChange={applyProfile} 
+              options={[{ label: profiles.length ? 'Choose profile…' : 'No saved profiles', value: '' }, ...profiles.map(p => ({ label: p.name, value: p.name }))]} 
+            />
+            <input 
+              value={profileName} 
+              onChange={(e) => setProfileName(e.target.value)} 
+              placeholder="Profile name" 
+              className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-emerald-500 w-40"
+            />
+            <button onClick={saveProfile} disabled={!profileName.trim()} className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg border border-emerald-500/20 bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 disabled:opacity-40 transition-colors">Save</button>
+            {profiles.some(p => p.name === profileName) && (
+              <button onClick={() => { setProfiles(deleteCsvProfile(profileName)); setProfileName(''); }} className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg border border-red-500/20 bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-colors">Delete</button>
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-b border-slate-800 flex flex-wrap items-end gap-6">
+          <FilterSelect 
+            label="Delimiter" 
+            value={isCustomDelimiter ? 'CUSTOM' : delimiter} 
+            onChange={(val) => {
+              if (val === 'CUSTOM') {
+                setIsCustomDelimiter(true);
+                return;
+              }
+              setIsCustomDelimiter(false);
+              setDelimiter(val);
+              remap(val, hasHeader);
+            }} 
+            options={[...DELIMITER_OPTIONS, { label: 'Custom…', value: 'CUSTOM' }]} 
+          />
+          {isCustomDelimiter && (
+            <div className="flex flex-col gap-1">
+              <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Custom Delimiter</label>
+              <input 
+                value={delimiter} 
+                onChange={(e) => { setDelimiter(e.target.value); remap(e.target.value, hasHeader); }} 
+                className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 font-mono outline-none focus:ring-1 focus:ring-emerald-500 w-20"
+              />
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-xs text-slate-300 pb-1.5 cursor-pointer">
+            <input type="checkbox" checked={hasHeader} onChange={(e) => { setHasHeader(e.target.checked); remap(delimiter, e.target.checked); }} className="accent-emerald-500" />
+            First row is a header
+          </label>
+          {!hasQueryColumn && (
+            <span className="text-xs text-amber-400 pb-1.5 flex items-center gap-1"><AlertTriangle className="w-3.5 h-3.5" />Assign a column to the query field to import</span>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-left border-collapse">
+            <thead className="sticky top-0 bg-slate-900">
+              <tr>
+                {Array.from({ length: columnCount }, (_, i) => {
+                  const column = columns[i] ?? { target: 'ignore' };
+                  return (
+                    <th key={i} className="px-3 py-3 border-b border-slate-800 align-top min-w-[160px]">
+                      <div className="text-[10px] uppercase tracking-widest text-slate-500 font-bold mb-2 truncate">{headerRow?.[i] || `Column ${i + 1}`}</div>
+                      <select 
+                        value={column.target} 
+                        onChange={(e) => updateColumn(i, e.target.value === 'metadata' 
+                          ? { target: 'metadata', metadataKey: headerRow?.[i]?.trim() || `column${i + 1}` } 
+                          : { target: e.target.value as CsvColumnMapping['target'] })}
+                        className={`w-full bg-slate-800 border rounded-lg px-2 py-1 text-xs outline-none focus:ring-1 focus:ring-emerald-500 ${column.target === 'ignore' ? 'border-slate-700 text-slate-500' : 'border-emerald-500/30 text-emerald-400'}`}
+                      >
+                        <option value="ignore">Ignore</option>
+                        <option value="metadata">Metadata</option>
+                        {CSV_FIELDS.map(f => <option key={f} value={f}>{f}</option>)}
+                      </select>
+                      {column.target === 'metadata' && (
+                        <input 
+                          value={column.metadataKey ?? ''} 
+                          onChange={(e) => updateColumn(i, { target: 'metadata', metadataKey: e.target.value })} 
+                          placeholder="Metadata key"
+                          className="mt-1 w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-[11px] text-slate-300 font-mono outline-none focus:ring-1 focus:ring-emerald-500"
+                        />
+                      )}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/50">
+              {previewRows.map((row, r) => (
+                <tr key={r}>
+                  {Array.from({ length: columnCount }, (_, i) => (
+                    <td key={i} className="px-3 py-2 text-[11px] mono text-slate-400 max-w-[240px] truncate">{row.fields[i] ?? ''}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-6 border-t border-slate-800 flex justify-end gap-3">
+          <button onClick={onCancel} className="px-5 py-2 text-xs font-bold uppercase tracking-widest rounded-lg border border-slate-700 text-slate-400 hover:bg-slate-800 transition-colors">Cancel</button>
+          <button 
+            onClick={() => onImport({ delimiter, hasHeader, columns })} 
+            disabled={!hasQueryColumn || !delimiter}
+            className="px-5 py-2 text-xs font-bold uppercase tracking-widest rounded-lg bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40 transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SUPPRESSION_EXPIRY_OPTIONS = [
+  { label: 'Never', value: '0' },
+  { label: '24 hours', value: String(24 * 60 * 60 * 1000) },
+  { label: '7 days', value: String(7 * 24 * 60 * 60 * 1000) },
+  { label: '30 days', value: String(30 * 24 * 60 * 60 * 1000) },
+  { label: '90 days', value: String(90 * 24 * 60 * 60 * 1000) }
+];
+
+/**
+ * Suggested entry value of each kind for the alert or query being allowlisted
+ */
+const suppressionSuggestion = (kind: SuppressionKind, target: SuppressionTarget): string => {
+  const name = target.query ?? target.registeredDomain ?? '';
+  const domain = target.registeredDomain ?? (name ? splitDomain(name).registeredDomain : '');
+  switch (kind) {
+    case 'domain': return domain;
+    case 'wildcard': return domain ? `*.${domain}` : '';
+    case 'regex': return name ? `^${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$` : '';
+    case 'cidr': return target.sourceIp ? `${target.sourceIp}/${parseIp(target.sourceIp)?.version === 6 ? 128 : 32}` : '';
+    case 'qtype': return target.type ?? '';
+  }
+};
+
+const SuppressionDialog: React.FC<{
+  target: SuppressionTarget;
+  author: string;
+  onCancel: () => void;
+  onSave: (entry: SuppressionEntry) => void;
+}> = ({ target, author: initialAuthor, onCancel, onSave }) => {
+  const initialKind: SuppressionKind = target.query || target.registeredDomain ? 'domain' : 'cidr';
+  const [kind, setKind] = useState<SuppressionKind>(initialKind);
+  const [value, setValue] = useState(() => suppressionSuggestion(initialKind, target));
+  const [qtype, setQtype] = useState('');
+  const [reason, setReason] = useState('');
+  const [author, setAuthor] = useState(initialAuthor);
+  const [expiryMs, setExpiryMs] = useState('0');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const save = () => {
+    const now = Date.now();
+    const entry: SuppressionEntry = {
+      id: Math.random().toString(36).substr(2, 9),
+      kind,
+      value: value.trim(),
+      ...(qtype && kind !== 'qtype' ? { qtype } : {}),
+      reason: reason.trim(),
+      author: author.trim(),
+      createdAt: new Date(now).toISOString(),
+      ...(Number(expiryMs) > 0 ? { expiresAt: new Date(now + Number(expiryMs)).toISOString() } : {}),
+      enabled: true
+    };
+    const result = validateSuppressions([entry]);
+    if (result.errors.length > 0) {
+      setErrors(result.errors.map(e => e.replace(/^entries\[0\][^.:]*\.?/, '')));
+      return;
+    }
+    onSave(entry);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-slate-900 border border-slate-800 rounded-2xl w-full max-w-xl shadow-2xl">
+        <div className="p-6 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><ShieldOff className="w-5 h-5 text-emerald-500" />Suppress Matching Alerts</h3>
+          <p className="text-xs text-slate-500 font-mono truncate">{target.query ?? target.sourceIp ?? 'New allowlist entry'}</p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {SUPPRESSION_KINDS.map(k => (
+              <button
+                key={k}
+                onClick={() => { setKind(k); setValue(suppressionSuggestion(k, target)); }}
+                className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg border ${kind === k ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+              >
+                {k}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Value</label>
+            <input
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 font-mono outline-none focus:ring-1 focus:ring-emerald-500"
+            />
+          </div>
+          <div className="flex gap-4">
+            {kind !== 'qtype' && (
+              <div className="flex flex-col gap-1">
+                <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Only Qtype</label>
+                <input
+                  value={qtype}
+                  onChange={(e) => setQtype(e.target.value.toUpperCase())}
+                  placeholder={target.type ? `Any (e.g. ${target.type})` : 'Any'}
+                  className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 font-mono outline-none focus:ring-1 focus:ring-emerald-500 w-32"
+                />
+              </div>
+            )}
+            <FilterSelect label="Expires" value={expiryMs} onChange={setExpiryMs} options={SUPPRESSION_EXPIRY_OPTIONS} />
+            <div className="flex flex-col gap-1 flex-1">
+              <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Author</label>
+              <input
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-emerald-500"
+              />
+            </div>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Reason</label>
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Sophos reputation lookups from the mail relay"
+              className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-emerald-500"
+            />
+          </div>
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 space-y-1">
+              {errors.map((e, i) => <li key={i}>{e}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-800 flex justify-end gap-3">
+          <button onClick={onCancel} className="px-5 py-2 text-xs font-bold uppercase tracking-widest rounded-lg border border-slate-700 text-slate-400 hover:bg-slate-800 transition-colors">Cancel</button>
+          <button onClick={save} className="px-5 py-2 text-xs font-bold uppercase tracking-widest rounded-lg bg-emerald-600 text-white hover:bg-emerald-500 transition-colors">Suppress</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
     logs: [],
@@ -338,120 +906,588 @@ const App: React.FC = () => {
 
   const [error, setError] = useState<string | null>(null);
   const [successMsg, setSuccessMsg] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<ParseError[]>([]);
   
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState('ALL');
   const [filterRCode, setFilterRCode] = useState('ALL');
   const [filterThreat, setFilterThreat] = useState('ALL');
   const [filterReputation, setFilterReputation] = useState('ALL');
+  const [filterProcess, setFilterProcess] = useState('ALL');
+  const [filterLabel, setFilterLabel] = useState('ALL');
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+  const [expandedAlertId, setExpandedAlertId] = useState<string | null>(null);
+  
+  const [ingestProgress, setIngestProgress] = useState<(IngestProgress & { fileName: string }) | null>(null);
+  const ingestJobRef = useRef<IngestJob | null>(null);
+  const [csvImport, setCsvImport] = useState<{ file: File; sample: string } | null>(null);
+
+  const [liveConfig, setLiveConfig] = useState<LiveSourceConfig>(() => loadLiveSourceConfig());
+  const [liveEndpoint, setLiveEndpoint] = useState(liveConfig.endpoint);
+  const [liveStatus, setLiveStatus] = useState<LiveSourceStatus | null>(null);
+
+  // The saved pack is installed before the first records are scored
+  const [rules, setRules] = useState<DetectionRule[]>(() => {
+    const saved = loadRules();
+    setActiveRules(saved);
+    return saved;
+  });
+  const [ruleFormat, setRuleFormat] = useState<RuleFormat>('yaml');
+  const [ruleText, setRuleText] = useState(() => serializeRules(loadRules(), 'yaml'));
+  const [ruleErrors, setRuleErrors] = useState<string[]>([]);
+
+  const [model, setModel] = useState<ClassifierModel | null>(() => {
+    const saved = loadModel();
+    setActiveModel(saved);
+    return saved;
+  });
+  const [candidateModel, setCandidateModel] = useState<ClassifierModel | null>(null);
+  const [modelErrors, setModelErrors] = useState<string[]>([]);
+  const [trainingSource, setTrainingSource] = useState<'imported' | 'current'>('imported');
+  const [holdoutShare, setHoldoutShare] = useState(DEFAULT_TRAINING_OPTIONS.holdout);
+  const [isTraining, setIsTraining] = useState(false);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+
+  const [suppressions, setSuppressions] = useState<SuppressionEntry[]>(() => {
+    const saved = loadSuppressions();
+    setActiveSuppressions(saved);
+    return saved;
+  });
+  const [suppressionTarget, setSuppressionTarget] = useState<SuppressionTarget | null>(null);
+  const [showSuppressed, setShowSuppressed] = useState(false);
+
+  const [intelFeeds, setIntelFeeds] = useState<ThreatFeed[]>(() => {
+    const saved = loadIntelFeeds();
+    setActiveIntel(saved);
+    return saved;
+  });
+  const [intelErrors, setIntelErrors] = useState<string[]>([]);
+  const intelInputRef = useRef<HTMLInputElement>(null);
+
+  const [domainProvider, setDomainProvider] = useState<DomainProviderConfig>(() => loadDomainProviderConfig());
+  const [domainEndpoint, setDomainEndpoint] = useState(domainProvider.endpoint);
+  const [domainFile, setDomainFile] = useState<DomainIntelFile | null>(() => loadDomainFile());
+  const [domainCache, setDomainCache] = useState<DomainIntel[]>(() => {
+    const saved = loadDomainCache();
+    setActiveDomainIntel(saved);
+    return saved;
+  });
+  const [domainLookupError, setDomainLookupError] = useState<string | null>(null);
+  const domainLookupBusyRef = useRef(false);
+  const domainFileInputRef = useRef<HTMLInputElement>(null);
+
+  const [geoDatabases, setGeoDatabases] = useState<GeoDatabase[]>([]);
+  const [onlineGeoFallback, setOnlineGeoFallback] = useState(() => loadOnlineGeoFallback());
+  const geoInputRef = useRef<HTMLInputElement>(null);
+
+  const [aggregates, setAggregates] = useState<TrafficAggregates>({ domains: [], sources: [] });
+  const [beacons, setBeacons] = useState<BeaconCandidate[]>([]);
+  const [nxdomainBursts, setNxdomainBursts] = useState<NxdomainBurst[]>([]);
+  const [hostProfiles, setHostProfiles] = useState<HostProfile[]>([]);
+  const [exfiltration, setExfiltration] = useState<ExfiltrationEstimate | null>(null);
+  const [selectedHostIp, setSelectedHostIp] = useState<string | null>(null);
+  const [trendBucketMs, setTrendBucketMs] = useState(TREND_BUCKETS[0].ms);
+  const [trend, setTrend] = useState<StatsBucket[]>([]);
+  const alertedAggregatesRef = useRef(new Set<string>());
+  const statsComputedAtRef = useRef(0);
   
   const pcapInputRef = useRef<HTMLInputElement>(null);
   const logInputRef = useRef<HTMLInputElement>(null);
   const liveScrollRef = useRef<HTMLDivElement>(null);
 
-  // Simulation: Add live DNS queries periodically
-  useEffect(() => {
-    if (!state.isLive) return;
-
-    const interval = setInterval(async () => {
-      const isMalicious = Math.random() < 0.1;
-      const domains = ["apple.com", "microsoft.net", "akamai.net", "facebook.io", "zoom.us", "slack.com"];
-      const maliciousTunnels = [
-        "tx.a4b3.c2server.ru",
-        "init.z9x8y7.exfil.dns",
-        "ping.v1.enc.base64payload.attacker.com"
-      ];
-      
-      const queryStr = isMalicious 
-        ? maliciousTunnels[Math.floor(Math.random() * maliciousTunnels.length)]
-        : domains[Math.floor(Math.random() * domains.length)];
-      
-      const publicIps = ['8.8.8.8', '1.1.1.1', '13.248.169.48', '172.217.1.14'];
-      const sourceIp = Math.random() > 0.6 
-        ? publicIps[Math.floor(Math.random() * publicIps.length)]
-        : `192.168.1.${Math.floor(Math.random() * 200) + 1}`;
-
-      const entropy = calculateEntropy(queryStr);
-      const geo = await fetchGeolocation(sourceIp);
-      
-      const newQuery: DNSQuery = {
-        id: Math.random().toString(36).substr(2, 9),
-        timestamp: new Date().toISOString(),
-        sourceIp,
-        query: queryStr,
-        type: 'A',
-        length: queryStr.length,
-        entropy,
-        location: geo.location,
-        lat: geo.lat,
-        lng: geo.lng,
-        reputation: checkIpReputation(sourceIp),
-        isNew: isMalicious,
-        threatScore: 0,
-      };
-
-      const classification = classifyQuery(newQuery);
-      newQuery.label = classification.label;
-      newQuery.confidence = classification.confidence;
-      newQuery.threatScore = calculateThreatScore(newQuery);
-
-      setState(prev => {
-        const updatedLogs = [newQuery, ...prev.logs].slice(0, 1000);
-        const newAlerts = [...prev.alerts];
-        
-        if (newQuery.label === 'Tunneling') {
+  /**
+   * Appends a batch from the live source, newest first
+   */
+  const ingestLiveEvents = (queries: DNSQuery[]) => {
+    setState(prev => {
+      const updatedLogs = [...queries, ...prev.logs].slice(0, MAX_RETAINED_LOGS);
+      const newAlerts = [...prev.alerts];
+
+      [...queries].reverse().forEach(newQuery => {
+        const alert = alertForQuery(newQuery);
+        if (alert) {
           newAlerts.unshift({
             id: Math.random().toString(36).substr(2, 9),
             timestamp: newQuery.timestamp,
-            type: newQuery.threatScore > 80 ? 'C2_PATTERN' : (newQuery.entropy > 4.5 ? 'HIGH_ENTROPY' : 'TUNNELING_DETECTED'),
-            severity: newQuery.threatScore > 85 ? 'CRITICAL' : (newQuery.threatScore > 60 ? 'HIGH' : 'MEDIUM'),
-            message: `Suspicious activity detected from ${newQuery.sourceIp} targeting ${newQuery.query}`,
+            ...alert,
+            message: newQuery.tool
+              ? `${newQuery.tool} traffic detected from ${newQuery.sourceIp} targeting ${newQuery.query}`
+              : newQuery.intel
+                ? `${newQuery.intel.feed} indicator ${newQuery.intel.indicator} matched by ${newQuery.sourceIp} querying ${newQuery.query}`
+                : `Suspicious activity detected from ${newQuery.sourceIp} targeting ${newQuery.query}`,
             queryId: newQuery.id,
+            tool: newQuery.tool,
+            process: newQuery.process,
+            host: newQuery.host,
+            factors: newQuery.breakdown,
+            suppressedBy: matchSuppression(newQuery)?.id,
             isRead: false
           });
         }
+      });
+
+      return {
+        ...prev,
+        liveLogs: [...queries, ...prev.liveLogs].slice(0, 50),
+        logs: updatedLogs,
+        alerts: newAlerts.slice(0, 100)
+      };
+    });
+  };
+
+  // Live ingest from the selected source while the feed is running
+  useEffect(() => {
+    if (!state.isLive) return;
+    const source = startLiveSource(liveConfig, { onEvents: ingestLiveEvents, onStatus: setLiveStatus });
+    return () => source.stop();
+  }, [state.isLive, liveConfig]);
 
-        return {
-          ...prev,
-          liveLogs: [newQuery, ...prev.liveLogs].slice(0, 50),
-          logs: updatedLogs,
-          alerts: newAlerts.slice(0, 100),
-          stats: getStats(updatedLogs)
-        };
+  // Statistics over everything retained, recomputed on a throttle rather than per merged batch
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      statsComputedAtRef.current = Date.now();
+      setState(prev => ({ ...prev, stats: getStats(prev.logs) }));
+    }, Math.max(0, statsComputedAtRef.current + STATS_THROTTLE_MS - Date.now()));
+    return () => clearTimeout(timer);
+  }, [state.logs]);
+
+  // Sliding-window aggregates, beacon timing, NXDOMAIN bursts and host baselines; each subject/metric crossing alerts once
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const result = aggregateTraffic(state.logs);
+      setAggregates(result);
+
+      const raised: Alert[] = [];
+      const raise = (subject: string, queryId: string, host: string | undefined, v: AggregateViolation) => {
+        const key = `${subject}|${v.metric}`;
+        if (alertedAggregatesRef.current.has(key)) return;
+        alertedAggregatesRef.current.add(key);
+        raised.push({
+          id: Math.random().toString(36).substr(2, 9),
+          timestamp: v.at,
+          type: 'VOLUME_ANOMALY',
+          severity: v.value >= v.threshold * 2 ? 'CRITICAL' : (v.metric === 'typeRatio' ? 'MEDIUM' : 'HIGH'),
+          message: describeViolation(subject, v),
+          queryId,
+          subject,
+          host,
+          factors: [{
+            factor: `Sliding-window ${v.metric}`,
+            observed: `${v.metric} = ${v.value.toLocaleString()}${v.peer ? ` (${v.peer})` : ''}, threshold = ${v.threshold.toLocaleString()}, window from ${new Date(v.at).toLocaleString()}`,
+            effect: 'detector',
+            ruleId: `aggregate.${v.metric}`
+          }],
+          isRead: false
+        });
+      };
+      result.domains.forEach(d => d.violations.forEach(v => raise(d.registeredDomain, d.lastQueryId, undefined, v)));
+      result.sources.forEach(src => src.violations.forEach(v => raise(src.sourceIp, src.lastQueryId, src.host, v)));
+
+      const periodic = detectBeacons(state.logs);
+      setBeacons(periodic);
+      periodic.forEach(b => {
+        const key = `${b.sourceIp}|${b.registeredDomain}|beacon`;
+        if (alertedAggregatesRef.current.has(key)) return;
+        alertedAggregatesRef.current.add(key);
+        raised.push({
+          id: Math.random().toString(36).substr(2, 9),
+          timestamp: b.lastSeen,
+          type: 'C2_PATTERN',
+          severity: b.confidence >= 0.85 ? 'CRITICAL' : 'HIGH',
+          message: `Beaconing from ${b.host ?? b.sourceIp} to ${b.registeredDomain} every ${b.period}s (±${Math.round(b.jitter * 100)}% jitter, ${Math.round(b.confidence * 100)}% confidence)`,
+          queryId: b.lastQueryId,
+          subject: b.registeredDomain,
+          host: b.host,
+          factors: [
+            { factor: 'Periodic callbacks', observed: `period = ${b.period}s, jitter = ±${Math.round(b.jitter * 100)}%, callbacks = ${b.callbacks}`, effect: 'detector', ruleId: 'beacon' },
+            { factor: 'Beacon confidence', observed: `regularity = ${b.regularity}, confidence = ${b.confidence}`, effect: 'detector', ruleId: 'beacon' }
+          ],
+          isRead: false
+        });
       });
-    }, 3000);
 
-    return () => clearInterval(interval);
-  }, [state.isLive]);
+      const bursts = detectNxdomainBursts(state.logs);
+      setNxdomainBursts(bursts);
+      bursts.forEach(b => {
+        const key = `${b.host}|dga`;
+        if (alertedAggregatesRef.current.has(key)) return;
+        alertedAggregatesRef.current.add(key);
+        raised.push({
+          id: Math.random().toString(36).substr(2, 9),
+          timestamp: b.end,
+          type: 'DGA_DETECTED',
+          severity: b.dgaDomains >= 50 ? 'CRITICAL' : 'HIGH',
+          message: `Possible DGA malware on ${b.host}: ${b.nxdomains} NXDOMAIN answers for ${b.distinctDomains} domains, ${b.dgaDomains} machine-generated (e.g. ${b.samples.slice(0, 3).join(', ')})`,
+          queryId: b.lastQueryId,
+          subject: b.host,
+          host: b.host !== b.sourceIp ? b.host : undefined,
+          factors: [
+            { factor: 'NXDOMAIN burst', observed: `nxdomains = ${b.nxdomains}, distinct domains = ${b.distinctDomains}, from ${new Date(b.start).toLocaleString()} to ${new Date(b.end).toLocaleString()}`, effect: 'detector', ruleId: 'dga.burst' },
+            { factor: 'Generated-looking domains', observed: `dga domains = ${b.dgaDomains}, ratio = ${b.dgaRatio}`, effect: 'detector', ruleId: 'dga.burst' }
+          ],
+          isRead: false
+        });
+      });
 
-  const loadLogs = useCallback(async () => {
-    setState(prev => ({ ...prev, isAnalyzing: true }));
-    const initialLogs = generateMockData();
-    
-    // Fetch geolocation for the first few logs sequentially to avoid burst rate limits
-    const logsWithGeo = [...initialLogs];
-    for (let i = 0; i < Math.min(initialLogs.length, 10); i++) {
-      const geo = await fetchGeolocation(logsWithGeo[i].sourceIp);
-      logsWithGeo[i] = { 
-        ...logsWithGeo[i], 
-        location: geo.location,
-        lat: geo.lat,
-        lng: geo.lng
+      setExfiltration(estimateExfiltration(state.logs));
+
+      const profiles = profileHosts(state.logs);
+      setHostProfiles(profiles);
+      profiles.forEach(profile => profile.anomalies.forEach(a => {
+        // Once per evaluation window, so the same host can alert again on another day
+        const key = `${profile.sourceIp}|baseline|${a.metric}|${a.detail ?? ''}|${profile.evaluationStart}`;
+        if (alertedAggregatesRef.current.has(key)) return;
+        alertedAggregatesRef.current.add(key);
+        raised.push({
+          id: Math.random().toString(36).substr(2, 9),
+          timestamp: profile.evaluationStart,
+          type: 'BASELINE_DEVIATION',
+          severity: a.zScore >= DEFAULT_BASELINE_OPTIONS.zThreshold * 2 ? (a.metric === 'offHours' ? 'HIGH' : 'CRITICAL') : 'MEDIUM',
+          message: describeHostAnomaly(profile, a),
+          queryId: profile.lastQueryId ?? '',
+          subject: profile.sourceIp,
+          host: profile.host,
+          factors: [{
+            factor: `Baseline ${a.metric}${a.detail ? ` (${a.detail})` : ''}`,
+            observed: `observed = ${a.observed.toLocaleString()}, expected = ${a.expected.toLocaleString()}, z = ${a.zScore}, baseline of ${profile.baseline?.trainingBuckets ?? 0} hours`,
+            effect: 'detector',
+            ruleId: `baseline.${a.metric}`
+          }],
+          isRead: false
+        });
+      }));
+
+      raised.forEach(a => { a.suppressedBy = matchSuppression(alertTarget(a))?.id; });
+      if (raised.length > 0) {
+        setState(prev => ({ ...prev, alerts: [...raised, ...prev.alerts].slice(0, 100) }));
+      }
+    }, AGGREGATION_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [state.logs]);
+
+  // Registered domains the cache has no fresh entry for are sent to the provider once the stream settles
+  useEffect(() => {
+    const provider = createDomainProvider(domainProvider, domainFile);
+    if (!provider || domainLookupError) return;
+    const timer = setTimeout(async () => {
+      if (domainLookupBusyRef.current) return;
+      domainLookupBusyRef.current = true;
+      try {
+        const domains = Array.from(new Set<string>(state.logs.flatMap(l => l.registeredDomain ? [l.registeredDomain] : [])));
+        const fresh = await enrichDomains(provider, domains, getActiveDomainIntel());
+        const freshDomains = new Set(fresh.map(r => r.domain));
+        if (fresh.length > 0) applyDomainIntel([...getActiveDomainIntel().filter(r => !freshDomains.has(r.domain)), ...fresh], Array.from(freshDomains));
+      } catch (error) {
+        setDomainLookupError(`${provider.name}: ${(error as Error).message || 'lookup failed'}`);
+      } finally {
+        domainLookupBusyRef.current = false;
+      }
+    }, AGGREGATION_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [state.logs, domainProvider, domainFile, domainLookupError]);
+
+  // Bucketed separately so switching the trend resolution does not rerun the detectors
+  useEffect(() => {
+    const timer = setTimeout(() => setTrend(getStatsByBucket(state.logs, trendBucketMs)), AGGREGATION_DEBOUNCE_MS / 4);
+    return () => clearTimeout(timer);
+  }, [state.logs, trendBucketMs]);
+
+  /**
+   * Installs and saves a rule pack and rescores everything already loaded
+   */
+  const applyRules = (next: DetectionRule[]) => {
+    setActiveRules(next);
+    saveRules(next);
+    setRules(next);
+    setRuleText(serializeRules(next, ruleFormat));
+    setRuleErrors([]);
+    rescoreAll();
+  };
+
+  /**
+   * Installs and saves the allowlist and re-marks the alerts already raised
+   */
+  const applySuppressionList = (next: SuppressionEntry[]) => {
+    setActiveSuppressions(next);
+    saveSuppressions(next);
+    setSuppressions(next);
+    setState(prev => ({ ...prev, alerts: applySuppressions(prev.alerts, prev.logs, next) }));
+  };
+
+  /**
+   * Installs and saves the threat-intel feeds and rescores everything loaded. Queries that
+   * `retroFeed` matches for the first time raise one alert per indicator.
+   */
+  const applyIntelFeeds = (next: ThreatFeed[], retroFeed?: string) => {
+    setActiveIntel(next);
+    setIntelFeeds(next);
+    if (!saveIntelFeeds(next)) setError('The threat-intel feeds are too large for browser storage and will only be kept for this session.');
+
+    // Matches are found and deduplicated here, outside the updater, which React may run twice
+    const loaded = state.logs;
+    const rescored = loaded.map(l => ({ ...l, ...scoreQuery(l) }));
+    const hits = new Map<string, { match: IntelMatch; first: DNSQuery; queries: number; sources: Set<string>; alert: NonNullable<ReturnType<typeof alertForQuery>> }>();
+    if (retroFeed) {
+      rescored.forEach((log, i) => {
+        if (log.intel?.feed !== retroFeed || loaded[i].intel?.indicator === log.intel.indicator) return;
+        const alert = alertForQuery(log);
+        if (!alert) return;
+        const key = `intel|${log.intel.feed}|${log.intel.indicator}`;
+        if (!hits.has(key)) hits.set(key, { match: log.intel, first: log, queries: 0, sources: new Set(), alert });
+        const hit = hits.get(key)!;
+        hit.queries++;
+        hit.sources.add(log.sourceIp);
+      });
+    }
+
+    const raised: Alert[] = [];
+    hits.forEach(({ match, first, queries, sources, alert }, key) => {
+      if (alertedAggregatesRef.current.has(key)) return;
+      alertedAggregatesRef.current.add(key);
+      const retro: Alert = {
+        id: Math.random().toString(36).substr(2, 9),
+        timestamp: first.timestamp,
+        ...alert,
+        message: `${match.feed} indicator ${match.indicator} matches ${queries.toLocaleString()} already-loaded ${queries === 1 ? 'query' : 'queries'} from ${sources.size} ${sources.size === 1 ? 'source' : 'sources'}${match.description ? ` (${match.description})` : ''}`,
+        queryId: first.id,
+        subject: match.field === 'sourceIp' ? first.sourceIp : (first.registeredDomain ?? first.query),
+        host: first.host,
+        factors: [{
+          factor: `Threat intel: ${match.feed}`,
+          observed: `${match.field} matches ${match.kind} ${match.indicator} (${match.verdict}, confidence ${match.confidence}) in ${queries.toLocaleString()} loaded queries`,
+          effect: 'detector',
+          ruleId: `intel.${match.feed}`
+        }],
+        isRead: false
+      };
+      retro.suppressedBy = matchSuppression(alertTarget(retro))?.id;
+      raised.push(retro);
+    });
+
+    setState(prev => {
+      // Records that arrived since this render are scored here
+      const logs = prev.logs === loaded ? rescored : prev.logs.map(l => ({ ...l, ...scoreQuery(l) }));
+      return {
+        ...prev,
+        logs,
+        liveLogs: prev.liveLogs.map(l => ({ ...l, ...scoreQuery(l) })),
+        alerts: [...raised, ...prev.alerts].slice(0, 100),
+        stats: getStats(logs)
       };
+    });
+  };
+
+  const onIntelFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { feed, errors } = parseIntelFeed(await file.text(), file.name);
+    setIntelErrors(errors.slice(0, 200).map(err => `${file.name}: ${err}`));
+    if (feed.indicators.length === 0) {
+      setError(`No IP, CIDR or domain indicators found in ${file.name}.`);
+      return;
+    }
+    // Re-importing a feed replaces its previous version
+    applyIntelFeeds([...intelFeeds.filter(f => f.name !== feed.name), feed], feed.name);
+    setSuccessMsg(`Imported ${feed.indicators.length.toLocaleString()} indicators from ${feed.name} (${feed.format.toUpperCase()}); loaded logs rematched.`);
+  };
+
+  /**
+   * Installs and saves the domain cache and rescores the queries for the domains that changed, or everything
+   */
+  const applyDomainIntel = (next: DomainIntel[], changed?: string[]) => {
+    setActiveDomainIntel(next);
+    setDomainCache(next);
+    saveDomainCache(next);
+    const changedSet = changed ? new Set(changed) : null;
+    const rescore = (l: DNSQuery): DNSQuery =>
+      !changedSet || (l.registeredDomain && changedSet.has(l.registeredDomain)) ? { ...l, ...scoreQuery(l) } : l;
+    setState(prev => {
+      const logs = prev.logs.map(rescore);
+      return { ...prev, logs, liveLogs: prev.liveLogs.map(rescore), stats: getStats(logs) };
+    });
+  };
+
+  /**
+   * Switches provider; cached answers from the previous one are dropped and loaded domains looked up again
+   */
+  const applyDomainProvider = (config: DomainProviderConfig, file: DomainIntelFile | null = domainFile) => {
+    saveDomainProviderConfig(config);
+    setDomainProvider(config);
+    setDomainFile(file);
+    setDomainLookupError(null);
+    applyDomainIntel([]);
+  };
+
+  const onDomainIntelFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { records, errors } = parseDomainIntelFile(await file.text(), file.name);
+    if (records.length === 0) {
+      setError(`No domain records found in ${file.name}${errors.length > 0 ? `: ${errors[0]}` : '.'}`);
+      return;
+    }
+    const loaded = { name: file.name.replace(/\.[^.]+$/, '') || file.name, records };
+    if (!saveDomainFile(loaded)) setError(`${file.name} does not fit in browser storage and will only be kept for this session.`);
+    applyDomainProvider({ ...domainProvider, kind: 'file' }, loaded);
+    setSuccessMsg(`Loaded ${records.length.toLocaleString()} domain records from ${file.name}${errors.length > 0 ? `; ${errors.length.toLocaleString()} rows skipped` : ''}.`);
+  };
+
+  const rescoreAll = () => {
+    setState(prev => {
+      const logs = prev.logs.map(l => ({ ...l, ...scoreQuery(l) }));
+      return { ...prev, logs, liveLogs: prev.liveLogs.map(l => ({ ...l, ...scoreQuery(l) })), stats: getStats(logs) };
+    });
+  };
+
+  /**
+   * Installs (or, with null, removes) the classifier that labels queries, and relabels everything loaded
+   */
+  const applyModel = (next: ClassifierModel | null) => {
+    setActiveModel(next);
+    saveModel(next);
+    setModel(next);
+    rescoreAll();
+  };
+
+  const trainModel = () => {
+    const samples = state.logs.flatMap(l => {
+      const label = trainingSource === 'imported' ? trainingLabel(l) : l.label;
+      return label ? [{ features: queryFeatures(l), label }] : [];
+    });
+    setIsTraining(true);
+    setModelErrors([]);
+    // Let the spinner paint before the training loop takes the thread
+    setTimeout(() => {
+      const name = `${trainingSource === 'imported' ? 'labeled' : 'bootstrap'}-${new Date().toISOString().slice(0, 16).replace(/[:T]/g, '')}`;
+      const result = trainClassifier(samples, name, { ...DEFAULT_TRAINING_OPTIONS, holdout: holdoutShare });
+      setIsTraining(false);
+      if (result.error) {
+        setModelErrors([result.error]);
+        return;
+      }
+      setCandidateModel(result.model!);
+    }, 50);
+  };
+
+  const onModelFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { model: imported, errors } = parseModel(await file.text());
+    setModelErrors(errors.map(err => `${file.name}: ${err}`));
+    if (imported) setCandidateModel(imported);
+  };
+
+  const saveRuleText = () => {
+    const { rules: parsed, errors } = parseRules(ruleText, ruleFormat);
+    if (errors.length > 0) {
+      setRuleErrors(errors);
+      return;
+    }
+    applyRules(parsed);
+    setSuccessMsg(`Rule pack saved: ${parsed.filter(r => r.enabled).length} of ${parsed.length} rules enabled.`);
+  };
+
+  const switchRuleFormat = (format: RuleFormat) => {
+    const { rules: parsed, errors } = parseRules(ruleText, ruleFormat);
+    setRuleErrors(errors.length > 0 ? ['Fix these errors before switching format:', ...errors] : []);
+    if (errors.length > 0) return;
+    setRuleFormat(format);
+    setRuleText(serializeRules(parsed, format));
+  };
+
+  const applyLiveConfig = (config: LiveSourceConfig) => {
+    saveLiveSourceConfig(config);
+    setLiveConfig(config);
+  };
+
+  /**
+   * Asks the online fallback, when enabled, to place the first few public addresses the loaded
+   * databases could not, sequentially to avoid burst rate limits
+   */
+  const enrichWithGeo = async (logs: DNSQuery[]) => {
+    if (!loadOnlineGeoFallback()) return;
+    const unresolved = [...new Set(logs.filter(l => l.ipScope === 'public' && l.location === undefined).map(l => l.sourceIp))];
+    for (const ip of unresolved.slice(0, 10)) {
+      const geo = await fetchGeolocation(ip);
+      setState(prev => ({
+        ...prev,
+        logs: prev.logs.map(l => {
+          if (l.sourceIp !== ip || l.location !== undefined) return l;
+          const located = { ...l, ...geo };
+          return { ...located, ...scoreQuery(located) };
+        })
+      }));
     }
+  };
 
+  const loadLogs = useCallback(() => {
+    const initialLogs = generateMockData();
     setState(prev => ({
       ...prev,
-      logs: logsWithGeo,
-      stats: getStats(logsWithGeo),
-      isAnalyzing: false
+      logs: initialLogs,
+      stats: getStats(initialLogs)
     }));
+    enrichWithGeo(initialLogs);
   }, []);
 
   useEffect(() => {
     loadLogs();
   }, [loadLogs]);
 
+  /**
+   * Installs the geolocation databases and relocates and rescores everything loaded
+   */
+  const installGeoDatabases = (next: GeoDatabase[]) => {
+    setActiveGeoDatabases(next);
+    setGeoDatabases(next);
+    const relocate = (l: DNSQuery): DNSQuery => {
+      const located = { ...l, ...lookupGeo(l.sourceIp) };
+      return { ...located, ...scoreQuery(located) };
+    };
+    setState(prev => {
+      const logs = prev.logs.map(relocate);
+      return { ...prev, logs, liveLogs: prev.liveLogs.map(relocate), stats: getStats(logs) };
+    });
+  };
+
+  // Saved databases come from IndexedDB, after the first records are already on screen
+  useEffect(() => {
+    loadGeoDatabases().then(saved => {
+      if (saved.length > 0) installGeoDatabases(saved);
+    });
+  }, []);
+
+  const onGeoDatabaseFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    let database: GeoDatabase;
+    try {
+      database = openGeoDatabase(file.name, await file.arrayBuffer());
+    } catch (error) {
+      setError(error instanceof MmdbFormatError ? `${file.name}: ${error.message}` : `Could not read ${file.name}.`);
+      return;
+    }
+    // Loading a file of the same name replaces it
+    installGeoDatabases([...geoDatabases.filter(d => d.name !== database.name), database]);
+    setSuccessMsg(`Loaded ${database.databaseType} from ${file.name}; loaded logs relocated.`);
+    if (!(await saveGeoDatabase(database))) setError(`${file.name} does not fit in browser storage and will only be kept for this session.`);
+  };
+
+  const removeGeoDatabase = (name: string) => {
+    installGeoDatabases(geoDatabases.filter(d => d.name !== name));
+    deleteGeoDatabase(name);
+  };
+
+  const applyOnlineGeoFallback = (enabled: boolean) => {
+    saveOnlineGeoFallback(enabled);
+    setOnlineGeoFallback(enabled);
+    if (enabled) enrichWithGeo(state.logs);
+  };
+
   const runAIForensics = async () => {
     if (state.logs.length === 0) return;
     setState(prev => ({ ...prev, isAnalyzing: true }));
@@ -473,104 +1509,115 @@ const App: React.FC = () => {
 
   const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>, type: 'pcap' | 'log') => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
+
+    if (type === 'log' && !isDnstapStream(await file.slice(0, 64).arrayBuffer())) {
+      // Delimited exports go through the column-mapping step first
+      const sample = await file.slice(0, CSV_PREVIEW_BYTES).text();
+      if (/\.(csv|tsv)$/i.test(file.name) || detectLogFormat(sample) === 'csv') {
+        setCsvImport({ file, sample });
+        return;
+      }
+    }
+    runIngest(file, type);
+  };
+
+  const runIngest = (file: File, type: 'pcap' | 'log', csvMapping?: CsvMapping) => {
+    ingestJobRef.current?.cancel();
     setState(prev => ({ ...prev, isAnalyzing: true }));
     setError(null);
     setSuccessMsg(null);
-
-    try {
-      if (type === 'log') {
-        const text = await file.text();
-        const parsed = parseLogContent(text);
-        if (parsed.length === 0) throw new Error("No valid DNS queries found.");
-        
-        const parsedWithGeo = [...parsed];
-        for (let i = 0; i < Math.min(parsed.length, 10); i++) {
-          const geo = await fetchGeolocation(parsedWithGeo[i].sourceIp);
-          parsedWithGeo[i] = { 
-            ...parsedWithGeo[i], 
-            location: geo.location,
-            lat: geo.lat,
-            lng: geo.lng,
-            threatScore: calculateThreatScore({ ...parsedWithGeo[i], location: geo.location })
-          };
-        }
-
-        setState(prev => {
-          const newLogs = [...parsedWithGeo, ...prev.logs];
-          const newAlerts = [...prev.alerts];
-          
-          parsedWithGeo.forEach(log => {
-            if (log.label === 'Tunneling') {
-              newAlerts.unshift({
-                id: Math.random().toString(36).substr(2, 9),
-                timestamp: log.timestamp,
-                type: log.threatScore > 80 ? 'C2_PATTERN' : (log.entropy > 4.5 ? 'HIGH_ENTROPY' : 'TUNNELING_DETECTED'),
-                severity: log.threatScore > 85 ? 'CRITICAL' : (log.threatScore > 60 ? 'HIGH' : 'MEDIUM'),
-                message: `Suspicious activity detected in imported logs from ${log.sourceIp}`,
-                queryId: log.id,
-                isRead: false
-              });
-            }
+    setImportErrors([]);
+    setIngestProgress({ fileName: file.name, bytesRead: 0, totalBytes: file.size, records: 0, errors: 0 });
+
+    let isFirstBatch = true;
+    // Batches are merged once per progress tick, not as each one arrives
+    let pending: DNSQuery[][] = [];
+    // A job replaced by a newer import may still report back; only the current one touches state
+    let job: IngestJob | null = null;
+    const isCurrent = () => job !== null && ingestJobRef.current === job;
+    const flush = () => {
+      if (pending.length === 0) return;
+      const batches = pending;
+      pending = [];
+
+      const raised: Alert[] = [];
+      batches.forEach(queries => queries.forEach(log => {
+        const alert = alertForQuery(log);
+        if (alert) {
+          raised.push({
+            id: Math.random().toString(36).substr(2, 9),
+            timestamp: log.timestamp,
+            ...alert,
+            message: type === 'pcap'
+              ? `Threat detected in PCAP trace from ${log.sourceIp}`
+              : `${log.tool ? `${log.tool} traffic` : log.intel ? `${log.intel.feed} indicator ${log.intel.indicator}` : 'Suspicious activity'} detected in imported logs from ${log.host ?? log.sourceIp}${log.process ? ` by ${processBasename(log.process)}` : ''}`,
+            queryId: log.id,
+            tool: log.tool,
+            process: log.process,
+            host: log.host,
+            factors: log.breakdown,
+            suppressedBy: matchSuppression(log)?.id,
+            isRead: false
           });
-
-          return { 
-            ...prev, 
-            logs: newLogs, 
-            alerts: newAlerts.slice(0, 100),
-            stats: getStats(newLogs), 
-            isAnalyzing: false 
-          };
-        });
-        setSuccessMsg(`Imported ${parsed.length} records.`);
-      } else {
-        await new Promise(r => setTimeout(r, 2000));
-        const mockPcapLogs = generateMockData().slice(0, 25);
-        const pcapWithGeo = [...mockPcapLogs];
-        for (let i = 0; i < Math.min(mockPcapLogs.length, 10); i++) {
-          const geo = await fetchGeolocation(pcapWithGeo[i].sourceIp);
-          pcapWithGeo[i] = { 
-            ...pcapWithGeo[i], 
-            location: geo.location,
-            lat: geo.lat,
-            lng: geo.lng,
-            threatScore: calculateThreatScore({ ...pcapWithGeo[i], location: geo.location })
-          };
         }
-        setState(prev => {
-          const newLogs = [...pcapWithGeo, ...prev.logs];
-          const newAlerts = [...prev.alerts];
-          
-          pcapWithGeo.forEach(log => {
-            if (log.label === 'Tunneling') {
-              newAlerts.unshift({
-                id: Math.random().toString(36).substr(2, 9),
-                timestamp: log.timestamp,
-                type: log.threatScore > 80 ? 'C2_PATTERN' : (log.entropy > 4.5 ? 'HIGH_ENTROPY' : 'TUNNELING_DETECTED'),
-                severity: log.threatScore > 85 ? 'CRITICAL' : (log.threatScore > 60 ? 'HIGH' : 'MEDIUM'),
-                message: `Threat detected in PCAP trace from ${log.sourceIp}`,
-                queryId: log.id,
-                isRead: false
-              });
-            }
-          });
-
-          return { 
-            ...prev, 
-            logs: newLogs, 
-            alerts: newAlerts.slice(0, 100),
-            stats: getStats(newLogs), 
-            isAnalyzing: false 
-          };
-        });
-        setSuccessMsg(`Extracted 25 packets from ${file.name}`);
-      }
-    } catch (err: any) {
-      setError(err.message || "Upload failed.");
+      }));
+
+      // Each batch goes in front of the ones before it, as when they were merged one at a time
+      const arrived = batches.reverse().flat();
+      setState(prev => ({
+        ...prev,
+        logs: [...arrived, ...prev.logs].slice(0, MAX_RETAINED_LOGS),
+        // Newest alert on top
+        alerts: [...raised.reverse(), ...prev.alerts].slice(0, 100)
+      }));
+    };
+    const finish = (): boolean => {
+      if (!isCurrent()) return false;
+      flush();
+      ingestJobRef.current = null;
+      setIngestProgress(null);
       setState(prev => ({ ...prev, isAnalyzing: false }));
-    } finally {
-      e.target.value = ''; 
-    }
+      return true;
+    };
+
+    job = startIngest(file, type, {
+      onBatch: (queries, errors) => {
+        if (!isCurrent()) return;
+        if (errors.length > 0) setImportErrors(prev => [...prev, ...errors]);
+        if (queries.length === 0) return;
+        if (isFirstBatch) {
+          isFirstBatch = false;
+          enrichWithGeo(queries);
+        }
+        pending.push(queries);
+      },
+      onProgress: progress => {
+        if (!isCurrent()) return;
+        flush();
+        setIngestProgress({ fileName: file.name, ...progress });
+      },
+      onDone: (format, progress) => {
+        if (!finish()) return;
+        if (progress.records === 0) {
+          setError(type === 'pcap' ? "No DNS packets found in capture." : "No valid DNS queries found.");
+          return;
+        }
+        setSuccessMsg(type === 'pcap' || format === 'dnstap'
+          ? `Extracted ${progress.records} DNS transactions from ${file.name}`
+          : `Imported ${progress.records} records (${format} format)${progress.errors > 0 ? `, ${progress.errors} lines could not be parsed` : ''}.`);
+      },
+      onCancelled: progress => {
+        if (!finish()) return;
+        setSuccessMsg(`Import of ${file.name} cancelled after ${progress?.records ?? 0} records.`);
+      },
+      onError: message => {
+        if (!finish()) return;
+        setError(message || "Upload failed.");
+      }
+    }, csvMapping);
+    ingestJobRef.current = job;
   };
 
   const threatColor = (level?: ThreatLevel) => {
@@ -585,7 +1632,9 @@ const App: React.FC = () => {
   const filteredLogs = state.logs.filter(log => {
     const matchesSearch = log.query.toLowerCase().includes(searchTerm.toLowerCase()) || 
                           log.sourceIp.includes(searchTerm) ||
-                          log.id.toLowerCase().includes(searchTerm.toLowerCase());
+                          log.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                          (log.process?.toLowerCase().includes(searchTerm.toLowerCase()) ?? false) ||
+                          (log.host?.toLowerCase().includes(searchTerm.toLowerCase()) ?? false);
     const matchesType = filterType === 'ALL' || log.type === filterType;
     const matchesRCode = filterRCode === 'ALL' || log.responseCode === filterRCode;
     const matchesThreat = filterThreat === 'ALL' || (
@@ -595,13 +1644,88 @@ const App: React.FC = () => {
       log.threatScore <= 20
     );
     const matchesReputation = filterReputation === 'ALL' || log.reputation === filterReputation;
-    return matchesSearch && matchesType && matchesRCode && matchesThreat && matchesReputation;
+    const matchesProcess = filterProcess === 'ALL' || (filterProcess === 'NONE' ? !log.process : log.process === filterProcess);
+    const matchesLabel = filterLabel === 'ALL' || (log.label ?? 'Normal') === filterLabel;
+    return matchesSearch && matchesType && matchesRCode && matchesThreat && matchesReputation && matchesProcess && matchesLabel;
   });
 
+  // Per-rule hit counters over the loaded logs, only counted while the Rules view is open
+  const ruleHits = new Map<string, number>();
+  if (state.activeView === 'rules') {
+    state.logs.forEach(l => l.breakdown?.forEach(f => ruleHits.set(f.ruleId, (ruleHits.get(f.ruleId) ?? 0) + 1)));
+  }
+
+  // Host profile page: the chosen host, or the most anomalous one
+  const profile = hostProfiles.find(p => p.sourceIp === selectedHostIp) ?? hostProfiles[0];
+  const baseline = profile?.baseline;
+  const profileQtypes = profile ? Array.from(new Set([...Object.keys(baseline?.qtypeMix ?? {}), ...Object.keys(profile.current.qtypes)])).sort() : [];
+  const profileHourMax = profile ? Math.max(0.01, ...(baseline?.activeHours ?? []), ...profile.current.hours.map(n => n / Math.max(1, profile.current.queries))) : 1;
+
+  const suppressedAlertCount = state.alerts.filter(a => a.suppressedBy).length;
+  const visibleAlerts = state.alerts.filter(a => showSuppressed ? a.suppressedBy : !a.suppressedBy);
+  const domainCachedWithData = state.activeView === 'domains' ? domainCache.filter(hasDomainData).length : 0;
+  const suppressionHits = state.activeView === 'suppressions' ? countSuppressionHits(state.alerts, state.logs, suppressions) : new Map<string, { alerts: number; queries: number }>();
+
+  // Threat-intel page: matched queries per feed and per indicator
+  const intelHits = new Map<string, { match: IntelMatch; queries: number; sources: Set<string>; lastSeen: string }>();
+  if (state.activeView === 'intel') {
+    state.logs.forEach(l => {
+      if (!l.intel) return;
+      const key = `${l.intel.feed}|${l.intel.indicator}`;
+      if (!intelHits.has(key)) intelHits.set(key, { match: l.intel, queries: 0, sources: new Set(), lastSeen: l.timestamp });
+      const hit = intelHits.get(key)!;
+      hit.queries++;
+      hit.sources.add(l.sourceIp);
+      if (l.timestamp > hit.lastSeen) hit.lastSeen = l.timestamp;
+    });
+  }
+  const intelIndicatorHits = Array.from(intelHits.values()).sort((a, b) => b.queries - a.queries);
+
+  // Dashboard trend, response codes and qtypes, largest share first
+  const latestBucket = trend[trend.length - 1];
+  const trendData = trend.map(b => ({
+    time: new Date(b.start).toLocaleString([], trendBucketMs >= 24 * 60 * 60 * 1000 ? { month: 'short', day: 'numeric' } : { hour: '2-digit', minute: '2-digit' }),
+    queriesPerMinute: b.queriesPerMinute,
+    nxdomain: parseFloat((b.nxDomainRatio * 100).toFixed(1)),
+    servfail: parseFloat((b.servFailRatio * 100).toFixed(1)),
+    refused: parseFloat((b.refusedRatio * 100).toFixed(1))
+  }));
+  const statRcodes = Object.entries<number>(state.stats?.rcodeRatios ?? {}).sort((a, b) => b[1] - a[1]);
+  const statQtypes = Object.entries<number>(state.stats?.qtypeDistribution ?? {}).sort((a, b) => b[1] - a[1]);
+
+  const processOptions = Array.from(new Set<string>(state.logs.map(l => l.process).filter((p): p is string => !!p))).sort();
+
   return (
     <div className="flex h-screen bg-[#020617] text-slate-200 overflow-hidden font-sans">
-      <input type="file" ref={pcapInputRef} className="hidden" accept=".pcap,.cap" onChange={(e) => onFileChange(e, 'pcap')} />
-      <input type="file" ref={logInputRef} className="hidden" accept=".log,.txt,.csv" onChange={(e) => onFileChange(e, 'log')} />
+      <input type="file" ref={pcapInputRef} className="hidden" accept=".pcap,.cap,.pcapng,.dnstap,.fstrm" onChange={(e) => onFileChange(e, 'pcap')} />
+      <input type="file" ref={logInputRef} className="hidden" accept=".log,.txt,.csv,.tsv,.json,.xml,.dnstap,.fstrm" onChange={(e) => onFileChange(e, 'log')} />
+      <input type="file" ref={modelInputRef} className="hidden" accept=".json" onChange={onModelFile} />
+      <input type="file" ref={intelInputRef} className="hidden" accept=".txt,.list,.csv,.tsv,.json" onChange={onIntelFile} />
+      <input type="file" ref={geoInputRef} className="hidden" accept=".mmdb" onChange={onGeoDatabaseFile} />
+      <input type="file" ref={domainFileInputRef} className="hidden" accept=".json,.jsonl,.ndjson,.csv,.tsv" onChange={onDomainIntelFile} />
+      {suppressionTarget && (
+        <SuppressionDialog
+          target={suppressionTarget}
+          author={[...suppressions].reverse().find(e => !DEFAULT_SUPPRESSIONS.some(d => d.id === e.id))?.author ?? ''}
+          onCancel={() => setSuppressionTarget(null)}
+          onSave={(entry) => {
+            setSuppressionTarget(null);
+            applySuppressionList([...suppressions, entry]);
+            setSuccessMsg(`Suppression added: ${entry.kind} ${entry.value}`);
+          }}
+        />
+      )}
+      {csvImport && (
+        <CsvMappingWizard 
+          fileName={csvImport.file.name} 
+          sample={csvImport.sample} 
+          onCancel={() => setCsvImport(null)} 
+          onImport={(mapping) => {
+            setCsvImport(null);
+            runIngest(csvImport.file, 'log', mapping);
+          }} 
+        />
+      )}
 
       <aside className="w-64 border-r border-slate-800 p-4 flex flex-col gap-8">
         <div className="flex items-center gap-3 px-2 mt-2">
@@ -619,11 +1743,17 @@ const App: React.FC = () => {
             icon={<BellRing size={20} />} 
             label="Alerts" 
             active={state.activeView === 'alerts'} 
-            badge={state.alerts.filter(a => !a.isRead).length > 0 ? `${state.alerts.filter(a => !a.isRead).length}` : undefined} 
+            badge={state.alerts.filter(a => !a.isRead && !a.suppressedBy).length > 0 ? `${state.alerts.filter(a => !a.isRead && !a.suppressedBy).length}` : undefined} 
             onClick={() => setState(s => ({ ...s, activeView: 'alerts' }))} 
           />
+          <SidebarItem icon={<Network size={20} />} label="Domains" active={state.activeView === 'domains'} badge={aggregates.domains.some(d => d.violations.length > 0) ? `${aggregates.domains.filter(d => d.violations.length > 0).length}` : undefined} onClick={() => setState(s => ({ ...s, activeView: 'domains' }))} />
+          <SidebarItem icon={<Server size={20} />} label="Hosts" active={state.activeView === 'hosts'} badge={hostProfiles.some(p => p.anomalies.length > 0) ? `${hostProfiles.filter(p => p.anomalies.length > 0).length}` : undefined} onClick={() => setState(s => ({ ...s, activeView: 'hosts' }))} />
           <SidebarItem icon={<Database size={20} />} label="DNS Logs" active={state.activeView === 'logs'} onClick={() => setState(s => ({ ...s, activeView: 'logs' }))} />
           <SidebarItem icon={<Cpu size={20} />} label="Forensic Lab" active={state.activeView === 'forensics'} onClick={() => setState(s => ({ ...s, activeView: 'forensics' }))} />
+          <SidebarItem icon={<SlidersHorizontal size={20} />} label="Rules" active={state.activeView === 'rules'} onClick={() => setState(s => ({ ...s, activeView: 'rules' }))} />
+          <SidebarItem icon={<ShieldOff size={20} />} label="Suppressions" active={state.activeView === 'suppressions'} onClick={() => setState(s => ({ ...s, activeView: 'suppressions' }))} />
+          <SidebarItem icon={<Radar size={20} />} label="Threat Intel" active={state.activeView === 'intel'} badge={intelFeeds.length > 0 ? `${intelFeeds.length}` : undefined} onClick={() => setState(s => ({ ...s, activeView: 'intel' }))} />
+          <SidebarItem icon={<BrainCircuit size={20} />} label="Classifier" active={state.activeView === 'model'} badge={model ? 'ML' : undefined} onClick={() => setState(s => ({ ...s, activeView: 'model' }))} />
           <SidebarItem icon={<FileText size={20} />} label="Reports" active={state.activeView === 'reports'} onClick={() => setState(s => ({ ...s, activeView: 'reports' }))} />
         </nav>
 
@@ -664,6 +1794,44 @@ const App: React.FC = () => {
         <div className="flex-1 overflow-y-auto p-8 scroll-smooth">
           {error && <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 text-red-400 rounded-xl flex items-center gap-3"><AlertTriangle className="w-5 h-5" />{error}</div>}
           {successMsg && <div className="mb-6 p-4 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-xl flex items-center gap-3"><CheckCircle2 className="w-5 h-5" />{successMsg}</div>}
+          {ingestProgress && (
+            <div className="mb-6 p-4 bg-slate-900 border border-slate-800 rounded-xl space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 text-sm text-slate-300 min-w-0">
+                  <Upload className="w-4 h-4 text-emerald-500 shrink-0" />
+                  <span className="truncate">Ingesting <b className="text-white">{ingestProgress.fileName}</b></span>
+                </div>
+                <button 
+                  onClick={() => ingestJobRef.current?.cancel()}
+                  className="px-3 py-1 text-[10px] font-bold uppercase tracking-widest rounded-lg border border-red-500/20 bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+              <div className="w-full h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-500 transition-all duration-300" style={{ width: `${ingestProgress.totalBytes > 0 ? (ingestProgress.bytesRead / ingestProgress.totalBytes) * 100 : 0}%` }} />
+              </div>
+              <div className="flex gap-6 text-[10px] font-mono text-slate-500 uppercase">
+                <span>{(ingestProgress.bytesRead / 1048576).toFixed(1)} / {(ingestProgress.totalBytes / 1048576).toFixed(1)} MB</span>
+                <span>Records: <b className="text-slate-300">{ingestProgress.records.toLocaleString()}</b></span>
+                <span>Parse Errors: <b className={ingestProgress.errors > 0 ? 'text-amber-400' : 'text-slate-300'}>{ingestProgress.errors.toLocaleString()}</b></span>
+              </div>
+            </div>
+          )}
+          {importErrors.length > 0 && (
+            <details className="mb-6 p-4 bg-amber-500/5 border border-amber-500/20 text-amber-400 rounded-xl">
+              <summary className="cursor-pointer text-sm flex items-center gap-3"><Info className="w-4 h-4" />{importErrors.length} unparsed lines in last import</summary>
+              <div className="mt-3 max-h-64 overflow-y-auto space-y-1 font-mono text-[10px]">
+                {importErrors.slice(0, 200).map((err, idx) => (
+                  <div key={idx} className="flex gap-3 text-slate-400">
+                    <span className="text-amber-500 shrink-0 w-16 text-right">L{err.line}</span>
+                    <span className="text-slate-500 shrink-0 w-48">{err.reason}</span>
+                    <span className="truncate">{err.content}</span>
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
 
           {state.activeView === 'alerts' && (
             <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-300">
@@ -671,25 +1839,33 @@ const App: React.FC = () => {
                 <h2 className="text-xl font-bold text-white flex items-center gap-3">
                   <BellRing className="text-red-500" /> Security Alerts
                 </h2>
-                <button 
-                  onClick={() => setState(prev => ({ ...prev, alerts: prev.alerts.map(a => ({ ...a, isRead: true })) }))}
-                  className="text-xs text-slate-400 hover:text-white transition-colors"
-                >
-                  Mark all as read
-                </button>
+                <div className="flex items-center gap-4">
+                  <button
+                    onClick={() => setShowSuppressed(!showSuppressed)}
+                    className={`text-xs flex items-center gap-1 transition-colors ${showSuppressed ? 'text-emerald-400' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    <ShieldOff size={12} /> {showSuppressed ? 'Showing' : 'Show'} suppressed ({suppressedAlertCount})
+                  </button>
+                  <button 
+                    onClick={() => setState(prev => ({ ...prev, alerts: prev.alerts.map(a => ({ ...a, isRead: true })) }))}
+                    className="text-xs text-slate-400 hover:text-white transition-colors"
+                  >
+                    Mark all as read
+                  </button>
+                </div>
               </div>
 
               <div className="grid gap-4">
-                {state.alerts.length === 0 && (
+                {visibleAlerts.length === 0 && (
                   <div className="bg-slate-900 border border-slate-800 rounded-xl p-12 text-center">
                     <div className="bg-slate-800 w-12 h-12 rounded-full flex items-center justify-center mx-auto mb-4">
                       <ShieldCheck className="text-emerald-500" />
                     </div>
-                    <h3 className="text-white font-medium mb-1">No active threats</h3>
-                    <p className="text-slate-500 text-sm">Your DNS traffic appears clean.</p>
+                    <h3 className="text-white font-medium mb-1">{showSuppressed ? 'No suppressed alerts' : 'No active threats'}</h3>
+                    <p className="text-slate-500 text-sm">{showSuppressed ? 'No alert matched an allowlist entry.' : 'Your DNS traffic appears clean.'}</p>
                   </div>
                 )}
-                {state.alerts.map((alert) => (
+                {visibleAlerts.map((alert) => (
                   <div 
                     key={alert.id} 
                     className={`bg-slate-900 border rounded-xl p-5 transition-all hover:border-slate-700 ${alert.isRead ? 'border-slate-800 opacity-70' : 'border-red-500/30 bg-red-500/[0.02]'}`}
@@ -711,50 +1887,1118 @@ const App: React.FC = () => {
                             </span>
                           </div>
                           <h3 className="text-white font-medium mt-1">{alert.message}</h3>
+                          {alert.suppressedBy && (
+                            <div className="mt-2 text-[10px] font-mono text-slate-400">
+                              <span className="bg-slate-800 px-2 py-0.5 rounded border border-slate-700">
+                                SUPPRESSED: {suppressions.find(e => e.id === alert.suppressedBy)?.reason ?? alert.suppressedBy}
+                              </span>
+                            </div>
+                          )}
+                          {(alert.process || alert.host) && (
+                            <div className="flex items-center gap-3 mt-2 text-[10px] font-mono text-slate-400">
+                              {alert.tool && <span className="bg-red-500/10 text-red-400 px-2 py-0.5 rounded border border-red-500/30">TOOL: {alert.tool}</span>}
+                              {alert.host && <span className="bg-slate-800 px-2 py-0.5 rounded border border-slate-700">HOST: {alert.host}</span>}
+                              {alert.process && <span className="bg-slate-800 px-2 py-0.5 rounded border border-slate-700" title={alert.process}>PROC: {processBasename(alert.process)}</span>}
+                            </div>
+                          )}
                         </div>
                       </div>
                       <span className="text-[10px] text-slate-500 font-mono">{new Date(alert.timestamp).toLocaleString()}</span>
                     </div>
                     <div className="flex items-center justify-between mt-4 pt-4 border-t border-slate-800/50">
                       <div className="flex items-center gap-4">
+                        <button 
+                          onClick={() => setExpandedAlertId(expandedAlertId === alert.id ? null : alert.id)}
+                          className="text-[10px] text-emerald-400 hover:underline flex items-center gap-1"
+                        >
+                          <Info size={12} /> Why was this flagged?
+                        </button>
                         <button className="text-[10px] text-emerald-400 hover:underline flex items-center gap-1">
                           <Search size={12} /> Inspect Query
                         </button>
                         <button className="text-[10px] text-slate-400 hover:text-white flex items-center gap-1">
                           <Shield size={12} /> Block Source IP
                         </button>
+                        {!alert.suppressedBy && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); setSuppressionTarget(alertTarget(alert, state.logs.find(l => l.id === alert.queryId))); }}
+                            className="text-[10px] text-slate-400 hover:text-white flex items-center gap-1"
+                          >
+                            <ShieldOff size={12} /> Suppress
+                          </button>
+                        )}
                       </div>
                       {!alert.isRead && <div className="w-2 h-2 rounded-full bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.8)]" />}
                     </div>
+                    {expandedAlertId === alert.id && (
+                      <div className="mt-4 pt-4 border-t border-slate-800/50">
+                        <ScoreBreakdown
+                          factors={alert.factors ?? state.logs.find(l => l.id === alert.queryId)?.breakdown}
+                          score={alert.subject !== undefined ? undefined : state.logs.find(l => l.id === alert.queryId)?.threatScore}
+                        />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
             </div>
           )}
-          {state.activeView === 'dashboard' && (
-            <div className="space-y-8 animate-in fade-in duration-500">
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                <StatCard label="Live Queries/min" value={Math.floor(Math.random() * 20) + 10} subtext="Ingress" icon={<Wifi size={24} />} />
-                <StatCard label="Tunnel Detections" value={state.logs.filter(l => l.label === 'Tunneling').length} subtext="Threat Pool" icon={<ShieldAlert size={24} />} />
-                <StatCard label="Avg Payload Entropy" value={state.stats?.avgEntropy || 0} subtext="Statistical" icon={<Terminal size={24} />} />
-                <StatCard label="Threat Index" value={state.report ? 88 : 14} subtext="Real-time" icon={<AlertTriangle size={24} />} />
+          {state.activeView === 'domains' && (
+            <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-300">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-bold text-white flex items-center gap-3">
+                  <Network className="text-emerald-500" /> Domain Behaviour
+                </h2>
+                <span className="text-xs text-slate-500">
+                  Peaks over a sliding {DEFAULT_AGGREGATION_THRESHOLDS.windowMs / 60000}-minute window · {aggregates.domains.length.toLocaleString()} domains · {aggregates.sources.length.toLocaleString()} sources
+                </span>
               </div>
 
-              <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-                <div className="lg:col-span-2 bg-slate-900 border border-slate-800 rounded-xl p-6">
-                  <h3 className="text-lg font-semibold mb-6 flex items-center gap-2"><BarChart3 className="w-5 h-5 text-emerald-500" />Global Payload Distribution</h3>
-                  <div className="h-[300px]">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
-                        <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
-                        <XAxis type="number" dataKey="length" name="Length" unit=" ch" stroke="#64748b" />
-                        <YAxis type="number" dataKey="entropy" name="Entropy" stroke="#64748b" />
-                        <ZAxis type="number" range={[60, 100]} />
-                        <Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#fff' }} />
-                        <Scatter name="Queries" data={state.logs.slice(0, 100)}>
-                          {state.logs.slice(0, 100).map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={entry.label === 'Tunneling' ? '#ef4444' : '#10b981'} fillOpacity={0.6} />
-                          ))}
+              <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-wrap items-end justify-between gap-4">
+                <div className="flex flex-wrap items-end gap-4">
+                  <FilterSelect
+                    label="WHOIS / Passive DNS"
+                    value={domainProvider.kind}
+                    onChange={(val) => applyDomainProvider({ ...domainProvider, kind: val as DomainProviderKind })}
+                    options={DOMAIN_PROVIDER_OPTIONS}
+                  />
+                  {domainProvider.kind === 'http' && (
+                    <>
+                      <div className="flex flex-col gap-1">
+                        <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Endpoint</label>
+                        <input
+                          value={domainEndpoint}
+                          onChange={(e) => setDomainEndpoint(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && applyDomainProvider({ ...domainProvider, endpoint: domainEndpoint.trim() })}
+                          placeholder="http://localhost:8054/domains/{domain}"
+                          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 font-mono outline-none focus:ring-1 focus:ring-emerald-500 w-72"
+                        />
+                      </div>
+                      <button
+                        onClick={() => applyDomainProvider({ ...domainProvider, endpoint: domainEndpoint.trim() })}
+                        disabled={!domainEndpoint.trim() || domainEndpoint.trim() === domainProvider.endpoint}
+                        className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg border border-emerald-500/20 bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 disabled:opacity-40 transition-colors"
+                      >
+                        Apply
+                      </button>
+                    </>
+                  )}
+                  {domainProvider.kind === 'file' && (
+                    <>
+                      <button
+                        onClick={() => domainFileInputRef.current?.click()}
+                        className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-emerald-600 text-white hover:bg-emerald-500 flex items-center gap-2"
+                      >
+                        <Upload size={12} /> Load File
+                      </button>
+                      <span className="text-xs text-slate-500 pb-1.5">
+                        {domainFile ? `${domainFile.name} · ${domainFile.records.length.toLocaleString()} domains` : 'WHOIS JSON, RDAP, DNSDB NDJSON or CSV'}
+                      </span>
+                    </>
+                  )}
+                </div>
+                <div className="flex items-center gap-4">
+                  {domainLookupError && (
+                    <span className="text-xs text-amber-400 flex items-center gap-2">
+                      <AlertTriangle size={12} /> {domainLookupError}
+                      <button onClick={() => setDomainLookupError(null)} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-white">Retry</button>
+                    </span>
+                  )}
+                  <span className="text-xs text-slate-500">{domainCachedWithData.toLocaleString()} of {domainCache.length.toLocaleString()} cached domains have data</span>
+                  <button
+                    onClick={() => { setDomainLookupError(null); applyDomainIntel([]); }}
+                    disabled={domainCache.length === 0}
+                    className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-red-400 disabled:opacity-40"
+                  >
+                    Clear Cache
+                  </button>
+                </div>
+              </div>
+
+              <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-800 text-xs font-bold uppercase tracking-widest text-slate-400">Registered Domains</div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-sm border-collapse">
+                    <thead>
+                      <tr className="bg-slate-950 text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-800 font-bold">
+                        <th className="px-6 py-4">Domain</th>
+                        <th className="px-6 py-4 text-right">Queries</th>
+                        <th className="px-6 py-4 text-right">Sources</th>
+                        <th className="px-6 py-4 text-right">Subdomains (Peak)</th>
+                        <th className="px-6 py-4 text-right">Label Bytes (Peak)</th>
+                        <th className="px-6 py-4 text-right">Peak Q/min</th>
+                        <th className="px-6 py-4">Types</th>
+                        <th className="px-6 py-4 text-right">NXDOMAIN</th>
+                        <th className="px-6 py-4">Last Seen</th>
+                        <th className="px-6 py-4">Registered</th>
+                        <th className="px-6 py-4">Flags</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800/50">
+                      {aggregates.domains.slice(0, MAX_TABLE_ROWS).map(d => {
+                        const info = lookupDomainIntel(d.registeredDomain);
+                        const { domainAgeDays, domainFirstSeenDays } = domainAge(info, d.lastSeen);
+                        const isNewlyObserved = (domainAgeDays ?? Infinity) < 30 || (domainFirstSeenDays ?? Infinity) < 30;
+                        return (
+                          <tr
+                            key={d.registeredDomain}
+                            className={`cursor-pointer transition-colors ${d.violations.length > 0 ? 'bg-red-500/[0.03] hover:bg-red-500/[0.06]' : 'hover:bg-slate-800/40'}`}
+                            onClick={() => {
+                              setSearchTerm(d.registeredDomain);
+                              setState(s => ({ ...s, activeView: 'logs' }));
+                            }}
+                          >
+                            <td className={`px-6 py-3 font-mono text-xs ${d.violations.length > 0 ? 'text-red-400 font-semibold' : 'text-emerald-400/90'}`}>{d.registeredDomain}</td>
+                            <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{d.queries.toLocaleString()}</td>
+                            <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{d.sources}</td>
+                            <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{d.uniqueSubdomains.toLocaleString()} <span className="text-slate-500">({d.peakUniqueSubdomains.toLocaleString()})</span></td>
+                            <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{d.labelBytes.toLocaleString()} <span className="text-slate-500">({d.peakLabelBytes.toLocaleString()})</span></td>
+                            <td className="px-6 py-3 text-right font-mono text-xs text-slate-300" title={d.peakPairSource}>{d.peakPairRate}</td>
+                            <td className="px-6 py-3">
+                              <div className="flex flex-wrap gap-1" title={`Type spread ${d.typeSpread} bits`}>
+                                {Object.entries<number>(d.typeDistribution).sort((a, b) => b[1] - a[1]).slice(0, 3).map(([type, count]) => (
+                                  <span key={type} className={`text-[10px] font-bold px-1.5 py-0.5 rounded border ${type === 'TXT' || type === 'NULL' ? 'bg-amber-500/10 text-amber-500 border-amber-500/20' : 'bg-slate-800 text-slate-400 border-slate-700'}`}>
+                                    {type} {Math.round((count / d.queries) * 100)}%
+                                  </span>
+                                ))}
+                              </div>
+                            </td>
+                            <td className={`px-6 py-3 text-right font-mono text-xs ${d.nxDomainRatio > 0.3 ? 'text-red-400' : 'text-slate-500'}`}>{(d.nxDomainRatio * 100).toFixed(1)}%</td>
+                            <td className="px-6 py-3 text-[10px] font-mono text-slate-500">{new Date(d.lastSeen).toLocaleString()}</td>
+                            <td
+                              className="px-6 py-3 text-[10px] font-mono text-slate-500"
+                              title={info ? [
+                                info.registrar && `Registrar: ${info.registrar}`,
+                                info.nameServers && `NS: ${info.nameServers.join(', ')}`,
+                                info.firstSeen && `Passive DNS: ${new Date(info.firstSeen).toLocaleDateString()} – ${info.lastSeen ? new Date(info.lastSeen).toLocaleDateString() : '?'}`,
+                                `Source: ${info.source}`
+                              ].filter(Boolean).join('\n') : undefined}
+                            >
+                              {info ? (
+                                <span className={isNewlyObserved ? 'text-red-400 font-bold' : ''}>
+                                  {info.createdAt ? new Date(info.createdAt).toLocaleDateString() : '—'}
+                                  {(domainAgeDays ?? domainFirstSeenDays) !== undefined && ` (${(domainAgeDays ?? domainFirstSeenDays)!.toLocaleString()}d)`}
+                                </span>
+                              ) : '—'}
+                              {info?.registrar && <div className="text-slate-600 truncate max-w-[140px]">{info.registrar}</div>}
+                            </td>
+                            <td className="px-6 py-3">
+                              <div className="flex flex-wrap gap-1">
+                                {isNewlyObserved && (
+                                  <span title="Registered or first seen in passive DNS less than 30 days before it was queried" className="text-[9px] bg-orange-500 text-white px-1 rounded font-bold uppercase tracking-tighter">new</span>
+                                )}
+                                {d.violations.map(v => (
+                                  <span key={v.metric} title={describeViolation(d.registeredDomain, v)} className="text-[9px] bg-red-500 text-white px-1 rounded font-bold uppercase tracking-tighter">{v.metric}</span>
+                                ))}
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  {aggregates.domains.length === 0 && (
+                    <div className="p-12 text-center text-slate-500 text-sm">No domains aggregated yet.</div>
+                  )}
+                </div>
+                {aggregates.domains.length > MAX_TABLE_ROWS && (
+                  <div className="px-6 py-3 border-t border-slate-800 text-[10px] text-slate-500 uppercase tracking-widest">
+                    Showing {MAX_TABLE_ROWS} of {aggregates.domains.length.toLocaleString()} domains, flagged first
+                  </div>
+                )}
+              </div>
+
+              {beacons.length > 0 && (
+                <div className="bg-slate-900 border border-red-500/30 rounded-xl overflow-hidden">
+                  <div className="px-6 py-4 border-b border-slate-800 text-xs font-bold uppercase tracking-widest text-red-400 flex items-center gap-2">
+                    <Radio size={14} /> Periodic Beacons
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm border-collapse">
+                      <thead>
+                        <tr className="bg-slate-950 text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-800 font-bold">
+                          <th className="px-6 py-4">Source</th>
+                          <th className="px-6 py-4">Domain</th>
+                          <th className="px-6 py-4 text-right">Period</th>
+                          <th className="px-6 py-4 text-right">Jitter</th>
+                          <th className="px-6 py-4 text-right">Callbacks</th>
+                          <th className="px-6 py-4 text-right">Regularity</th>
+                          <th className="px-6 py-4 text-right">Confidence</th>
+                          <th className="px-6 py-4">Last Seen</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-800/50">
+                        {beacons.slice(0, MAX_TABLE_ROWS).map(b => (
+                          <tr
+                            key={`${b.sourceIp}|${b.registeredDomain}`}
+                            className="cursor-pointer hover:bg-slate-800/40 transition-colors"
+                            onClick={() => {
+                              setSearchTerm(b.registeredDomain);
+                              setState(s => ({ ...s, activeView: 'logs' }));
+                            }}
+                          >
+                            <td className="px-6 py-3 font-mono text-xs text-slate-300">{b.sourceIp}{b.host && <span className="text-slate-500"> ({b.host})</span>}</td>
+                            <td className="px-6 py-3 font-mono text-xs text-red-400 font-semibold">{b.registeredDomain}</td>
+                            <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{b.period}s</td>
+                            <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">±{Math.round(b.jitter * 100)}%</td>
+                            <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{b.callbacks.toLocaleString()}</td>
+                            <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{Math.round(b.regularity * 100)}%</td>
+                            <td className={`px-6 py-3 text-right font-mono text-xs font-bold ${b.confidence >= 0.85 ? 'text-red-500' : 'text-orange-500'}`}>{Math.round(b.confidence * 100)}%</td>
+                            <td className="px-6 py-3 text-[10px] font-mono text-slate-500">{new Date(b.lastSeen).toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {nxdomainBursts.length > 0 && (
+                <div className="bg-slate-900 border border-purple-500/30 rounded-xl overflow-hidden">
+                  <div className="px-6 py-4 border-b border-slate-800 text-xs font-bold uppercase tracking-widest text-purple-400 flex items-center gap-2">
+                    <Globe size={14} /> NXDOMAIN Bursts (DGA)
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm border-collapse">
+                      <thead>
+                        <tr className="bg-slate-950 text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-800 font-bold">
+                          <th className="px-6 py-4">Host</th>
+                          <th className="px-6 py-4 text-right">NXDOMAIN</th>
+                          <th className="px-6 py-4 text-right">Domains</th>
+                          <th className="px-6 py-4 text-right">Generated</th>
+                          <th className="px-6 py-4">Samples</th>
+                          <th className="px-6 py-4">Window</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-800/50">
+                        {nxdomainBursts.slice(0, MAX_TABLE_ROWS).map(b => (
+                          <tr
+                            key={b.host}
+                            className="cursor-pointer hover:bg-slate-800/40 transition-colors"
+                            onClick={() => {
+                              setSearchTerm(b.host === b.sourceIp ? b.sourceIp : b.host);
+                              setFilterLabel('DGA');
+                              setState(s => ({ ...s, activeView: 'logs' }));
+                            }}
+                          >
+                            <td className="px-6 py-3 font-mono text-xs text-slate-300">{b.host}{b.host !== b.sourceIp && <span className="text-slate-500"> ({b.sourceIp})</span>}</td>
+                            <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{b.nxdomains.toLocaleString()}</td>
+                            <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{b.distinctDomains.toLocaleString()}</td>
+                            <td className="px-6 py-3 text-right font-mono text-xs font-bold text-purple-400">{b.dgaDomains.toLocaleString()} ({Math.round(b.dgaRatio * 100)}%)</td>
+                            <td className="px-6 py-3 font-mono text-[10px] text-slate-400">{b.samples.join(', ')}</td>
+                            <td className="px-6 py-3 text-[10px] font-mono text-slate-500">{new Date(b.start).toLocaleTimeString()} – {new Date(b.end).toLocaleTimeString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-800 text-xs font-bold uppercase tracking-widest text-slate-400">Source IPs</div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-sm border-collapse">
+                    <thead>
+                      <tr className="bg-slate-950 text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-800 font-bold">
+                        <th className="px-6 py-4">Source</th>
+                        <th className="px-6 py-4">Host</th>
+                        <th className="px-6 py-4 text-right">Queries</th>
+                        <th className="px-6 py-4 text-right">Domains</th>
+                        <th className="px-6 py-4 text-right">Label Bytes (Peak)</th>
+                        <th className="px-6 py-4">Peak Q/min</th>
+                        <th className="px-6 py-4 text-right">NXDOMAIN</th>
+                        <th className="px-6 py-4">Last Seen</th>
+                        <th className="px-6 py-4">Flags</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800/50">
+                      {aggregates.sources.slice(0, MAX_TABLE_ROWS).map(src => (
+                        <tr
+                          key={src.sourceIp}
+                          className={`cursor-pointer transition-colors ${src.violations.length > 0 ? 'bg-red-500/[0.03] hover:bg-red-500/[0.06]' : 'hover:bg-slate-800/40'}`}
+                          onClick={() => {
+                            setSelectedHostIp(src.sourceIp);
+                            setState(s => ({ ...s, activeView: 'hosts' }));
+                          }}
+                        >
+                          <td className={`px-6 py-3 font-mono text-xs ${src.violations.length > 0 ? 'text-red-400 font-semibold' : 'text-slate-300'}`}>{src.sourceIp}</td>
+                          <td className="px-6 py-3 text-xs text-slate-400">{src.host ?? '—'}</td>
+                          <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{src.queries.toLocaleString()}</td>
+                          <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{src.domains.toLocaleString()}</td>
+                          <td className="px-6 py-3 text-right font-mono text-xs text-slate-300">{src.labelBytes.toLocaleString()} <span className="text-slate-500">({src.peakLabelBytes.toLocaleString()})</span></td>
+                          <td className="px-6 py-3 font-mono text-xs text-slate-300">{src.peakPairRate}{src.peakPairDomain && <span className="text-slate-500"> → {src.peakPairDomain}</span>}</td>
+                          <td className={`px-6 py-3 text-right font-mono text-xs ${src.nxDomainRatio > 0.3 ? 'text-red-400' : 'text-slate-500'}`}>{(src.nxDomainRatio * 100).toFixed(1)}%</td>
+                          <td className="px-6 py-3 text-[10px] font-mono text-slate-500">{new Date(src.lastSeen).toLocaleString()}</td>
+                          <td className="px-6 py-3">
+                            <div className="flex flex-wrap gap-1">
+                              {src.violations.map(v => (
+                                <span key={v.metric} title={describeViolation(src.sourceIp, v)} className="text-[9px] bg-red-500 text-white px-1 rounded font-bold uppercase tracking-tighter">{v.metric}</span>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {aggregates.sources.length === 0 && (
+                    <div className="p-12 text-center text-slate-500 text-sm">No sources aggregated yet.</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {state.activeView === 'hosts' && (
+            <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-300">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-bold text-white flex items-center gap-3">
+                  <Server className="text-emerald-500" /> Host Profiles
+                </h2>
+                <span className="text-xs text-slate-500">
+                  Hourly baseline over up to {Math.round(DEFAULT_BASELINE_OPTIONS.trainingWindowMs / 86400000)} days · alerts at z ≥ {DEFAULT_BASELINE_OPTIONS.zThreshold}
+                </span>
+              </div>
+
+              {hostProfiles.length === 0 ? (
+                <div className="bg-slate-900 border border-slate-800 rounded-xl p-12 text-center text-slate-500 text-sm">No traffic loaded.</div>
+              ) : (
+                <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+                  <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden xl:max-h-[760px] overflow-y-auto custom-scrollbar">
+                    {hostProfiles.slice(0, MAX_TABLE_ROWS).map(p => (
+                      <button
+                        key={p.sourceIp}
+                        onClick={() => setSelectedHostIp(p.sourceIp)}
+                        className={`w-full text-left px-4 py-3 border-b border-slate-800/50 transition-colors ${p.sourceIp === profile.sourceIp ? 'bg-emerald-500/10' : 'hover:bg-slate-800/40'}`}
+                      >
+                        <div className="flex justify-between items-center">
+                          <span className={`font-mono text-xs ${p.anomalies.length > 0 ? 'text-red-400 font-semibold' : 'text-slate-300'}`}>{p.sourceIp}</span>
+                          {p.anomalies.length > 0 && <span className="text-[9px] font-bold bg-red-500 text-white px-1 rounded">{p.anomalies.length}</span>}
+                        </div>
+                        <div className="text-[10px] text-slate-500 mt-0.5">
+                          {p.host ?? '—'} · {p.current.queries.toLocaleString()} q/h{p.baseline ? ` (baseline ${p.baseline.volume.mean})` : ' · learning'}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="xl:col-span-3 space-y-6">
+                    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 flex flex-wrap justify-between items-start gap-4">
+                      <div>
+                        <h3 className="text-lg font-bold text-white font-mono">{profile.sourceIp}</h3>
+                        <p className="text-xs text-slate-500">
+                          {profile.host ? `${profile.host} · ` : ''}
+                          {baseline
+                            ? `Baseline from ${new Date(baseline.trainedFrom).toLocaleString()} to ${new Date(baseline.trainedTo).toLocaleString()} (${baseline.trainingBuckets} hours)`
+                            : `Learning: a baseline needs ${DEFAULT_BASELINE_OPTIONS.minTrainingBuckets} hours of history before the current hour`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => {
+                          setSearchTerm(profile.sourceIp);
+                          setState(s => ({ ...s, activeView: 'logs' }));
+                        }}
+                        className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-slate-800 text-slate-300 hover:text-white border border-slate-700 flex items-center gap-2"
+                      >
+                        <Search size={12} /> View Queries
+                      </button>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                      <StatCard label="Queries (Current Hour)" value={profile.current.queries.toLocaleString()} subtext={baseline ? `Baseline ${baseline.volume.mean} ± ${baseline.volume.std}` : 'No baseline'} icon={<Activity size={24} />} />
+                      <StatCard label="Distinct Domains" value={profile.current.distinctDomains.toLocaleString()} subtext={baseline ? `Baseline ${baseline.distinctDomains.mean} ± ${baseline.distinctDomains.std}` : 'No baseline'} icon={<Globe size={24} />} />
+                      <StatCard label="Deviations" value={profile.anomalies.length} subtext={profile.anomalies[0] ? `Max z = ${profile.anomalies[0].zScore}` : 'Within baseline'} icon={<AlertTriangle size={24} />} />
+                    </div>
+
+                    {profile.anomalies.length > 0 && (
+                      <div className="bg-red-500/5 border border-red-500/30 rounded-xl p-4 space-y-2">
+                        {profile.anomalies.map((a, i) => (
+                          <div key={i} className="flex items-start gap-3 text-xs text-red-300">
+                            <span className="text-[9px] font-bold uppercase bg-red-500/20 border border-red-500/30 px-1 rounded shrink-0">{a.metric}</span>
+                            {describeHostAnomaly(profile, a)}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+                      <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold mb-4">Hourly Query Volume</h4>
+                      <div className="h-[220px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={profile.hourly.map(h => ({ ...h, time: new Date(h.start).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit' }) }))}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                            <XAxis dataKey="time" stroke="#64748b" fontSize={10} minTickGap={40} />
+                            <YAxis stroke="#64748b" fontSize={10} />
+                            <Tooltip contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#fff' }} />
+                            <Line type="monotone" dataKey="queries" stroke="#10b981" dot={false} strokeWidth={2} isAnimationActive={false} />
+                            {baseline && <ReferenceLine y={baseline.volume.mean} stroke="#64748b" strokeDasharray="4 4"><Label value="baseline" fill="#64748b" fontSize={10} position="insideTopLeft" /></ReferenceLine>}
+                            {baseline && <ReferenceLine y={baseline.volume.mean + DEFAULT_BASELINE_OPTIONS.zThreshold * Math.max(baseline.volume.std, Math.sqrt(baseline.volume.mean), 1)} stroke="#ef4444" strokeDasharray="4 4"><Label value="alert" fill="#ef4444" fontSize={10} position="insideTopLeft" /></ReferenceLine>}
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+                        <div className="px-6 py-4 border-b border-slate-800 text-[10px] font-bold uppercase tracking-widest text-slate-500">Query Type Mix</div>
+                        <table className="w-full text-left text-sm border-collapse">
+                          <thead>
+                            <tr className="bg-slate-950 text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-800 font-bold">
+                              <th className="px-6 py-3">Type</th>
+                              <th className="px-6 py-3 text-right">Baseline</th>
+                              <th className="px-6 py-3 text-right">Current</th>
+                              <th className="px-6 py-3 text-right">Queries</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-800/50 font-mono text-xs">
+                            {profileQtypes.map(type => {
+                              const flagged = profile.anomalies.some(a => a.metric === 'qtype' && a.detail === type);
+                              const count = profile.current.qtypes[type] ?? 0;
+                              return (
+                                <tr key={type} className={flagged ? 'bg-red-500/[0.05]' : ''}>
+                                  <td className={`px-6 py-2 ${flagged ? 'text-red-400 font-bold' : 'text-slate-300'}`}>{type}</td>
+                                  <td className="px-6 py-2 text-right text-slate-400">{baseline ? `${((baseline.qtypeMix[type] ?? 0) * 100).toFixed(1)}%` : '—'}</td>
+                                  <td className="px-6 py-2 text-right text-slate-300">{profile.current.queries > 0 ? `${(count / profile.current.queries * 100).toFixed(1)}%` : '—'}</td>
+                                  <td className="px-6 py-2 text-right text-slate-500">{count.toLocaleString()}</td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+                        <div className="flex justify-between items-center mb-4">
+                          <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Active Hours</h4>
+                          <div className="flex gap-3 text-[10px] text-slate-500">
+                            <span className="flex items-center gap-1"><span className="w-2 h-2 bg-slate-600 rounded-sm" /> Baseline</span>
+                            <span className="flex items-center gap-1"><span className="w-2 h-2 bg-emerald-500 rounded-sm" /> Current</span>
+                          </div>
+                        </div>
+                        <div className="flex items-end gap-0.5 h-32">
+                          {profile.current.hours.map((count, hour) => {
+                            const base = baseline?.activeHours[hour] ?? 0;
+                            const current = count / Math.max(1, profile.current.queries);
+                            const flagged = profile.anomalies.some(a => a.metric === 'offHours' && a.detail === `${hour}:00`);
+                            return (
+                              <div key={hour} className="flex-1 flex items-end gap-px h-full" title={`${hour}:00 · baseline ${(base * 100).toFixed(1)}% · current ${count.toLocaleString()} queries`}>
+                                <div className="flex-1 bg-slate-600 rounded-t-sm" style={{ height: `${(base / profileHourMax) * 100}%` }} />
+                                <div className={`flex-1 rounded-t-sm ${flagged ? 'bg-red-500' : 'bg-emerald-500'}`} style={{ height: `${(current / profileHourMax) * 100}%` }} />
+                              </div>
+                            );
+                          })}
+                        </div>
+                        <div className="flex justify-between text-[9px] font-mono text-slate-600 mt-1">
+                          <span>0:00</span><span>6:00</span><span>12:00</span><span>18:00</span><span>23:00</span>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {state.activeView === 'rules' && (
+            <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-300">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-bold text-white flex items-center gap-3">
+                  <SlidersHorizontal className="text-emerald-500" /> Detection Rules
+                </h2>
+                <span className="text-xs text-slate-500">
+                  {rules.filter(r => r.enabled).length} of {rules.length} enabled · hits over {state.logs.length.toLocaleString()} loaded queries
+                </span>
+              </div>
+
+              <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+                <div className="xl:col-span-2 bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+                  <table className="w-full text-left text-sm border-collapse">
+                    <thead>
+                      <tr className="bg-slate-950 text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-800 font-bold">
+                        <th className="px-4 py-3">On</th>
+                        <th className="px-4 py-3">Rule</th>
+                        <th className="px-4 py-3">Effect</th>
+                        <th className="px-4 py-3 text-right">Hits</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800/50">
+                      {rules.map(rule => (
+                        <tr key={rule.id} className={rule.enabled ? '' : 'opacity-50'}>
+                          <td className="px-4 py-2">
+                            <button
+                              onClick={() => applyRules(rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))}
+                              className={`w-8 h-4 rounded-full relative transition-colors ${rule.enabled ? 'bg-emerald-600' : 'bg-slate-700'}`}
+                              title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                            >
+                              <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${rule.enabled ? 'left-4' : 'left-0.5'}`} />
+                            </button>
+                          </td>
+                          <td className="px-4 py-2">
+                            <div className="text-xs text-slate-200" title={rule.description}>{rule.name}</div>
+                            <div className="text-[10px] font-mono text-slate-500">{rule.id}</div>
+                          </td>
+                          <td className="px-4 py-2">
+                            <div className="flex flex-wrap gap-1 text-[9px] font-bold uppercase tracking-tighter">
+                              {(rule.weight !== undefined || rule.scale) && (
+                                <span className="bg-slate-800 text-slate-300 px-1 rounded border border-slate-700">
+                                  +{rule.weight ?? 0}{rule.scale ? ` ±${rule.scale.field}` : ''}{rule.scale?.max !== undefined ? ` ≤${rule.scale.max}` : ''}
+                                </span>
+                              )}
+                              {rule.classify && <span className="bg-red-500/20 text-red-400 px-1 rounded border border-red-500/30">Classify{rule.classify !== true ? ` · ${rule.classify}` : ''}</span>}
+                              {rule.alert && <span className="bg-orange-500/20 text-orange-400 px-1 rounded border border-orange-500/30">{rule.alert.replace('_', ' ')}{rule.severity ? ` · ${rule.severity}` : ''}</span>}
+                            </div>
+                          </td>
+                          <td className="px-4 py-2 text-right font-mono text-xs text-slate-300">{(ruleHits.get(rule.id) ?? 0).toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="xl:col-span-3 bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-col gap-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex gap-1">
+                      {(['yaml', 'json'] as RuleFormat[]).map(format => (
+                        <button
+                          key={format}
+                          onClick={() => format !== ruleFormat && switchRuleFormat(format)}
+                          className={`px-3 py-1 text-[10px] font-bold uppercase tracking-widest rounded ${ruleFormat === format ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                        >
+                          {format}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => applyRules(DEFAULT_RULES)}
+                        className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-slate-800 text-slate-400 hover:text-white border border-slate-700"
+                      >
+                        Reset to Defaults
+                      </button>
+                      <button
+                        onClick={() => {
+                          const { rules: parsed, errors } = parseRules(ruleText, ruleFormat);
+                          setRuleErrors(errors);
+                          if (errors.length === 0) setSuccessMsg(`Rule pack is valid: ${parsed.length} rules.`);
+                        }}
+                        className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-slate-800 text-slate-300 hover:text-white border border-slate-700"
+                      >
+                        Validate
+                      </button>
+                      <button
+                        onClick={saveRuleText}
+                        className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-emerald-600 text-white hover:bg-emerald-500"
+                      >
+                        Save &amp; Rescore
+                      </button>
+                    </div>
+                  </div>
+                  <textarea
+                    value={ruleText}
+                    onChange={(e) => setRuleText(e.target.value)}
+                    spellCheck={false}
+                    className="flex-1 min-h-[480px] bg-slate-950 border border-slate-800 rounded-lg p-3 font-mono text-[11px] text-slate-300 outline-none focus:ring-1 focus:ring-emerald-500"
+                  />
+                  {ruleErrors.length > 0 && (
+                    <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 max-h-48 overflow-y-auto">
+                      <ul className="space-y-1 text-[11px] font-mono text-red-300">
+                        {ruleErrors.map((err, i) => <li key={i}>{err}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+                <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+                  <h3 className="text-sm font-bold text-white">Tool Signatures <span className="text-slate-500 font-mono font-normal">v{SIGNATURE_LIBRARY_VERSION}</span></h3>
+                </div>
+                <table className="w-full text-left text-sm border-collapse">
+                  <thead>
+                    <tr className="bg-slate-950 text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-800 font-bold">
+                      <th className="px-4 py-3">Tool</th>
+                      <th className="px-4 py-3">Signature</th>
+                      <th className="px-4 py-3">Pattern</th>
+                      <th className="px-4 py-3 text-right">Hits</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800/50">
+                    {TOOL_SIGNATURES.map(sig => (
+                      <tr key={sig.id}>
+                        <td className="px-4 py-2 text-xs font-bold text-red-400">{sig.tool}</td>
+                        <td className="px-4 py-2 text-[10px] font-mono text-slate-500">{sig.id}@{sig.version}</td>
+                        <td className="px-4 py-2 text-xs text-slate-300">{sig.description}</td>
+                        <td className="px-4 py-2 text-right font-mono text-xs text-slate-300">{(ruleHits.get(`signature.${sig.id}@${sig.version}`) ?? 0).toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {state.activeView === 'suppressions' && (
+            <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-300">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-bold text-white flex items-center gap-3">
+                  <ShieldOff className="text-emerald-500" /> Suppressions
+                </h2>
+                <div className="flex items-center gap-4">
+                  <span className="text-xs text-slate-500">
+                    {suppressedAlertCount.toLocaleString()} alerts suppressed · query hits over {state.logs.length.toLocaleString()} loaded queries
+                  </span>
+                  <button
+                    onClick={() => applySuppressionList([...suppressions, ...DEFAULT_SUPPRESSIONS.filter(d => !suppressions.some(e => e.id === d.id))])}
+                    className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-slate-800 text-slate-400 hover:text-white border border-slate-700"
+                  >
+                    Restore Curated List
+                  </button>
+                  <button
+                    onClick={() => setSuppressionTarget({})}
+                    className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-emerald-600 text-white hover:bg-emerald-500"
+                  >
+                    New Entry
+                  </button>
+                </div>
+              </div>
+
+              <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+                <table className="w-full text-left text-sm border-collapse">
+                  <thead>
+                    <tr className="bg-slate-950 text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-800 font-bold">
+                      <th className="px-4 py-3">On</th>
+                      <th className="px-4 py-3">Match</th>
+                      <th className="px-4 py-3">Reason</th>
+                      <th className="px-4 py-3">Author</th>
+                      <th className="px-4 py-3">Expires</th>
+                      <th className="px-4 py-3 text-right">Alerts</th>
+                      <th className="px-4 py-3 text-right">Queries</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800/50">
+                    {suppressions.map(entry => {
+                      const hits = suppressionHits.get(entry.id);
+                      const expired = isExpired(entry);
+                      return (
+                        <tr key={entry.id} className={entry.enabled && !expired ? '' : 'opacity-50'}>
+                          <td className="px-4 py-2">
+                            <button
+                              onClick={() => applySuppressionList(suppressions.map(e => e.id === entry.id ? { ...e, enabled: !e.enabled } : e))}
+                              className={`w-8 h-4 rounded-full relative transition-colors ${entry.enabled ? 'bg-emerald-600' : 'bg-slate-700'}`}
+                              title={entry.enabled ? 'Disable entry' : 'Enable entry'}
+                            >
+                              <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${entry.enabled ? 'left-4' : 'left-0.5'}`} />
+                            </button>
+                          </td>
+                          <td className="px-4 py-2">
+                            <div className="flex items-center gap-2">
+                              <span className="text-[9px] font-bold uppercase tracking-tighter bg-slate-800 text-slate-300 px-1 rounded border border-slate-700">{entry.kind}</span>
+                              <span className="text-xs font-mono text-emerald-400/90 break-all">{entry.value}</span>
+                              {entry.qtype && <span className="text-[9px] font-bold bg-amber-500/10 text-amber-500 border border-amber-500/20 px-1 rounded">{entry.qtype}</span>}
+                            </div>
+                          </td>
+                          <td className="px-4 py-2 text-xs text-slate-300">{entry.reason}</td>
+                          <td className="px-4 py-2">
+                            <div className="text-xs text-slate-300">{entry.author}</div>
+                            <div className="text-[10px] font-mono text-slate-500">{new Date(entry.createdAt).toLocaleDateString()}</div>
+                          </td>
+                          <td className={`px-4 py-2 text-[10px] font-mono ${expired ? 'text-red-400' : 'text-slate-500'}`}>
+                            {entry.expiresAt ? `${expired ? 'Expired ' : ''}${new Date(entry.expiresAt).toLocaleString()}` : 'Never'}
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            <button
+                              onClick={() => { setShowSuppressed(true); setState(prev => ({ ...prev, activeView: 'alerts' })); }}
+                              disabled={!hits?.alerts}
+                              className="font-mono text-xs text-slate-300 enabled:hover:text-emerald-400 enabled:hover:underline"
+                            >
+                              {(hits?.alerts ?? 0).toLocaleString()}
+                            </button>
+                          </td>
+                          <td className="px-4 py-2 text-right font-mono text-xs text-slate-400">{(hits?.queries ?? 0).toLocaleString()}</td>
+                          <td className="px-4 py-2 text-right">
+                            <button
+                              onClick={() => applySuppressionList(suppressions.filter(e => e.id !== entry.id))}
+                              className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-red-400"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {suppressions.length === 0 && (
+                  <div className="p-8 text-center text-xs text-slate-500">No allowlist entries. Suppress an alert or a log row, or restore the curated list.</div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {state.activeView === 'intel' && (
+            <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-300">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-bold text-white flex items-center gap-3">
+                  <Radar className="text-emerald-500" /> Threat Intelligence
+                </h2>
+                <div className="flex items-center gap-4">
+                  <span className="text-xs text-slate-500">
+                    {intelFeeds.reduce((n, f) => n + f.indicators.length, 0).toLocaleString()} indicators · plain lists, CSV, STIX 2.1 and MISP JSON
+                  </span>
+                  <button
+                    onClick={() => intelInputRef.current?.click()}
+                    className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-emerald-600 text-white hover:bg-emerald-500 flex items-center gap-2"
+                  >
+                    <Upload size={12} /> Import Feed
+                  </button>
+                </div>
+              </div>
+
+              {intelErrors.length > 0 && (
+                <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl p-4 max-h-48 overflow-y-auto">
+                  <div className="text-[10px] font-bold uppercase tracking-widest text-amber-400 mb-2">Skipped entries</div>
+                  <ul className="space-y-1 text-[11px] font-mono text-amber-200/80">
+                    {intelErrors.map((err, i) => <li key={i}>{err}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+                <table className="w-full text-left text-sm border-collapse">
+                  <thead>
+                    <tr className="bg-slate-950 text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-800 font-bold">
+                      <th className="px-4 py-3">Feed</th>
+                      <th className="px-4 py-3">Format</th>
+                      <th className="px-4 py-3 text-right">IPs / CIDRs</th>
+                      <th className="px-4 py-3 text-right">Domains / Wildcards</th>
+                      <th className="px-4 py-3 text-right">Malicious</th>
+                      <th className="px-4 py-3 text-right">Expired</th>
+                      <th className="px-4 py-3 text-right">Matched Queries</th>
+                      <th className="px-4 py-3">Imported</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800/50">
+                    {intelFeeds.map(feed => {
+                      const count = (kind: string) => feed.indicators.filter(i => i.kind === kind).length;
+                      const matched = intelIndicatorHits.filter(h => h.match.feed === feed.name).reduce((n, h) => n + h.queries, 0);
+                      return (
+                        <tr key={feed.name}>
+                          <td className="px-4 py-2 text-xs font-bold text-slate-200">{feed.name}</td>
+                          <td className="px-4 py-2"><span className="text-[9px] font-bold uppercase tracking-tighter bg-slate-800 text-slate-300 px-1 rounded border border-slate-700">{feed.format}</span></td>
+                          <td className="px-4 py-2 text-right font-mono text-xs text-slate-400">{count('ip').toLocaleString()} / {count('cidr').toLocaleString()}</td>
+                          <td className="px-4 py-2 text-right font-mono text-xs text-slate-400">{count('domain').toLocaleString()} / {count('wildcard').toLocaleString()}</td>
+                          <td className="px-4 py-2 text-right font-mono text-xs text-red-400">{feed.indicators.filter(i => i.verdict === 'MALICIOUS').length.toLocaleString()}</td>
+                          <td className="px-4 py-2 text-right font-mono text-xs text-slate-500">{feed.indicators.filter(i => i.expiresAt && Date.parse(i.expiresAt) <= Date.now()).length.toLocaleString()}</td>
+                          <td className={`px-4 py-2 text-right font-mono text-xs ${matched > 0 ? 'text-red-400 font-bold' : 'text-slate-500'}`}>{matched.toLocaleString()}</td>
+                          <td className="px-4 py-2 text-[10px] font-mono text-slate-500">{new Date(feed.importedAt).toLocaleString()}</td>
+                          <td className="px-4 py-2 text-right">
+                            <button
+                              onClick={() => applyIntelFeeds(intelFeeds.filter(f => f.name !== feed.name))}
+                              className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-red-400"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {intelFeeds.length === 0 && (
+                  <div className="p-8 text-center text-xs text-slate-500">
+                    No feeds imported. Import a blocklist, CSV, STIX 2.1 bundle or MISP event export; loaded logs are rematched as soon as it is in.
+                  </div>
+                )}
+              </div>
+
+              {intelIndicatorHits.length > 0 && (
+                <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+                  <div className="px-6 py-4 border-b border-slate-800 text-xs font-bold uppercase tracking-widest text-slate-400">Matched Indicators</div>
+                  <table className="w-full text-left text-sm border-collapse">
+                    <thead>
+                      <tr className="bg-slate-950 text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-800 font-bold">
+                        <th className="px-4 py-3">Indicator</th>
+                        <th className="px-4 py-3">Feed</th>
+                        <th className="px-4 py-3">Matched On</th>
+                        <th className="px-4 py-3">Verdict</th>
+                        <th className="px-4 py-3 text-right">Confidence</th>
+                        <th className="px-4 py-3 text-right">Queries</th>
+                        <th className="px-4 py-3 text-right">Sources</th>
+                        <th className="px-4 py-3">Last Seen</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800/50">
+                      {intelIndicatorHits.slice(0, MAX_TABLE_ROWS).map(({ match, queries, sources, lastSeen }) => (
+                        <tr key={`${match.feed}|${match.indicator}`}>
+                          <td className="px-4 py-2">
+                            <div className="text-xs font-mono text-red-400 break-all">{match.indicator}</div>
+                            {match.description && <div className="text-[10px] text-slate-500">{match.description}</div>}
+                          </td>
+                          <td className="px-4 py-2 text-xs text-slate-300">{match.feed}</td>
+                          <td className="px-4 py-2 text-[10px] font-mono text-slate-400">{match.field}</td>
+                          <td className={`px-4 py-2 text-[10px] font-bold uppercase ${match.verdict === 'MALICIOUS' ? 'text-red-500' : 'text-orange-500'}`}>{match.verdict}</td>
+                          <td className="px-4 py-2 text-right font-mono text-xs text-slate-400">{match.confidence}</td>
+                          <td className="px-4 py-2 text-right font-mono text-xs text-slate-200">{queries.toLocaleString()}</td>
+                          <td className="px-4 py-2 text-right font-mono text-xs text-slate-400">{sources.size.toLocaleString()}</td>
+                          <td className="px-4 py-2 text-[10px] font-mono text-slate-500">{new Date(lastSeen).toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          {state.activeView === 'model' && (
+            <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-300">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-bold text-white flex items-center gap-3">
+                  <BrainCircuit className="text-emerald-500" /> Classifier
+                </h2>
+                <button
+                  onClick={() => modelInputRef.current?.click()}
+                  className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-slate-800 text-slate-300 hover:text-white border border-slate-700 flex items-center gap-2"
+                >
+                  <Upload size={12} /> Import Model JSON
+                </button>
+              </div>
+
+              {modelErrors.length > 0 && (
+                <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3">
+                  <ul className="space-y-1 text-[11px] font-mono text-red-300">
+                    {modelErrors.map((err, i) => <li key={i}>{err}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                <div className="space-y-6">
+                  <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-4">
+                    <h3 className="text-sm font-bold text-white">Active Classifier</h3>
+                    {model ? (
+                      <>
+                        <div className="flex flex-wrap gap-6 text-[10px] font-mono text-slate-500 uppercase">
+                          <span>Model: <b className="text-emerald-400 normal-case">{model.name}</b></span>
+                          <span>Trained: <b className="text-slate-300">{new Date(model.createdAt).toLocaleString()}</b></span>
+                          <span>Labels: <b className="text-slate-300">{model.labels.join(', ')}</b></span>
+                        </div>
+                        <ModelMetricsPanel model={model} />
+                        <div className="flex gap-2">
+                          <button onClick={() => downloadModel(model)} className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-slate-800 text-slate-300 hover:text-white border border-slate-700 flex items-center gap-2">
+                            <Download size={12} /> Export JSON
+                          </button>
+                          <button
+                            onClick={() => {
+                              applyModel(null);
+                              setSuccessMsg('Model unloaded; the rule pack classifies queries again.');
+                            }}
+                            className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-slate-800 text-slate-400 hover:text-white border border-slate-700"
+                          >
+                            Unload (Use Rules)
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-xs text-slate-500">No model loaded. Labels and confidence come from the classification rules in the rule pack.</p>
+                    )}
+                  </div>
+
+                  <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-4">
+                    <h3 className="text-sm font-bold text-white">Train a Model</h3>
+                    <p className="text-xs text-slate-500">
+                      Logistic regression over length, entropy, label count, n-gram scores, character ratios, encoding, DGA probability, answer entropy, response size, qtype and rcode. Runs locally; nothing leaves the browser.
+                    </p>
+                    <div className="flex flex-wrap gap-6">
+                      <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest ml-1">Labels From</label>
+                        <div className="flex gap-1">
+                          {([['imported', `Imported label column (${state.logs.filter(l => trainingLabel(l)).length.toLocaleString()})`], ['current', `Current labels (${state.logs.length.toLocaleString()})`]] as const).map(([value, label]) => (
+                            <button
+                              key={value}
+                              onClick={() => setTrainingSource(value)}
+                              className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded ${trainingSource === value ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <FilterSelect
+                        label="Holdout"
+                        value={String(holdoutShare)}
+                        onChange={(v) => setHoldoutShare(Number(v))}
+                        options={[
+                          { label: '10%', value: '0.1' },
+                          { label: '20%', value: '0.2' },
+                          { label: '30%', value: '0.3' },
+                        ]}
+                      />
+                    </div>
+                    <button
+                      onClick={trainModel}
+                      disabled={isTraining || state.logs.length === 0}
+                      className="px-4 py-2 text-xs font-bold uppercase tracking-widest rounded-lg bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {isTraining ? <Activity size={14} className="animate-spin" /> : <BrainCircuit size={14} />}
+                      {isTraining ? 'Training...' : 'Train'}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-4">
+                  <h3 className="text-sm font-bold text-white">Candidate Model</h3>
+                  {candidateModel ? (
+                    <>
+                      <div className="flex flex-wrap gap-6 text-[10px] font-mono text-slate-500 uppercase">
+                        <span>Model: <b className="text-slate-200 normal-case">{candidateModel.name}</b></span>
+                        <span>Trained: <b className="text-slate-300">{new Date(candidateModel.createdAt).toLocaleString()}</b></span>
+                      </div>
+                      <ModelMetricsPanel model={candidateModel} />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => {
+                            applyModel(candidateModel);
+                            setCandidateModel(null);
+                            setSuccessMsg(`Model "${candidateModel.name}" now labels all queries.`);
+                          }}
+                          className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-emerald-600 text-white hover:bg-emerald-500"
+                        >
+                          Use This Model
+                        </button>
+                        <button onClick={() => downloadModel(candidateModel)} className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-slate-800 text-slate-300 hover:text-white border border-slate-700 flex items-center gap-2">
+                          <Download size={12} /> Export JSON
+                        </button>
+                        <button onClick={() => setCandidateModel(null)} className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-slate-800 text-slate-400 hover:text-white border border-slate-700">
+                          Discard
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-xs text-slate-500">Train on the loaded queries or import a model shared by a colleague to compare it with the active classifier before using it.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {state.activeView === 'dashboard' && (
+            <div className="space-y-8 animate-in fade-in duration-500">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                <StatCard
+                  label="Live Queries/min"
+                  value={latestBucket?.queriesPerMinute ?? 0}
+                  subtext={`Avg ${state.stats?.queriesPerMinute ?? 0}/min · NXDOMAIN ${((latestBucket?.nxDomainRatio ?? 0) * 100).toFixed(1)}%`}
+                  icon={<Wifi size={24} />}
+                />
+                <StatCard label="Tunnel Detections" value={state.logs.filter(l => l.label === 'Tunneling').length} subtext="Threat Pool" icon={<ShieldAlert size={24} />} />
+                <StatCard
+                  label="Est. Exfiltrated"
+                  value={formatBytes(exfiltration?.total.bytes ?? 0)}
+                  subtext={exfiltration && exfiltration.total.queries > 0 ? `${formatBytes(exfiltration.total.low)} – ${formatBytes(exfiltration.total.high)} · ${exfiltration.bySource.length} hosts` : 'No payload queries'}
+                  icon={<Upload size={24} />}
+                />
+                <StatCard label="Threat Index" value={state.report ? 88 : 14} subtext="Real-time" icon={<AlertTriangle size={24} />} />
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                <div className="lg:col-span-2 bg-slate-900 border border-slate-800 rounded-xl p-6">
+                  <div className="flex justify-between items-center mb-6">
+                    <h3 className="text-lg font-semibold flex items-center gap-2"><Activity className="w-5 h-5 text-emerald-500" />Traffic Trend</h3>
+                    <div className="flex gap-1">
+                      {TREND_BUCKETS.map(b => (
+                        <button
+                          key={b.label}
+                          onClick={() => setTrendBucketMs(b.ms)}
+                          className={`px-2.5 py-1 text-[10px] font-bold font-mono rounded border ${trendBucketMs === b.ms ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                        >
+                          {b.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="h-[260px]">
+                    {trend.length > 0 ? (
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={trendData}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                          <XAxis dataKey="time" stroke="#64748b" fontSize={10} minTickGap={40} />
+                          <YAxis yAxisId="rate" stroke="#64748b" fontSize={10} />
+                          <YAxis yAxisId="ratio" orientation="right" stroke="#64748b" fontSize={10} unit="%" domain={[0, 100]} />
+                          <Tooltip contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#fff' }} />
+                          <Line yAxisId="rate" type="monotone" dataKey="queriesPerMinute" name="Queries/min" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+                          <Line yAxisId="ratio" type="monotone" dataKey="nxdomain" name="NXDOMAIN %" stroke="#ef4444" dot={false} isAnimationActive={false} />
+                          <Line yAxisId="ratio" type="monotone" dataKey="servfail" name="SERVFAIL %" stroke="#f59e0b" dot={false} isAnimationActive={false} />
+                          <Line yAxisId="ratio" type="monotone" dataKey="refused" name="REFUSED %" stroke="#a855f7" dot={false} isAnimationActive={false} />
+                          {trendData.length > 30 && <Brush dataKey="time" height={20} stroke="#334155" fill="#0f172a" />}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    ) : (
+                      <div className="h-full flex items-center justify-center text-xs text-slate-500">No timestamped queries loaded</div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-6">
+                  <div>
+                    <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold mb-3">Response Codes</h4>
+                    <div className="space-y-2">
+                      {statRcodes.map(([code, share]) => (
+                        <div key={code} className="flex items-center gap-3 text-xs font-mono">
+                          <span className={`w-20 ${code === 'NOERROR' ? 'text-slate-400' : 'text-red-400'}`}>{code}</span>
+                          <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                            <div className={`h-full rounded-full ${code === 'NOERROR' ? 'bg-emerald-500' : 'bg-red-500'}`} style={{ width: `${share * 100}%` }} />
+                          </div>
+                          <span className="w-12 text-right text-slate-500">{(share * 100).toFixed(1)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold mb-3">Query Types</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {statQtypes.map(([type, share]) => (
+                        <span key={type} className="px-2 py-1 bg-slate-950 border border-slate-800 rounded text-[10px] font-mono text-slate-300">
+                          {type} <span className="text-slate-500">{(share * 100).toFixed(1)}%</span>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold mb-3">Top Talkers</h4>
+                    <div className="space-y-1">
+                      {(state.stats?.topTalkers ?? []).map(t => (
+                        <button
+                          key={t.sourceIp}
+                          onClick={() => { setSelectedHostIp(t.sourceIp); setState(prev => ({ ...prev, activeView: 'hosts' })); }}
+                          className="w-full flex justify-between text-xs font-mono px-2 py-1 rounded hover:bg-slate-800 text-left"
+                        >
+                          <span className="text-slate-300 truncate">{t.host ? `${t.host} (${t.sourceIp})` : t.sourceIp}</span>
+                          <span className="text-slate-500">{t.queries.toLocaleString()}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                <div className="lg:col-span-2 bg-slate-900 border border-slate-800 rounded-xl p-6">
+                  <h3 className="text-lg font-semibold mb-6 flex items-center gap-2"><BarChart3 className="w-5 h-5 text-emerald-500" />Global Payload Distribution</h3>
+                  <div className="h-[300px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                        <XAxis type="number" dataKey="length" name="Length" unit=" ch" stroke="#64748b" />
+                        <YAxis type="number" dataKey="entropy" name="Entropy" stroke="#64748b" />
+                        <ZAxis type="number" range={[60, 100]} />
+                        <Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#fff' }} />
+                        <Scatter name="Queries" data={state.logs.slice(0, 100)}>
+                          {state.logs.slice(0, 100).map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={entry.label === 'Tunneling' ? '#ef4444' : '#10b981'} fillOpacity={0.6} />
+                          ))}
                         </Scatter>
                       </ScatterChart>
                     </ResponsiveContainer>
@@ -793,7 +3037,56 @@ const App: React.FC = () => {
                       <div className="text-xl font-bold font-mono text-orange-500">{new Set(state.logs.filter(l => l.label === 'Tunneling' && l.lat !== undefined).map(l => l.location)).size}</div>
                     </div>
                   </div>
-                  <div className="text-xs text-slate-400 italic">Real-time geospatial telemetry active</div>
+                  <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer" title="Sends public addresses the loaded databases cannot place to ipwho.is">
+                      <input type="checkbox" checked={onlineGeoFallback} onChange={(e) => applyOnlineGeoFallback(e.target.checked)} className="accent-emerald-500" />
+                      Online fallback (ipwho.is)
+                    </label>
+                    <button
+                      onClick={() => geoInputRef.current?.click()}
+                      className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-emerald-600 text-white hover:bg-emerald-500 flex items-center gap-2"
+                    >
+                      <Upload size={12} /> Load .mmdb
+                    </button>
+                  </div>
+               </div>
+               <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+                  <table className="w-full text-left text-sm border-collapse">
+                    <thead>
+                      <tr className="bg-slate-950 text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-800 font-bold">
+                        <th className="px-4 py-2">Database</th>
+                        <th className="px-4 py-2">Type</th>
+                        <th className="px-4 py-2">Built</th>
+                        <th className="px-4 py-2 text-right">Size</th>
+                        <th className="px-4 py-2">Loaded</th>
+                        <th className="px-4 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800/50">
+                      {geoDatabases.map(db => (
+                        <tr key={db.name}>
+                          <td className="px-4 py-2 text-xs font-bold text-slate-200">{db.name}</td>
+                          <td className="px-4 py-2"><span className="text-[9px] font-bold uppercase tracking-tighter bg-slate-800 text-slate-300 px-1 rounded border border-slate-700">{db.databaseType}</span></td>
+                          <td className="px-4 py-2 text-[10px] font-mono text-slate-500">{db.buildEpoch ? new Date(db.buildEpoch * 1000).toLocaleDateString() : '—'}</td>
+                          <td className="px-4 py-2 text-right font-mono text-xs text-slate-400">{formatBytes(db.size)}</td>
+                          <td className="px-4 py-2 text-[10px] font-mono text-slate-500">{new Date(db.loadedAt).toLocaleString()}</td>
+                          <td className="px-4 py-2 text-right">
+                            <button
+                              onClick={() => removeGeoDatabase(db.name)}
+                              className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-red-400"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {geoDatabases.length === 0 && (
+                    <div className="p-4 text-center text-xs text-slate-500">
+                      No geolocation databases loaded. Load GeoLite2/GeoIP2 or DB-IP City, Country and ASN .mmdb files; lookups stay on this machine.
+                    </div>
+                  )}
                </div>
                <div className="flex-1 min-h-0">
                   <WorldMap logs={state.logs} />
@@ -807,22 +3100,63 @@ const App: React.FC = () => {
                   <div className="flex items-center gap-8">
                     <div>
                       <div className="text-[10px] text-slate-500 uppercase tracking-widest font-bold mb-1">Sensor Status</div>
-                      <div className="flex items-center gap-2">
-                        <div className="w-2 h-2 rounded-full bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.8)]" />
-                        <span className="text-sm font-bold text-white uppercase tracking-tighter">Promiscuous Mode</span>
+                      <div className="flex items-center gap-2" title={liveStatus?.lastError}>
+                        <div className={`w-2 h-2 rounded-full ${LIVE_STATE_STYLES[state.isLive && liveStatus ? liveStatus.state : 'closed'].dot}`} />
+                        <span className="text-sm font-bold text-white uppercase tracking-tighter">{LIVE_STATE_STYLES[state.isLive && liveStatus ? liveStatus.state : 'closed'].label}</span>
                       </div>
+                      {state.isLive && liveStatus?.lastError && liveStatus.state !== 'connected' && (
+                        <div className="text-[10px] text-amber-400 mono mt-1 max-w-[200px] truncate">{liveStatus.lastError}</div>
+                      )}
+                    </div>
+                    <div>
+                      <div className="text-[10px] text-slate-500 uppercase tracking-widest font-bold mb-1">Event Rate</div>
+                      <div className="text-xl font-bold font-mono text-emerald-400">{(liveStatus?.eventsPerSecond ?? 0).toFixed(1)}<span className="text-xs text-slate-500">/s</span></div>
+                    </div>
+                    <div>
+                      <div className="text-[10px] text-slate-500 uppercase tracking-widest font-bold mb-1">Received</div>
+                      <div className="text-xl font-bold font-mono text-white">{(liveStatus?.received ?? 0).toLocaleString()}</div>
+                    </div>
+                    <div>
+                      <div className="text-[10px] text-slate-500 uppercase tracking-widest font-bold mb-1">Dropped</div>
+                      <div className={`text-xl font-bold font-mono ${liveStatus?.dropped ? 'text-red-500' : 'text-slate-400'}`}>{(liveStatus?.dropped ?? 0).toLocaleString()}</div>
                     </div>
                     <div>
-                      <div className="text-[10px] text-slate-500 uppercase tracking-widest font-bold mb-1">Frames Captured</div>
-                      <div className="text-xl font-bold font-mono text-emerald-400">{state.logs.length}</div>
+                      <div className="text-[10px] text-slate-500 uppercase tracking-widest font-bold mb-1">Malformed</div>
+                      <div className={`text-xl font-bold font-mono ${liveStatus?.malformed ? 'text-amber-400' : 'text-slate-400'}`}>{(liveStatus?.malformed ?? 0).toLocaleString()}</div>
                     </div>
                     <div>
                       <div className="text-[10px] text-slate-500 uppercase tracking-widest font-bold mb-1">Peak Entropy</div>
-                      <div className="text-xl font-bold font-mono text-orange-500">{Math.max(...state.logs.map(l => l.entropy), 0).toFixed(2)}</div>
+                      <div className="text-xl font-bold font-mono text-orange-500">{Math.max(...state.liveLogs.map(l => l.entropy), 0).toFixed(2)}</div>
                     </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <div className="p-2 bg-slate-900 rounded border border-slate-800 text-xs text-slate-400">Filtering: <b>NONE</b></div>
+                  <div className="flex items-end gap-2">
+                    <FilterSelect 
+                      label="Source" 
+                      value={liveConfig.kind} 
+                      onChange={(val) => applyLiveConfig({ ...liveConfig, kind: val as LiveSourceKind })} 
+                      options={LIVE_SOURCE_OPTIONS} 
+                    />
+                    {liveConfig.kind !== 'simulator' && (
+                      <>
+                        <div className="flex flex-col gap-1">
+                          <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Endpoint</label>
+                          <input 
+                            value={liveEndpoint} 
+                            onChange={(e) => setLiveEndpoint(e.target.value)} 
+                            onKeyDown={(e) => e.key === 'Enter' && applyLiveConfig({ ...liveConfig, endpoint: liveEndpoint.trim() })}
+                            placeholder={liveConfig.kind === 'sse' ? 'http://localhost:8053/events' : 'ws://localhost:8053/events'}
+                            className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 font-mono outline-none focus:ring-1 focus:ring-emerald-500 w-64"
+                          />
+                        </div>
+                        <button 
+                          onClick={() => applyLiveConfig({ ...liveConfig, endpoint: liveEndpoint.trim() })} 
+                          disabled={!liveEndpoint.trim() || liveEndpoint.trim() === liveConfig.endpoint}
+                          className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest rounded-lg border border-emerald-500/20 bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 disabled:opacity-40 transition-colors"
+                        >
+                          Connect
+                        </button>
+                      </>
+                    )}
                   </div>
                </div>
 
@@ -847,10 +3181,10 @@ const App: React.FC = () => {
                         <span className="break-all flex-1">{log.query}</span>
                         <div className="shrink-0 flex items-center gap-1 text-[10px] text-slate-500 bg-slate-900/50 px-2 py-0.5 rounded border border-slate-800">
                           <MapPin className="w-3 h-3 text-emerald-500" />
-                          {log.location || 'Resolving...'}
+                          {log.location || 'Unlocated'}
                         </div>
-                        <span className={`shrink-0 text-[10px] font-bold px-1.5 py-0.5 rounded ${log.label === 'Tunneling' ? 'bg-red-600 text-white' : 'bg-slate-800 text-slate-400'}`}>
-                          {log.label === 'Tunneling' ? 'ALERT' : 'OK'}
+                        <span className={`shrink-0 text-[10px] font-bold px-1.5 py-0.5 rounded ${log.label === 'Tunneling' ? 'bg-red-600 text-white' : (log.label === 'DGA' ? 'bg-purple-600 text-white' : 'bg-slate-800 text-slate-400')}`}>
+                          {log.label === 'Tunneling' ? 'ALERT' : (log.label === 'DGA' ? 'DGA' : 'OK')}
                         </span>
                         <span className="shrink-0 text-slate-600 text-[10px]">SRC: {log.sourceIp}</span>
                       </div>
@@ -923,6 +3257,17 @@ const App: React.FC = () => {
                       { label: 'Low (≤20)', value: 'LOW' },
                     ]}
                   />
+                  <FilterSelect 
+                    label="Classification" 
+                    value={filterLabel} 
+                    onChange={setFilterLabel}
+                    options={[
+                      { label: 'All Labels', value: 'ALL' },
+                      { label: 'Tunneling', value: 'Tunneling' },
+                      { label: 'DGA', value: 'DGA' },
+                      { label: 'Normal', value: 'Normal' },
+                    ]}
+                  />
                   <FilterSelect 
                     label="Reputation" 
                     value={filterReputation} 
@@ -935,6 +3280,16 @@ const App: React.FC = () => {
                       { label: 'Unknown', value: 'UNKNOWN' },
                     ]}
                   />
+                  <FilterSelect 
+                    label="Process" 
+                    value={filterProcess} 
+                    onChange={setFilterProcess}
+                    options={[
+                      { label: 'All Processes', value: 'ALL' },
+                      { label: 'No Process Info', value: 'NONE' },
+                      ...processOptions.map(p => ({ label: processBasename(p), value: p })),
+                    ]}
+                  />
                   <div className="flex items-end pb-0.5">
                     <button 
                       onClick={() => {
@@ -943,6 +3298,8 @@ const App: React.FC = () => {
                         setFilterRCode('ALL');
                         setFilterThreat('ALL');
                         setFilterReputation('ALL');
+                        setFilterProcess('ALL');
+                        setFilterLabel('ALL');
                       }}
                       className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-emerald-400 transition-colors"
                     >
@@ -958,6 +3315,7 @@ const App: React.FC = () => {
                       <th className="px-6 py-4">Artifact ID</th>
                       <th className="px-6 py-4">Timestamp</th>
                       <th className="px-6 py-4">Source Origin</th>
+                      <th className="px-6 py-4">Process</th>
                       <th className="px-6 py-4">Reputation</th>
                       <th className="px-6 py-4">Location</th>
                       <th className="px-6 py-4">Type</th>
@@ -969,15 +3327,31 @@ const App: React.FC = () => {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-800/50">
-                    {filteredLogs.map((log) => {
+                    {filteredLogs.slice(0, MAX_TABLE_ROWS).map((log) => {
                       const isMalicious = log.label === 'Tunneling';
+                      const isExpanded = expandedLogId === log.id;
+                      const suppression = matchSuppression(log, suppressions);
                       return (
-                        <tr key={log.id} className={`transition-all duration-200 ${isMalicious ? 'bg-red-500/[0.03] hover:bg-red-500/[0.07]' : 'hover:bg-slate-800/30'}`}>
+                        <React.Fragment key={log.id}>
+                        <tr onClick={() => setExpandedLogId(isExpanded ? null : log.id)} className={`cursor-pointer transition-all duration-200 ${isMalicious ? 'bg-red-500/[0.03] hover:bg-red-500/[0.07]' : 'hover:bg-slate-800/30'} ${isExpanded ? 'bg-slate-800/40' : ''}`}>
                           <td className="px-6 py-4 text-slate-600 mono text-[10px] select-all group">
                             <div className="flex items-center gap-2"><Fingerprint className={`w-3 h-3 ${isMalicious ? 'text-red-500/50' : 'text-slate-700'}`} />{log.id.toUpperCase()}</div>
                           </td>
                           <td className="px-6 py-4 text-slate-400 mono text-xs whitespace-nowrap">{new Date(log.timestamp).toLocaleTimeString()}</td>
-                          <td className="px-6 py-4 text-slate-300 mono text-xs"><span className="bg-slate-800 px-2 py-0.5 rounded border border-slate-700">{log.sourceIp}</span></td>
+                          <td className="px-6 py-4 text-slate-300 mono text-xs">
+                            <span className="bg-slate-800 px-2 py-0.5 rounded border border-slate-700">{log.sourceIp}</span>
+                            {log.host && <div className="text-[10px] text-slate-500 mt-1">{log.host}</div>}
+                          </td>
+                          <td className="px-6 py-4 mono text-xs">
+                            {log.process ? (
+                              <span className="text-slate-300" title={log.process}>
+                                {processBasename(log.process)}
+                                {log.processId !== undefined && <span className="text-slate-600"> ({log.processId})</span>}
+                              </span>
+                            ) : (
+                              <span className="text-slate-600">—</span>
+                            )}
+                          </td>
                           <td className="px-6 py-4">
                             <div className="flex items-center gap-2">
                               <div className={`w-2 h-2 rounded-full ${
@@ -995,19 +3369,29 @@ const App: React.FC = () => {
                                 {log.reputation || 'UNKNOWN'}
                               </span>
                             </div>
+                            {log.intel && (
+                              <div className="text-[10px] text-slate-500 mt-1 truncate max-w-[140px]" title={`${log.intel.kind} ${log.intel.indicator} · ${log.intel.field} · confidence ${log.intel.confidence}${log.intel.description ? ` · ${log.intel.description}` : ''}`}>
+                                {log.intel.feed}
+                              </div>
+                            )}
                           </td>
                           <td className="px-6 py-4">
                             <div className="flex items-center gap-2 text-xs text-slate-400">
                               <Globe className="w-3 h-3 text-emerald-500" />
                               {log.location || 'Unknown'}
                             </div>
+                            {log.asn !== undefined && (
+                              <div className="text-[10px] text-slate-500 mt-1 truncate max-w-[160px]" title={`AS${log.asn}${log.asOrg ? ` ${log.asOrg}` : ''}`}>
+                                AS{log.asn}{log.asOrg ? ` · ${log.asOrg}` : ''}
+                              </div>
+                            )}
                           </td>
                           <td className="px-6 py-4">
                             <span className={`text-[10px] font-bold px-2 py-0.5 rounded border ${log.type === 'TXT' ? 'bg-amber-500/10 text-amber-500 border-amber-500/20' : 'bg-slate-800 text-slate-400 border-slate-700'}`}>
                               {log.type}
                             </span>
                           </td>
-                          <td className="px-6 py-4"><div className="max-w-md"><p className={`font-mono text-xs break-all leading-relaxed ${isMalicious ? 'text-red-400 font-semibold' : 'text-emerald-400/90'}`}>{log.query}</p>{isMalicious && <div className="flex items-center gap-2 mt-1"><span className="text-[9px] bg-red-500 text-white px-1 rounded font-bold uppercase tracking-tighter">High Entropy Payload</span></div>}</div></td>
+                          <td className="px-6 py-4"><div className="max-w-md"><p className={`font-mono text-xs break-all leading-relaxed ${isMalicious ? 'text-red-400 font-semibold' : 'text-emerald-400/90'}`}>{log.query}</p>{(isMalicious || log.label === 'DGA' || log.lexical?.encoding || log.tool || suppression) && <div className="flex items-center gap-2 mt-1">{log.label === 'DGA' && <span className="text-[9px] bg-purple-500/20 text-purple-400 border border-purple-500/30 px-1 rounded font-bold uppercase tracking-tighter">DGA {Math.round((log.dgaScore ?? 0) * 100)}%</span>}{isMalicious && <span className="text-[9px] bg-red-500 text-white px-1 rounded font-bold uppercase tracking-tighter">High Entropy Payload</span>}{log.lexical?.encoding && <span className="text-[9px] bg-amber-500/20 text-amber-400 border border-amber-500/30 px-1 rounded font-bold uppercase tracking-tighter">{log.lexical.encoding}</span>}{log.tool && <span className="text-[9px] bg-red-500/20 text-red-400 border border-red-500/30 px-1 rounded font-bold uppercase tracking-tighter">{log.tool}</span>}{suppression && <span className="text-[9px] bg-slate-800 text-slate-400 border border-slate-700 px-1 rounded font-bold uppercase tracking-tighter" title={suppression.reason}>Allowlisted</span>}</div>}</div></td>
                           <td className="px-6 py-4">
                             <span className={`text-[10px] font-mono ${log.responseCode === 'NXDOMAIN' ? 'text-red-400' : 'text-slate-500'}`}>
                               {log.responseCode}
@@ -1047,11 +3431,33 @@ const App: React.FC = () => {
                             </div>
                           </td>
                         </tr>
+                        {isExpanded && (
+                          <tr className="bg-slate-950/60">
+                            <td colSpan={12} className="px-6 py-5">
+                              <div className="flex justify-end mb-3">
+                                {suppression ? (
+                                  <span className="text-[10px] font-mono text-slate-500">Alerts suppressed by {suppression.kind} {suppression.value}: {suppression.reason}</span>
+                                ) : (
+                                  <button onClick={() => setSuppressionTarget(log)} className="text-[10px] text-slate-400 hover:text-white flex items-center gap-1">
+                                    <ShieldOff size={12} /> Suppress alerts like this
+                                  </button>
+                                )}
+                              </div>
+                              <LogDetail log={log} />
+                            </td>
+                          </tr>
+                        )}
+                        </React.Fragment>
                       );
                     })}
                   </tbody>
                 </table>
               </div>
+              {filteredLogs.length > MAX_TABLE_ROWS && (
+                <div className="px-6 py-3 border-t border-slate-800 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+                  Showing {MAX_TABLE_ROWS.toLocaleString()} of {filteredLogs.length.toLocaleString()} matching records. Refine filters to narrow results.
+                </div>
+              )}
             </div>
           )}
 
@@ -1083,6 +3489,64 @@ const App: React.FC = () => {
                       <h4 className="text-emerald-400 uppercase text-xs tracking-widest mb-6 font-bold">Attack Timeline Reconstruction</h4>
                       <InteractiveTimeline timeline={state.report.timeline} />
                     </div>
+
+                    {state.report.exfiltration && (
+                      <div className="bg-slate-900 border border-slate-800 rounded-xl p-8 space-y-6">
+                        <div className="flex justify-between items-start">
+                          <h4 className="text-emerald-400 uppercase text-xs tracking-widest font-bold">Exfiltration Estimate</h4>
+                          <div className="text-right">
+                            <div className="text-2xl font-bold font-mono text-red-400">{formatBytes(state.report.exfiltration.total.bytes)}</div>
+                            <div className="text-[10px] font-mono text-slate-500 uppercase">
+                              Bounds {formatBytes(state.report.exfiltration.total.low)} – {formatBytes(state.report.exfiltration.total.high)} · {state.report.exfiltration.total.queries.toLocaleString()} payload queries
+                            </div>
+                          </div>
+                        </div>
+                        <p className="text-xs text-slate-500">
+                          Payload bytes decoded from subdomain labels of tunnelling queries, after encoding overhead (hex 4, base32 5, base64 6 bits per character). The lower bound discounts short control labels and per-query tool framing; the upper bound assumes every label character is data.
+                        </p>
+                        {state.report.exfiltration.flows.length > 0 && (
+                          <table className="w-full text-left text-xs border border-slate-800 rounded-lg overflow-hidden">
+                            <thead className="bg-slate-950 text-[10px] uppercase tracking-widest text-slate-500">
+                              <tr>
+                                <th className="px-3 py-2">Source</th>
+                                <th className="px-3 py-2">Domain</th>
+                                <th className="px-3 py-2">Encoding</th>
+                                <th className="px-3 py-2 text-right">Estimate</th>
+                                <th className="px-3 py-2 text-right">Bounds</th>
+                                <th className="px-3 py-2 text-right">Queries</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-800/50 font-mono">
+                              {state.report.exfiltration.flows.map(f => (
+                                <tr key={`${f.sourceIp}|${f.registeredDomain}`}>
+                                  <td className="px-3 py-2 text-slate-300">{f.sourceIp}{f.host && <span className="text-slate-500"> ({f.host})</span>}</td>
+                                  <td className="px-3 py-2 text-red-400">{f.registeredDomain}</td>
+                                  <td className="px-3 py-2 text-slate-400">{f.encodings.join(', ') || 'unknown'}</td>
+                                  <td className="px-3 py-2 text-right text-slate-200 font-bold">{formatBytes(f.bytes)}</td>
+                                  <td className="px-3 py-2 text-right text-slate-500">{formatBytes(f.low)} – {formatBytes(f.high)}</td>
+                                  <td className="px-3 py-2 text-right text-slate-400">{f.queries.toLocaleString()}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                        {state.report.exfiltration.windows.length > 1 && (
+                          <div className="h-[180px]">
+                            <ResponsiveContainer width="100%" height="100%">
+                              <LineChart data={state.report.exfiltration.windows.map(w => ({ ...w, time: new Date(w.start).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) }))}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                                <XAxis dataKey="time" stroke="#64748b" fontSize={10} minTickGap={40} />
+                                <YAxis stroke="#64748b" fontSize={10} tickFormatter={(v: number) => formatBytes(v)} width={70} />
+                                <Tooltip contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#fff' }} formatter={(v: number) => formatBytes(v)} />
+                                <Line type="stepAfter" dataKey="high" name="Upper bound" stroke="#64748b" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                                <Line type="stepAfter" dataKey="bytes" name="Estimate" stroke="#ef4444" strokeWidth={2} dot={false} isAnimationActive={false} />
+                                <Line type="stepAfter" dataKey="low" name="Lower bound" stroke="#64748b" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                              </LineChart>
+                            </ResponsiveContainer>
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
 
                   <div className="space-y-8">
@@ -0,0 +1,29 @@
+import { CsvProfile } from '../types';
+
+const STORAGE_KEY = 'aegisdns.csvProfiles';
+
+/**
+ * Loads saved CSV column-mapping profiles from local storage
+ */
+export const loadCsvProfiles = (): CsvProfile[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+const persist = (profiles: CsvProfile[]): CsvProfile[] => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+/**
+ * Saves a profile, replacing any existing profile with the same name
+ */
+export const saveCsvProfile = (profile: CsvProfile): CsvProfile[] =>
+  persist([...loadCsvProfiles().filter(p => p.name !== profile.name), profile].sort((a, b) => a.name.localeCompare(b.name)));
+
+export const deleteCsvProfile = (name: string): CsvProfile[] =>
+  persist(loadCsvProfiles().filter(p => p.name !== name));
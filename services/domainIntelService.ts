@@ -0,0 +1,160 @@
+import { DomainIntel, DomainProviderConfig } from '../types';
+import { toDomainIntel } from '../utils/domainIntel';
+
+/**
+ * Domain enrichment providers: a local file for offline work, or an HTTP service answering
+ * WHOIS-style JSON or RDAP per domain (a local stand-in or an internal lookup service).
+ * Results, misses included, are cached so each domain is asked about once per CACHE_TTL_MS.
+ */
+
+const CONFIG_KEY = 'aegisdns.domainProvider';
+const FILE_KEY = 'aegisdns.domainFile';
+const CACHE_KEY = 'aegisdns.domainCache';
+
+export const DEFAULT_DOMAIN_PROVIDER: DomainProviderConfig = { kind: 'none', endpoint: 'http://localhost:8054/domains/{domain}' };
+
+export const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Oldest entries are dropped beyond this, to stay within browser storage
+const MAX_CACHE_ENTRIES = 20000;
+// Domains asked about per run; the rest wait for the next one
+const MAX_LOOKUPS_PER_RUN = 200;
+const HTTP_CONCURRENCY = 4;
+
+export interface DomainIntelProvider {
+  name: string;
+  /** Records for the domains the provider knows; rejects when it cannot be reached */
+  lookup: (domains: string[]) => Promise<DomainIntel[]>;
+}
+
+/** An offline file loaded by the user */
+export interface DomainIntelFile {
+  name: string;
+  records: DomainIntel[];
+}
+
+export const loadDomainProviderConfig = (): DomainProviderConfig => {
+  try {
+    return { ...DEFAULT_DOMAIN_PROVIDER, ...JSON.parse(localStorage.getItem(CONFIG_KEY) || '{}') };
+  } catch (error) {
+    return DEFAULT_DOMAIN_PROVIDER;
+  }
+};
+
+export const saveDomainProviderConfig = (config: DomainProviderConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+export const loadDomainFile = (): DomainIntelFile | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(FILE_KEY) || 'null');
+    return saved && typeof saved.name === 'string' && Array.isArray(saved.records) ? saved : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Saves the offline file, or forgets it with null; false when it does not fit in browser storage
+ */
+export const saveDomainFile = (file: DomainIntelFile | null): boolean => {
+  try {
+    if (file) localStorage.setItem(FILE_KEY, JSON.stringify(file));
+    else localStorage.removeItem(FILE_KEY);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const loadDomainCache = (): DomainIntel[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CACHE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(r => r && typeof r.domain === 'string' && typeof r.fetchedAt === 'string') : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+export const saveDomainCache = (records: DomainIntel[]): boolean => {
+  const kept = records.length > MAX_CACHE_ENTRIES
+    ? [...records].sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt)).slice(0, MAX_CACHE_ENTRIES)
+    : records;
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(kept));
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const createFileProvider = (file: DomainIntelFile): DomainIntelProvider => {
+  const byDomain = new Map(file.records.map(r => [r.domain, r]));
+  return {
+    name: file.name,
+    lookup: async (domains) => domains.flatMap(d => byDomain.get(d) ?? [])
+  };
+};
+
+/**
+ * Asks `endpoint` about each domain with a GET; `{domain}` in the URL is replaced, otherwise
+ * the domain is appended as a path segment. A 404 means the service knows nothing about it.
+ */
+export const createHttpProvider = (endpoint: string): DomainIntelProvider => {
+  let name = endpoint;
+  try {
+    name = new URL(endpoint.replace('{domain}', 'x')).host;
+  } catch (error) {
+    name = endpoint;
+  }
+  const urlFor = (domain: string) => endpoint.includes('{domain}')
+    ? endpoint.replace('{domain}', encodeURIComponent(domain))
+    : `${endpoint.replace(/\/$/, '')}/${encodeURIComponent(domain)}`;
+
+  const fetchOne = async (domain: string): Promise<DomainIntel | null> => {
+    const response = await fetch(urlFor(domain), { headers: { Accept: 'application/json, application/rdap+json' } });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`HTTP ${response.status} for ${domain}`);
+    const record = toDomainIntel(await response.json(), name, new Date().toISOString(), domain);
+    // Answers about another name (e.g. a parent zone) are not this domain's
+    return record?.domain === domain ? record : null;
+  };
+
+  return {
+    name,
+    lookup: async (domains) => {
+      const records: DomainIntel[] = [];
+      const queue = [...domains];
+      const worker = async () => {
+        for (let domain = queue.shift(); domain !== undefined; domain = queue.shift()) {
+          const record = await fetchOne(domain);
+          if (record) records.push(record);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(HTTP_CONCURRENCY, domains.length) }, worker));
+      return records;
+    }
+  };
+};
+
+/**
+ * The configured provider; null when enrichment is off or the file provider has no file
+ */
+export const createDomainProvider = (config: DomainProviderConfig, file: DomainIntelFile | null): DomainIntelProvider | null => {
+  if (config.kind === 'file') return file ? createFileProvider(file) : null;
+  if (config.kind === 'http') return config.endpoint.trim() ? createHttpProvider(config.endpoint.trim()) : null;
+  return null;
+};
+
+/**
+ * Looks up the domains that are not cached or whose entry has expired, a batch at a time.
+ * Returns the new cache entries, with a data-less entry for each domain the provider did not know.
+ */
+export const enrichDomains = async (provider: DomainIntelProvider, domains: string[], cached: DomainIntel[], now: number = Date.now()): Promise<DomainIntel[]> => {
+  const fetchedAt = new Map(cached.map(r => [r.domain, Date.parse(r.fetchedAt)]));
+  const due = domains.filter(d => !(now - (fetchedAt.get(d) ?? -Infinity) < CACHE_TTL_MS)).slice(0, MAX_LOOKUPS_PER_RUN);
+  if (due.length === 0) return [];
+
+  const found = new Map((await provider.lookup(due)).map(r => [r.domain, r]));
+  const stamp = new Date(now).toISOString();
+  return due.map(domain => found.get(domain) ?? { domain, source: provider.name, fetchedAt: stamp });
+};
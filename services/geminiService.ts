@@ -1,6 +1,8 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { DNSQuery, ForensicReport, ThreatLevel } from "../types";
+import { summarizeDetectedTools } from "../utils/signatures";
+import { estimateExfiltration } from "../utils/exfil";
 
 const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
 
@@ -43,6 +45,14 @@ export const analyzeForensics = async (logs: DNSQuery[]): Promise<ForensicReport
   });
 
   const response = await model;
-  const result = JSON.parse(response.text || '{}');
-  return result as ForensicReport;
+  const result = JSON.parse(response.text || '{}') as ForensicReport;
+  // Signature attributions are certain; keep them even when the model did not list them
+  const attributed = summarizeDetectedTools(logs).filter(entry => !(result.detectedTunnels ?? []).some(d => entry.startsWith(`${d} `)));
+  const exfiltration = estimateExfiltration(logs);
+  return {
+    ...result,
+    detectedTunnels: [...attributed, ...(result.detectedTunnels ?? [])],
+    // Computed locally from every query, not the sample the model saw
+    exfiltration: { ...exfiltration, flows: exfiltration.flows.slice(0, 20), bySource: exfiltration.bySource.slice(0, 20), byDomain: exfiltration.byDomain.slice(0, 20) }
+  };
 };
@@ -1,39 +1,109 @@
+import { GeoData, GeoDatabase } from '../types';
+import { lookupGeo } from '../utils/geo';
 
-export interface GeoData {
-  location: string;
-  lat?: number;
-  lng?: number;
-}
+const FALLBACK_KEY = 'aegisdns.geo.onlineFallback';
+const IDB_NAME = 'aegisdns';
+const IDB_STORE = 'geoDatabases';
 
-const geoCache: Record<string, GeoData> = {
-  '127.0.0.1': { location: 'Localhost' },
-  '192.168.1.1': { location: 'Local Network' },
+/**
+ * Whether public addresses the loaded databases cannot place may be sent to ipwho.is. Off
+ * unless the user opts in: lookups disclose the addresses under investigation.
+ */
+export const loadOnlineGeoFallback = (): boolean => {
+  try {
+    return localStorage.getItem(FALLBACK_KEY) === 'true';
+  } catch (error) {
+    return false;
+  }
 };
 
-export const fetchGeolocation = async (ip: string): Promise<GeoData> => {
-  if (geoCache[ip]) return geoCache[ip];
+export const saveOnlineGeoFallback = (enabled: boolean) => {
+  localStorage.setItem(FALLBACK_KEY, String(enabled));
+};
+
+// .mmdb files run to tens of megabytes, beyond what localStorage holds
+const openStore = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(IDB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE, { keyPath: 'name' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openStore();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Loads the saved databases; none when nothing is saved or storage is unavailable
+ */
+export const loadGeoDatabases = async (): Promise<GeoDatabase[]> => {
+  try {
+    const saved = await withStore('readonly', store => store.getAll());
+    return saved.filter((d: any) => d && typeof d.name === 'string' && d.buffer instanceof ArrayBuffer);
+  } catch (error) {
+    return [];
+  }
+};
 
-  // Skip private IPs
-  if (ip.startsWith('192.168.') || ip.startsWith('10.') || ip.startsWith('172.')) {
-    return { location: 'Private Network' };
+/**
+ * Saves a database, replacing one of the same name; false when it does not fit and only lasts for the session
+ */
+export const saveGeoDatabase = async (database: GeoDatabase): Promise<boolean> => {
+  try {
+    await withStore('readwrite', store => store.put(database));
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const deleteGeoDatabase = async (name: string): Promise<void> => {
+  try {
+    await withStore('readwrite', store => store.delete(name));
+  } catch (error) {
+    return;
   }
+};
+
+const onlineCache: Record<string, GeoData> = {};
+
+/**
+ * Locates an address from the loaded databases, asking ipwho.is only for public addresses
+ * they cannot place and only when the online fallback is enabled
+ */
+export const fetchGeolocation = async (ip: string): Promise<GeoData> => {
+  const local = lookupGeo(ip);
+  if (local.ipScope !== 'public' || local.location !== undefined || !loadOnlineGeoFallback()) return local;
+  if (onlineCache[ip]) return { ...local, ...onlineCache[ip] };
 
   try {
-    const response = await fetch(`https://ipwho.is/${ip}`);
+    const response = await fetch(`https://ipwho.is/${encodeURIComponent(ip)}`);
     if (!response.ok) throw new Error('Geo API error');
     const data = await response.json();
-    
-    if (!data.success) return { location: 'Unknown' };
-    
-    const location = `${data.city || ''}${data.city && data.country ? ', ' : ''}${data.country || ''}` || 'Unknown';
-    const geoData = {
-      location,
+
+    if (!data.success) return { ...local, location: 'Unknown' };
+
+    const geoData: GeoData = {
+      location: `${data.city || ''}${data.city && data.country ? ', ' : ''}${data.country || ''}` || 'Unknown',
       lat: data.latitude,
-      lng: data.longitude
+      lng: data.longitude,
+      countryCode: data.country_code || undefined,
+      // Keep what an ASN-only database already found
+      asn: local.asn ?? data.connection?.asn,
+      asOrg: local.asOrg ?? data.connection?.org
     };
-    geoCache[ip] = geoData;
-    return geoData;
+    onlineCache[ip] = geoData;
+    return { ...local, ...geoData };
   } catch (error) {
-    return { location: 'Unknown' };
+    return { ...local, location: 'Unknown' };
   }
 };
@@ -0,0 +1,85 @@
+import { CsvMapping, DNSQuery, LogFormat, ParseError } from '../types';
+import { IngestEvent, IngestKind, IngestProgress, IngestRequest } from '../utils/ingest';
+import { getActiveRules } from '../utils/rules';
+import { getActiveModel } from '../utils/model';
+import { getActiveIntel } from '../utils/intel';
+import { getActiveGeoDatabases } from '../utils/geo';
+import { getActiveDomainIntel } from '../utils/domainIntel';
+
+export interface IngestHandlers {
+  onBatch: (queries: DNSQuery[], errors: ParseError[]) => void;
+  onProgress: (progress: IngestProgress) => void;
+  onDone: (format: LogFormat | null, progress: IngestProgress) => void;
+  onCancelled: (progress: IngestProgress | null) => void;
+  onError: (message: string) => void;
+}
+
+// How long a cancelled worker gets to acknowledge before it is terminated
+const CANCEL_GRACE_MS = 500;
+
+export interface IngestJob {
+  cancel: () => void;
+}
+
+/**
+ * Starts parsing a file in a dedicated Web Worker. Each job gets its own worker,
+ * which is terminated when the job finishes, fails or is cancelled.
+ * A CSV mapping from the import wizard skips format detection; records are scored
+ * with the rule pack active when the job starts, and located from the loaded geolocation databases.
+ */
+export const startIngest = (file: File, kind: IngestKind, handlers: IngestHandlers, csvMapping?: CsvMapping): IngestJob => {
+  const worker = new Worker(new URL('../workers/ingestWorker.ts', import.meta.url), { type: 'module' });
+  let lastProgress: IngestProgress | null = null;
+  let finished = false;
+
+  const finish = () => {
+    finished = true;
+    worker.terminate();
+  };
+
+  worker.onmessage = (e: MessageEvent<IngestEvent>) => {
+    const event = e.data;
+    switch (event.type) {
+      case 'batch':
+        handlers.onBatch(event.queries, event.errors);
+        break;
+      case 'progress':
+        lastProgress = event.progress;
+        handlers.onProgress(event.progress);
+        break;
+      case 'done':
+        finish();
+        handlers.onDone(event.format, event.progress);
+        break;
+      case 'cancelled':
+        finish();
+        handlers.onCancelled(event.progress);
+        break;
+      case 'error':
+        finish();
+        handlers.onError(event.message);
+        break;
+    }
+  };
+
+  worker.onerror = (e: ErrorEvent) => {
+    finish();
+    handlers.onError(e.message || 'Ingest worker crashed.');
+  };
+
+  worker.postMessage({ type: 'start', file, kind, csvMapping, rules: getActiveRules(), model: getActiveModel(), intel: getActiveIntel(), geo: getActiveGeoDatabases(), domains: getActiveDomainIntel() } satisfies IngestRequest);
+
+  return {
+    cancel: () => {
+      if (finished) return;
+      worker.postMessage({ type: 'cancel' } satisfies IngestRequest);
+      // A worker blocked inside a large synchronous parse won't see the message;
+      // stop it outright. Batches already delivered are kept either way.
+      setTimeout(() => {
+        if (finished) return;
+        finish();
+        handlers.onCancelled(lastProgress);
+      }, CANCEL_GRACE_MS);
+    }
+  };
+};
@@ -0,0 +1,29 @@
+import { ThreatFeed } from '../types';
+
+const STORAGE_KEY = 'aegisdns.intel';
+
+/**
+ * Loads the saved threat-intel feeds; none when nothing is saved or it cannot be read
+ */
+export const loadIntelFeeds = (): ThreatFeed[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return [];
+    const feeds = JSON.parse(saved);
+    return Array.isArray(feeds) ? feeds.filter(f => f && typeof f.name === 'string' && Array.isArray(f.indicators)) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Saves the feeds; false when they do not fit in browser storage and only last for the session
+ */
+export const saveIntelFeeds = (feeds: ThreatFeed[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(feeds));
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
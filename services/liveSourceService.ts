@@ -0,0 +1,259 @@
+import { DNSQuery, LiveConnectionState, LiveSourceConfig, LiveSourceStatus } from '../types';
+import { analyzeQueryName, normalizeDNSQuery, scoreQuery } from '../utils/forensics';
+import { fetchGeolocation } from './geoService';
+
+/**
+ * Live DNS event sources for the Live Monitor. Every source feeds a bounded queue that is
+ * flushed to the UI in batches; when the UI falls behind, the oldest queued events are dropped.
+ */
+
+const STORAGE_KEY = 'aegisdns.liveSource';
+
+export const DEFAULT_LIVE_SOURCE: LiveSourceConfig = { kind: 'simulator', endpoint: 'ws://localhost:8053/events' };
+
+const QUEUE_LIMIT = 5000;
+const FLUSH_INTERVAL_MS = 250;
+const MAX_FLUSH_BATCH = 500;
+const STATUS_INTERVAL_MS = 1000;
+const RATE_WINDOW_MS = 5000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+const SIMULATOR_INTERVAL_MS = 3000;
+
+export interface LiveSourceHandlers {
+  onEvents: (queries: DNSQuery[]) => void;
+  onStatus: (status: LiveSourceStatus) => void;
+}
+
+export interface LiveSource {
+  stop: () => void;
+}
+
+export const loadLiveSourceConfig = (): LiveSourceConfig => {
+  try {
+    return { ...DEFAULT_LIVE_SOURCE, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch (error) {
+    return DEFAULT_LIVE_SOURCE;
+  }
+};
+
+export const saveLiveSourceConfig = (config: LiveSourceConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+/**
+ * The original demo traffic generator: benign lookups with an occasional tunnelling domain
+ */
+const simulateQuery = async (): Promise<DNSQuery> => {
+  const isMalicious = Math.random() < 0.1;
+  const domains = ["apple.com", "microsoft.net", "akamai.net", "facebook.io", "zoom.us", "slack.com"];
+  const maliciousTunnels = [
+    "tx.a4b3.c2server.ru",
+    "init.z9x8y7.exfil.dns",
+    "ping.v1.enc.base64payload.attacker.com"
+  ];
+
+  const queryStr = isMalicious
+    ? maliciousTunnels[Math.floor(Math.random() * maliciousTunnels.length)]
+    : domains[Math.floor(Math.random() * domains.length)];
+
+  const publicIps = ['8.8.8.8', '1.1.1.1', '13.248.169.48', '172.217.1.14'];
+  const sourceIp = Math.random() > 0.6
+    ? publicIps[Math.floor(Math.random() * publicIps.length)]
+    : `192.168.1.${Math.floor(Math.random() * 200) + 1}`;
+
+  const geo = await fetchGeolocation(sourceIp);
+
+  const newQuery: DNSQuery = {
+    id: Math.random().toString(36).substr(2, 9),
+    timestamp: new Date().toISOString(),
+    sourceIp,
+    query: queryStr,
+    ...analyzeQueryName(queryStr),
+    type: 'A',
+    ...geo,
+    isNew: isMalicious,
+    threatScore: 0,
+  };
+
+  return { ...newQuery, ...scoreQuery(newQuery) };
+};
+
+/**
+ * Splits a collector message into raw events: one JSON object, a JSON array, or NDJSON
+ */
+const parseMessage = (data: string): any[] | null => {
+  try {
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch (e) {
+    const lines = data.split(/\r?\n/).filter(l => l.trim());
+    if (lines.length < 2) return null;
+    try {
+      return lines.map(l => JSON.parse(l));
+    } catch (err) {
+      return null;
+    }
+  }
+};
+
+/**
+ * Connects the configured source and starts delivering batches until stopped
+ */
+export const startLiveSource = (config: LiveSourceConfig, handlers: LiveSourceHandlers): LiveSource => {
+  const status: LiveSourceStatus = { state: 'connecting', eventsPerSecond: 0, received: 0, dropped: 0, malformed: 0, reconnects: 0 };
+  const queue: DNSQuery[] = [];
+  const arrivals: { time: number; count: number }[] = [];
+  let stopped = false;
+  let lastStatusAt = 0;
+  let reconnectAttempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let closeConnection = () => {};
+
+  const publishStatus = () => {
+    lastStatusAt = Date.now();
+    handlers.onStatus({ ...status });
+  };
+
+  const setConnectionState = (state: LiveConnectionState, lastError?: string) => {
+    status.state = state;
+    if (lastError !== undefined) status.lastError = lastError;
+    if (state === 'connected') status.lastError = undefined;
+    publishStatus();
+  };
+
+  const enqueue = (events: DNSQuery[]) => {
+    if (stopped || events.length === 0) return;
+    status.received += events.length;
+    arrivals.push({ time: Date.now(), count: events.length });
+    queue.push(...events);
+    if (queue.length > QUEUE_LIMIT) {
+      const overflow = queue.length - QUEUE_LIMIT;
+      queue.splice(0, overflow);
+      status.dropped += overflow;
+    }
+  };
+
+  const onMessage = (data: unknown) => {
+    const events = typeof data === 'string' ? parseMessage(data) : null;
+    if (!events || events.length === 0) {
+      status.malformed++;
+      return;
+    }
+    // Each event stands alone: one with a non-string name or type does not cost the rest
+    const queries: DNSQuery[] = [];
+    for (const event of events) {
+      if (!event || typeof event !== 'object') {
+        status.malformed++;
+        continue;
+      }
+      try {
+        queries.push(normalizeDNSQuery(event));
+      } catch (error) {
+        status.malformed++;
+      }
+    }
+    enqueue(queries);
+  };
+
+  const flushTimer = setInterval(() => {
+    if (queue.length > 0) {
+      // Newest first, matching the log order in the UI
+      handlers.onEvents(queue.splice(0, MAX_FLUSH_BATCH).reverse());
+    }
+
+    const now = Date.now();
+    while (arrivals.length > 0 && arrivals[0].time < now - RATE_WINDOW_MS) arrivals.shift();
+    status.eventsPerSecond = arrivals.reduce((acc, a) => acc + a.count, 0) / (RATE_WINDOW_MS / 1000);
+    if (now - lastStatusAt >= STATUS_INTERVAL_MS) publishStatus();
+  }, FLUSH_INTERVAL_MS);
+
+  const scheduleReconnect = (reason: string) => {
+    if (stopped) return;
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** reconnectAttempt);
+    reconnectAttempt++;
+    setConnectionState('reconnecting', reason);
+    reconnectTimer = setTimeout(() => {
+      status.reconnects++;
+      connect();
+    }, delay);
+  };
+
+  const connectWebSocket = () => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(config.endpoint);
+    } catch (e: any) {
+      scheduleReconnect(e.message || 'Invalid WebSocket endpoint');
+      return;
+    }
+    socket.onopen = () => {
+      reconnectAttempt = 0;
+      setConnectionState('connected');
+    };
+    socket.onmessage = (e: MessageEvent) => onMessage(e.data);
+    socket.onclose = (e: CloseEvent) => scheduleReconnect(e.reason || `Connection closed (code ${e.code})`);
+    closeConnection = () => {
+      socket.onclose = null;
+      socket.close();
+    };
+  };
+
+  const connectEventSource = () => {
+    let source: EventSource;
+    try {
+      source = new EventSource(config.endpoint);
+    } catch (e: any) {
+      scheduleReconnect(e.message || 'Invalid SSE endpoint');
+      return;
+    }
+    source.onopen = () => {
+      reconnectAttempt = 0;
+      setConnectionState('connected');
+    };
+    source.onmessage = (e: MessageEvent) => onMessage(e.data);
+    // EventSource retries on its own at a fixed interval; use the shared backoff instead
+    source.onerror = () => {
+      source.close();
+      scheduleReconnect('Event stream error');
+    };
+    closeConnection = () => source.close();
+  };
+
+  const connectSimulator = () => {
+    const interval = setInterval(() => {
+      simulateQuery()
+        .then(query => enqueue([query]))
+        .catch((e: any) => {
+          // A failed generation is a lost event, like a malformed message; the simulator keeps running
+          status.malformed++;
+          status.lastError = e?.message || 'Simulator failed to generate a query';
+        });
+    }, SIMULATOR_INTERVAL_MS);
+    closeConnection = () => clearInterval(interval);
+    setConnectionState('connected');
+  };
+
+  const connect = () => {
+    if (stopped) return;
+    if (config.kind !== 'simulator') setConnectionState('connecting');
+    switch (config.kind) {
+      case 'websocket': return connectWebSocket();
+      case 'sse': return connectEventSource();
+      default: return connectSimulator();
+    }
+  };
+
+  connect();
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearInterval(flushTimer);
+      clearTimeout(reconnectTimer);
+      closeConnection();
+      queue.length = 0;
+      setConnectionState('closed');
+    }
+  };
+};
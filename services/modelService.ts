@@ -0,0 +1,34 @@
+import { ClassifierModel } from '../types';
+import { parseModel, serializeModel } from '../utils/model';
+
+const STORAGE_KEY = 'aegisdns.model';
+
+/**
+ * Loads the saved classifier; null when none is saved or it no longer validates
+ */
+export const loadModel = (): ClassifierModel | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return null;
+    return parseModel(saved).model ?? null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const saveModel = (model: ClassifierModel | null) => {
+  if (model) localStorage.setItem(STORAGE_KEY, JSON.stringify(model));
+  else localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Saves the model as a JSON file for sharing
+ */
+export const downloadModel = (model: ClassifierModel) => {
+  const url = URL.createObjectURL(new Blob([serializeModel(model)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${model.name.replace(/[^a-z0-9_-]+/gi, '-')}.model.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
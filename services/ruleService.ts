@@ -0,0 +1,38 @@
+import { DetectionRule } from '../types';
+import { DEFAULT_RULES, validateRules } from '../utils/rules';
+
+const STORAGE_KEY = 'aegisdns.rules';
+// Ids of the default rules the saved pack was edited against, so deleted defaults stay deleted
+const KNOWN_DEFAULTS_KEY = 'aegisdns.rules.knownDefaults';
+
+const loadKnownDefaults = (): Set<string> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KNOWN_DEFAULTS_KEY) || '[]');
+    return new Set(Array.isArray(saved) ? saved.filter((id): id is string => typeof id === 'string') : []);
+  } catch (error) {
+    return new Set();
+  }
+};
+
+/**
+ * Loads the saved rule pack, falling back to the default pack when none is saved or it no longer validates.
+ * Default rules added since the pack was saved are appended to it.
+ */
+export const loadRules = (): DetectionRule[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_RULES;
+    const { rules, errors } = validateRules(JSON.parse(saved));
+    if (errors.length > 0) return DEFAULT_RULES;
+    const present = new Set(rules.map(r => r.id));
+    const known = loadKnownDefaults();
+    return [...rules, ...DEFAULT_RULES.filter(r => !present.has(r.id) && !known.has(r.id))];
+  } catch (error) {
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRules = (rules: DetectionRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  localStorage.setItem(KNOWN_DEFAULTS_KEY, JSON.stringify(DEFAULT_RULES.map(r => r.id)));
+};
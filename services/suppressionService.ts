@@ -0,0 +1,22 @@
+import { SuppressionEntry } from '../types';
+import { DEFAULT_SUPPRESSIONS, validateSuppressions } from '../utils/suppression';
+
+const STORAGE_KEY = 'aegisdns.suppressions';
+
+/**
+ * Loads the saved allowlist, falling back to the curated list when none is saved or it no longer validates
+ */
+export const loadSuppressions = (): SuppressionEntry[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_SUPPRESSIONS;
+    const { entries, errors } = validateSuppressions(JSON.parse(saved));
+    return errors.length === 0 ? entries : DEFAULT_SUPPRESSIONS;
+  } catch (error) {
+    return DEFAULT_SUPPRESSIONS;
+  }
+};
+
+export const saveSuppressions = (entries: SuppressionEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+};
@@ -6,26 +6,287 @@ export enum ThreatLevel {
   CRITICAL = 'CRITICAL'
 }
 
+/** A resource record from the answer section of the response */
+export interface DNSAnswer {
+  type: string;
+  data: string;
+  ttl?: number;
+}
+
+/** Alphabet of an encoded payload in the subdomain labels */
+export type PayloadEncoding = 'hex' | 'base32' | 'base36' | 'base64';
+
+/** One reason behind a score, classification or alert */
+export interface ScoreFactor {
+  factor: string;
+  /** The values the rule or detector tested, e.g. `entropy = 4.61` */
+  observed: string;
+  /** Points added to the threat score; absent for factors that do not score */
+  contribution?: number;
+  effect: 'score' | 'classify' | 'alert' | 'detector';
+  /** Rule id, or the detector that produced the factor */
+  ruleId: string;
+}
+
+/** Character-distribution features of the query name */
+export interface LexicalFeatures {
+  /** Average log10 likelihood per character bigram/trigram against an English-and-hostname corpus */
+  bigramScore: number;
+  trigramScore: number;
+  vowelRatio: number;
+  consonantRatio: number;
+  digitRatio: number;
+  longestLabel: number;
+  encoding?: PayloadEncoding;
+}
+
+export type QueryLabel = 'Normal' | 'Tunneling' | 'DGA';
+
+export type IntelVerdict = 'MALICIOUS' | 'SUSPICIOUS';
+
+export type IndicatorKind = 'ip' | 'cidr' | 'domain' | 'wildcard';
+
+export interface ThreatIndicator {
+  kind: IndicatorKind;
+  /** Address, CIDR range, domain, or `*.example.com` for a domain and everything under it */
+  value: string;
+  verdict: IntelVerdict;
+  /** 0-100 */
+  confidence: number;
+  expiresAt?: string;
+  description?: string;
+}
+
+export type IntelFeedFormat = 'list' | 'csv' | 'stix' | 'misp';
+
+/** Indicators imported from one file */
+export interface ThreatFeed {
+  name: string;
+  format: IntelFeedFormat;
+  importedAt: string;
+  indicators: ThreatIndicator[];
+}
+
+/** The indicator behind a query's reputation */
+export interface IntelMatch {
+  feed: string;
+  kind: IndicatorKind;
+  indicator: string;
+  verdict: IntelVerdict;
+  confidence: number;
+  /** What matched: the client address, the query name, or an answer record */
+  field: 'sourceIp' | 'query' | 'answer';
+  description?: string;
+}
+
+/** Kind of network an address belongs to; everything but `public` is local or special-purpose */
+export type IpScope = 'public' | 'private' | 'cgnat' | 'loopback' | 'link-local' | 'unique-local' | 'multicast' | 'unspecified' | 'documentation' | 'reserved';
+
+/** Location and network owner of an address */
+export interface GeoData {
+  ipScope?: IpScope;
+  /** `City, Country`, or a label for non-public scopes */
+  location?: string;
+  lat?: number;
+  lng?: number;
+  countryCode?: string;
+  asn?: number;
+  asOrg?: string;
+}
+
+/** A MaxMind/DB-IP style .mmdb file loaded by the user */
+export interface GeoDatabase {
+  name: string;
+  /** `database_type` from the file, e.g. GeoLite2-City or DBIP-ASN-Lite */
+  databaseType: string;
+  buildEpoch: number;
+  size: number;
+  loadedAt: string;
+  buffer: ArrayBuffer;
+}
+
+/** Registration and passive DNS history of a registered domain, from a domain enrichment provider */
+export interface DomainIntel {
+  domain: string;
+  createdAt?: string;
+  registrar?: string;
+  nameServers?: string[];
+  /** Passive DNS: first and last time the domain was seen resolving */
+  firstSeen?: string;
+  lastSeen?: string;
+  /** Provider that answered; a record with nothing else is a cached miss */
+  source: string;
+  fetchedAt: string;
+}
+
+export type DomainProviderKind = 'none' | 'file' | 'http';
+
+export interface DomainProviderConfig {
+  kind: DomainProviderKind;
+  /** URL for the HTTP provider; `{domain}` is replaced by the domain, otherwise it is appended */
+  endpoint: string;
+}
+
 export interface DNSQuery {
   id: string;
   timestamp: string;
   sourceIp: string;
   query: string;
+  /** Labels left of the registered domain; length and entropy are measured on this part */
+  subdomain?: string;
+  registeredDomain?: string;
+  publicSuffix?: string;
   type: string;
   responseCode?: string;
+  answers?: DNSAnswer[];
+  /** Size of the response message in bytes */
+  responseSize?: number;
+  /** TC bit: the response did not fit and was cut short */
+  truncated?: boolean;
+  uid?: string;
+  /** Executable that issued the query, from endpoint telemetry */
+  process?: string;
+  processId?: number;
+  /** Endpoint host name, from endpoint telemetry */
+  host?: string;
   length: number;
   entropy: number;
+  lexical?: LexicalFeatures;
+  /** Probability (0-1) that the registered domain was machine-generated */
+  dgaScore?: number;
+  ipScope?: IpScope;
   location?: string;
   lat?: number;
   lng?: number;
-  label?: 'Normal' | 'Tunneling';
+  countryCode?: string;
+  /** Autonomous system of the client address, from a loaded ASN database */
+  asn?: number;
+  asOrg?: string;
+  label?: QueryLabel;
   confidence?: number;
   threatScore: number;
   reputation?: 'CLEAN' | 'SUSPICIOUS' | 'MALICIOUS' | 'UNKNOWN';
+  /** Threat-intel indicator that set the reputation */
+  intel?: IntelMatch;
+  /** Registration and passive DNS data for the registered domain */
+  domainIntel?: DomainIntel;
   isNew?: boolean;
+  /** Tunnelling or C2 tool identified by the signature library */
+  tool?: string;
+  /** Every rule that matched, with what it saw and what it added to the score */
+  breakdown?: ScoreFactor[];
   metadata?: Record<string, any>;
 }
 
+export type LogFormat =
+  | 'json'
+  | 'csv'
+  | 'text'
+  | 'zeek'
+  | 'bind'
+  | 'unbound'
+  | 'dnsmasq'
+  | 'windows-dns'
+  | 'sysmon'
+  | 'pcap'
+  | 'dnstap';
+
+export interface ParseError {
+  line: number;
+  content: string;
+  reason: string;
+}
+
+export interface ParseResult {
+  format: LogFormat;
+  queries: DNSQuery[];
+  errors: ParseError[];
+}
+
+/** DNSQuery fields a CSV column can be imported into */
+export type CsvField =
+  | 'timestamp'
+  | 'sourceIp'
+  | 'query'
+  | 'type'
+  | 'responseCode'
+  | 'answers'
+  | 'ttls'
+  | 'responseSize'
+  | 'truncated'
+  | 'uid'
+  | 'process'
+  | 'processId'
+  | 'host';
+
+export interface CsvColumnMapping {
+  target: CsvField | 'metadata' | 'ignore';
+  /** Key under DNSQuery.metadata when target is 'metadata' */
+  metadataKey?: string;
+}
+
+export interface CsvMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  /** Indexed by column position */
+  columns: CsvColumnMapping[];
+}
+
+/** A saved CSV mapping, reused for exports from the same vendor */
+export interface CsvProfile extends CsvMapping {
+  name: string;
+}
+
+export type LiveSourceKind = 'simulator' | 'websocket' | 'sse';
+
+export interface LiveSourceConfig {
+  kind: LiveSourceKind;
+  /** ws:// or http(s):// URL of the collector; unused by the simulator */
+  endpoint: string;
+}
+
+export type LiveConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface LiveSourceStatus {
+  state: LiveConnectionState;
+  eventsPerSecond: number;
+  received: number;
+  /** Events discarded because the ingest queue was full */
+  dropped: number;
+  /** Messages that were not valid JSON, and events in them that were not usable DNS events */
+  malformed: number;
+  reconnects: number;
+  lastError?: string;
+}
+
+/** Payload bytes carried in query names; `low`/`high` bound framing overhead and alphabet uncertainty */
+export interface ExfilVolume {
+  bytes: number;
+  low: number;
+  high: number;
+  /** Distinct payload-carrying queries; retransmissions count once */
+  queries: number;
+}
+
+export interface ExfilFlow extends ExfilVolume {
+  sourceIp: string;
+  host?: string;
+  registeredDomain: string;
+  encodings: string[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface ExfiltrationEstimate {
+  total: ExfilVolume;
+  /** Per source IP and registered domain, largest first */
+  flows: ExfilFlow[];
+  bySource: (ExfilVolume & { sourceIp: string })[];
+  byDomain: (ExfilVolume & { registeredDomain: string })[];
+  windowMs: number;
+  windows: (ExfilVolume & { start: string })[];
+}
+
 export interface ForensicReport {
   summary: string;
   threatLevel: ThreatLevel;
@@ -33,33 +294,163 @@ export interface ForensicReport {
   timeline: { time: string; event: string }[];
   recommendation: string;
   detectedTunnels: string[];
+  exfiltration?: ExfiltrationEstimate;
+}
+
+export interface TopTalker {
+  sourceIp: string;
+  host?: string;
+  queries: number;
+}
+
+/** Volume, response codes and query types over a span of traffic */
+export interface TrafficStats {
+  totalQueries: number;
+  /** Queries divided by the minutes the span covers */
+  queriesPerMinute: number;
+  nxDomainRatio: number;
+  servFailRatio: number;
+  refusedRatio: number;
+  /** Share of queries per response code; queries without one count as NOERROR */
+  rcodeRatios: Record<string, number>;
+  /** Share of queries per qtype */
+  qtypeDistribution: Record<string, number>;
+  /** Busiest sources, most queries first */
+  topTalkers: TopTalker[];
 }
 
-export interface FeatureStats {
+export interface FeatureStats extends TrafficStats {
   avgEntropy: number;
   avgLength: number;
-  nxDomainRatio: number;
-  totalQueries: number;
   uniqueSubdomains: number;
 }
 
+/** Traffic statistics for one time bucket */
+export interface StatsBucket extends TrafficStats {
+  start: string;
+  end: string;
+}
+
 export interface Alert {
   id: string;
   timestamp: string;
-  type: 'TUNNELING_DETECTED' | 'HIGH_ENTROPY' | 'C2_PATTERN';
+  type: 'TUNNELING_DETECTED' | 'HIGH_ENTROPY' | 'C2_PATTERN' | 'VOLUME_ANOMALY' | 'DGA_DETECTED' | 'BASELINE_DEVIATION' | 'INTEL_MATCH';
   severity: 'MEDIUM' | 'HIGH' | 'CRITICAL';
   message: string;
   queryId: string;
+  /** Registered domain or source IP an aggregate alert was raised for */
+  subject?: string;
+  tool?: string;
+  /** Why the alert was raised */
+  factors?: ScoreFactor[];
+  process?: string;
+  host?: string;
+  /** Id of the allowlist entry that suppressed the alert */
+  suppressedBy?: string;
   isRead: boolean;
 }
 
+export type SuppressionKind = 'domain' | 'wildcard' | 'regex' | 'cidr' | 'qtype';
+
+/**
+ * An allowlist entry. Matching alerts are kept but marked suppressed, so they can still be
+ * counted and reviewed.
+ */
+export interface SuppressionEntry {
+  id: string;
+  kind: SuppressionKind;
+  /** Registered domain, `*.example.com` pattern, regular expression, source CIDR or qtype */
+  value: string;
+  /** Further restricts a name or CIDR entry to one qtype, e.g. TXT for DKIM lookups */
+  qtype?: string;
+  reason: string;
+  author: string;
+  createdAt: string;
+  expiresAt?: string;
+  enabled: boolean;
+}
+
+export type AlertType = Alert['type'];
+export type AlertSeverity = Alert['severity'];
+
+export type RuleOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'notIn' | 'contains' | 'matches' | 'exists';
+
+/** Test of one query field or feature; `field` is a dotted path such as `lexical.encoding` */
+export interface RuleCondition {
+  field: string;
+  op: RuleOperator;
+  value?: any;
+}
+
+/**
+ * A detection rule. Contributions are summed into the threat score; `classify` labels
+ * matches (`true` meaning Tunneling); `alert` decides the alert raised for flagged queries.
+ */
+export interface DetectionRule {
+  id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  /** Every `all` condition and, if given, at least one `any` condition must hold */
+  when: { all?: RuleCondition[]; any?: RuleCondition[] };
+  /** Fixed score contribution */
+  weight?: number;
+  /** Contribution proportional to a field: (value - from) * factor, capped at max */
+  scale?: { field: string; from: number; factor: number; max?: number };
+  /** Rules in the same group share one cap */
+  group?: { id: string; max: number };
+  classify?: boolean | Exclude<QueryLabel, 'Normal'>;
+  alert?: AlertType;
+  /** Alert severity; derived from the threat score when omitted */
+  severity?: AlertSeverity;
+}
+
+/** Holdout precision and recall for one label */
+export interface ClassMetrics {
+  label: QueryLabel;
+  precision: number;
+  recall: number;
+  f1: number;
+  /** Holdout samples carrying this label */
+  support: number;
+}
+
+export interface ModelMetrics {
+  accuracy: number;
+  trainSize: number;
+  holdoutSize: number;
+  classes: ClassMetrics[];
+  /** confusion[actual][predicted], indexed like the model's labels */
+  confusion: number[][];
+}
+
+/**
+ * A trained multinomial logistic regression, as exported and shared between analysts
+ */
+export interface ClassifierModel {
+  format: 'aegisdns-logreg';
+  version: 1;
+  name: string;
+  createdAt: string;
+  /** Feature names, in weight column order */
+  features: string[];
+  labels: QueryLabel[];
+  /** Standardisation applied to each feature before the weights */
+  mean: number[];
+  std: number[];
+  /** One weight row per label */
+  weights: number[][];
+  bias: number[];
+  metrics: ModelMetrics;
+}
+
 export interface AppState {
   logs: DNSQuery[];
   liveLogs: DNSQuery[];
   alerts: Alert[];
   isAnalyzing: boolean;
   isLive: boolean;
-  activeView: 'dashboard' | 'logs' | 'forensics' | 'reports' | 'live' | 'alerts' | 'map';
+  activeView: 'dashboard' | 'logs' | 'forensics' | 'reports' | 'live' | 'alerts' | 'map' | 'domains' | 'hosts' | 'rules' | 'model' | 'suppressions' | 'intel';
   stats: FeatureStats | null;
   report: ForensicReport | null;
 }
@@ -0,0 +1,321 @@
+import { DNSQuery } from '../types';
+import { splitDomain } from './publicSuffix';
+
+/**
+ * Sliding-window behavioural aggregates per registered domain and per source IP.
+ * Per-query scores miss tunnels made of many individually unremarkable queries; these
+ * metrics capture the volume: unique subdomains, bytes carried in labels, client→domain
+ * query rate and the spread of record types. Each peak is the maximum over any window
+ * of the configured length, so the same numbers work for live traffic and imported history.
+ */
+
+export interface AggregationThresholds {
+  /** Window for the unique-subdomain and label-byte peaks */
+  windowMs: number;
+  uniqueSubdomainsPerWindow: number;
+  labelBytesPerWindow: number;
+  /** Queries per minute from one client to one registered domain */
+  pairQueriesPerMinute: number;
+  /** Share of TXT/NULL/ANY queries, only judged once a domain has `minQueriesForTypeRatio` queries */
+  unusualTypeRatio: number;
+  minQueriesForTypeRatio: number;
+}
+
+export const DEFAULT_AGGREGATION_THRESHOLDS: AggregationThresholds = {
+  windowMs: 60 * 60 * 1000,
+  uniqueSubdomainsPerWindow: 150,
+  labelBytesPerWindow: 20000,
+  pairQueriesPerMinute: 120,
+  unusualTypeRatio: 0.5,
+  minQueriesForTypeRatio: 50
+};
+
+const PAIR_RATE_WINDOW_MS = 60 * 1000;
+const UNUSUAL_TYPES = ['TXT', 'NULL', 'ANY'];
+
+export type AggregateMetric = 'uniqueSubdomains' | 'labelBytes' | 'pairRate' | 'typeRatio';
+
+export interface AggregateViolation {
+  metric: AggregateMetric;
+  value: number;
+  threshold: number;
+  /** Start of the window in which the peak was reached */
+  at: string;
+  /** The other side of a client→domain pair */
+  peer?: string;
+}
+
+export interface DomainAggregate {
+  registeredDomain: string;
+  queries: number;
+  sources: number;
+  uniqueSubdomains: number;
+  peakUniqueSubdomains: number;
+  /** Characters carried in subdomain labels, dots excluded */
+  labelBytes: number;
+  peakLabelBytes: number;
+  peakPairRate: number;
+  peakPairSource?: string;
+  typeDistribution: Record<string, number>;
+  /** Shannon entropy of the record type distribution, in bits */
+  typeSpread: number;
+  unusualTypeRatio: number;
+  nxDomainRatio: number;
+  firstSeen: string;
+  lastSeen: string;
+  /** Most recent query, for linking alerts back to the logs */
+  lastQueryId: string;
+  violations: AggregateViolation[];
+}
+
+export interface SourceAggregate {
+  sourceIp: string;
+  host?: string;
+  queries: number;
+  domains: number;
+  labelBytes: number;
+  peakLabelBytes: number;
+  peakPairRate: number;
+  peakPairDomain?: string;
+  nxDomainRatio: number;
+  firstSeen: string;
+  lastSeen: string;
+  lastQueryId: string;
+  violations: AggregateViolation[];
+}
+
+export interface TrafficAggregates {
+  domains: DomainAggregate[];
+  sources: SourceAggregate[];
+}
+
+interface Event {
+  time: number;
+  log: DNSQuery;
+  domain: string;
+  subdomain: string;
+  bytes: number;
+}
+
+const toIso = (time: number): string => new Date(time).toISOString();
+
+const shannon = (counts: number[], total: number): number =>
+  counts.reduce((acc, c) => (c > 0 ? acc - (c / total) * Math.log2(c / total) : acc), 0);
+
+/**
+ * Peak number of distinct subdomains and peak label bytes within any window
+ */
+const windowPeaks = (events: Event[], windowMs: number) => {
+  const inWindow = new Map<string, number>();
+  let bytes = 0;
+  let start = 0;
+  let peakUnique = 0;
+  let peakUniqueAt = events[0].time;
+  let peakBytes = 0;
+  let peakBytesAt = events[0].time;
+
+  for (let end = 0; end < events.length; end++) {
+    const e = events[end];
+    if (e.subdomain) inWindow.set(e.subdomain, (inWindow.get(e.subdomain) ?? 0) + 1);
+    bytes += e.bytes;
+    while (events[start].time <= e.time - windowMs) {
+      const old = events[start++];
+      bytes -= old.bytes;
+      if (old.subdomain) {
+        const n = inWindow.get(old.subdomain)! - 1;
+        if (n === 0) inWindow.delete(old.subdomain);
+        else inWindow.set(old.subdomain, n);
+      }
+    }
+    if (inWindow.size > peakUnique) {
+      peakUnique = inWindow.size;
+      peakUniqueAt = events[start].time;
+    }
+    if (bytes > peakBytes) {
+      peakBytes = bytes;
+      peakBytesAt = events[start].time;
+    }
+  }
+  return { peakUnique, peakUniqueAt, peakBytes, peakBytesAt };
+};
+
+/**
+ * Peak queries in any one-minute window for a time-sorted event list
+ */
+const peakRate = (events: Event[]): { rate: number; at: number } => {
+  let start = 0;
+  let rate = 0;
+  let at = events[0]?.time ?? 0;
+  for (let end = 0; end < events.length; end++) {
+    while (events[start].time <= events[end].time - PAIR_RATE_WINDOW_MS) start++;
+    if (end - start + 1 > rate) {
+      rate = end - start + 1;
+      at = events[start].time;
+    }
+  }
+  return { rate, at };
+};
+
+/**
+ * Computes per-domain and per-source aggregates and flags those crossing the thresholds.
+ * Records with unparseable timestamps are ignored.
+ */
+export const aggregateTraffic = (logs: DNSQuery[], thresholds: AggregationThresholds = DEFAULT_AGGREGATION_THRESHOLDS): TrafficAggregates => {
+  const byDomain = new Map<string, Event[]>();
+  const bySource = new Map<string, Event[]>();
+
+  for (const log of logs) {
+    const time = Date.parse(log.timestamp);
+    if (isNaN(time)) continue;
+    const parts = log.registeredDomain === undefined ? splitDomain(log.query) : null;
+    const domain = log.registeredDomain ?? parts!.registeredDomain;
+    if (!domain) continue;
+    const subdomain = log.subdomain ?? parts?.subdomain ?? '';
+    const event: Event = { time, log, domain, subdomain, bytes: subdomain.replace(/\./g, '').length };
+
+    if (!byDomain.has(domain)) byDomain.set(domain, []);
+    byDomain.get(domain)!.push(event);
+    if (!bySource.has(log.sourceIp)) bySource.set(log.sourceIp, []);
+    bySource.get(log.sourceIp)!.push(event);
+  }
+
+  // Peak client→domain rates, shared by both views
+  const pairPeaks = new Map<string, { rate: number; at: number }>();
+  const pairEvents = new Map<string, Event[]>();
+  for (const events of byDomain.values()) {
+    for (const e of events) {
+      const key = `${e.log.sourceIp}|${e.domain}`;
+      if (!pairEvents.has(key)) pairEvents.set(key, []);
+      pairEvents.get(key)!.push(e);
+    }
+  }
+  for (const [key, events] of pairEvents) {
+    events.sort((a, b) => a.time - b.time);
+    pairPeaks.set(key, peakRate(events));
+  }
+
+  const domains: DomainAggregate[] = [];
+  for (const [registeredDomain, events] of byDomain) {
+    events.sort((a, b) => a.time - b.time);
+    const { peakUnique, peakUniqueAt, peakBytes, peakBytesAt } = windowPeaks(events, thresholds.windowMs);
+    const typeDistribution: Record<string, number> = {};
+    const sources = new Set<string>();
+    const subdomains = new Set<string>();
+    let labelBytes = 0;
+    let nx = 0;
+    for (const e of events) {
+      typeDistribution[e.log.type] = (typeDistribution[e.log.type] ?? 0) + 1;
+      sources.add(e.log.sourceIp);
+      if (e.subdomain) subdomains.add(e.subdomain);
+      labelBytes += e.bytes;
+      if (e.log.responseCode === 'NXDOMAIN') nx++;
+    }
+
+    let peakPairRate = 0;
+    let peakPairAt = events[0].time;
+    let peakPairSource: string | undefined;
+    for (const source of sources) {
+      const peak = pairPeaks.get(`${source}|${registeredDomain}`)!;
+      if (peak.rate > peakPairRate) {
+        peakPairRate = peak.rate;
+        peakPairAt = peak.at;
+        peakPairSource = source;
+      }
+    }
+
+    const unusual = UNUSUAL_TYPES.reduce((acc, t) => acc + (typeDistribution[t] ?? 0), 0) / events.length;
+    const violations: AggregateViolation[] = [];
+    if (peakUnique >= thresholds.uniqueSubdomainsPerWindow) {
+      violations.push({ metric: 'uniqueSubdomains', value: peakUnique, threshold: thresholds.uniqueSubdomainsPerWindow, at: toIso(peakUniqueAt) });
+    }
+    if (peakBytes >= thresholds.labelBytesPerWindow) {
+      violations.push({ metric: 'labelBytes', value: peakBytes, threshold: thresholds.labelBytesPerWindow, at: toIso(peakBytesAt) });
+    }
+    if (peakPairRate >= thresholds.pairQueriesPerMinute) {
+      violations.push({ metric: 'pairRate', value: peakPairRate, threshold: thresholds.pairQueriesPerMinute, at: toIso(peakPairAt), peer: peakPairSource });
+    }
+    if (events.length >= thresholds.minQueriesForTypeRatio && unusual >= thresholds.unusualTypeRatio) {
+      violations.push({ metric: 'typeRatio', value: parseFloat(unusual.toFixed(2)), threshold: thresholds.unusualTypeRatio, at: toIso(events[0].time) });
+    }
+
+    domains.push({
+      registeredDomain,
+      queries: events.length,
+      sources: sources.size,
+      uniqueSubdomains: subdomains.size,
+      peakUniqueSubdomains: peakUnique,
+      labelBytes,
+      peakLabelBytes: peakBytes,
+      peakPairRate,
+      peakPairSource,
+      typeDistribution,
+      typeSpread: parseFloat(shannon(Object.values(typeDistribution), events.length).toFixed(3)),
+      unusualTypeRatio: parseFloat(unusual.toFixed(3)),
+      nxDomainRatio: parseFloat((nx / events.length).toFixed(3)),
+      firstSeen: toIso(events[0].time),
+      lastSeen: toIso(events[events.length - 1].time),
+      lastQueryId: events[events.length - 1].log.id,
+      violations
+    });
+  }
+
+  const sources: SourceAggregate[] = [];
+  for (const [sourceIp, events] of bySource) {
+    events.sort((a, b) => a.time - b.time);
+    const { peakBytes, peakBytesAt } = windowPeaks(events, thresholds.windowMs);
+    const domainsSeen = new Set(events.map(e => e.domain));
+
+    let peakPairRate = 0;
+    let peakPairAt = events[0].time;
+    let peakPairDomain: string | undefined;
+    for (const domain of domainsSeen) {
+      const peak = pairPeaks.get(`${sourceIp}|${domain}`)!;
+      if (peak.rate > peakPairRate) {
+        peakPairRate = peak.rate;
+        peakPairAt = peak.at;
+        peakPairDomain = domain;
+      }
+    }
+
+    const violations: AggregateViolation[] = [];
+    if (peakBytes >= thresholds.labelBytesPerWindow) {
+      violations.push({ metric: 'labelBytes', value: peakBytes, threshold: thresholds.labelBytesPerWindow, at: toIso(peakBytesAt) });
+    }
+    if (peakPairRate >= thresholds.pairQueriesPerMinute) {
+      violations.push({ metric: 'pairRate', value: peakPairRate, threshold: thresholds.pairQueriesPerMinute, at: toIso(peakPairAt), peer: peakPairDomain });
+    }
+
+    sources.push({
+      sourceIp,
+      host: events.find(e => e.log.host)?.log.host,
+      queries: events.length,
+      domains: domainsSeen.size,
+      labelBytes: events.reduce((acc, e) => acc + e.bytes, 0),
+      peakLabelBytes: peakBytes,
+      peakPairRate,
+      peakPairDomain,
+      nxDomainRatio: parseFloat((events.filter(e => e.log.responseCode === 'NXDOMAIN').length / events.length).toFixed(3)),
+      firstSeen: toIso(events[0].time),
+      lastSeen: toIso(events[events.length - 1].time),
+      lastQueryId: events[events.length - 1].log.id,
+      violations
+    });
+  }
+
+  domains.sort((a, b) => b.violations.length - a.violations.length || b.peakUniqueSubdomains - a.peakUniqueSubdomains || b.queries - a.queries);
+  sources.sort((a, b) => b.violations.length - a.violations.length || b.peakLabelBytes - a.peakLabelBytes || b.queries - a.queries);
+  return { domains, sources };
+};
+
+const METRIC_LABELS: Record<AggregateMetric, string> = {
+  uniqueSubdomains: 'unique subdomains per window',
+  labelBytes: 'bytes encoded in labels per window',
+  pairRate: 'queries per minute from one client',
+  typeRatio: 'share of TXT/NULL/ANY queries'
+};
+
+/**
+ * Human-readable description of a threshold crossing
+ */
+export const describeViolation = (subject: string, v: AggregateViolation): string =>
+  `${subject}: ${v.value.toLocaleString()} ${METRIC_LABELS[v.metric]}${v.peer ? ` (${v.peer})` : ''} exceeds ${v.threshold.toLocaleString()}`;
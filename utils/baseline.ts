@@ -0,0 +1,213 @@
+import { DNSQuery } from '../types';
+import { splitDomain } from './publicSuffix';
+
+/**
+ * Per-host baselining. Each source's hourly query volume, distinct registered domains, qtype
+ * mix and active hours are learned over a training window that ends where the evaluation
+ * window starts; the evaluation window (the most recent hour of the loaded logs) is then
+ * tested against it. Counts are compared as z-scores with a Poisson floor on the spread, so
+ * a quiet host with a perfectly flat history does not alert on a handful of extra queries.
+ */
+
+export interface BaselineOptions {
+  bucketMs: number;
+  /** Most recent span of the logs, compared against the baseline */
+  evaluationWindowMs: number;
+  /** Span before the evaluation window that the baseline is learned from */
+  trainingWindowMs: number;
+  /** Training buckets (from the host's first query on) needed before a baseline is trusted */
+  minTrainingBuckets: number;
+  /** Deviation, in standard deviations, that counts as significant */
+  zThreshold: number;
+  /** Fewer queries than this never make an anomaly on their own */
+  minCount: number;
+}
+
+export const DEFAULT_BASELINE_OPTIONS: BaselineOptions = {
+  bucketMs: 60 * 60 * 1000,
+  evaluationWindowMs: 60 * 60 * 1000,
+  trainingWindowMs: 7 * 24 * 60 * 60 * 1000,
+  minTrainingBuckets: 24,
+  zThreshold: 4,
+  minCount: 20
+};
+
+export interface HostBaseline {
+  trainingBuckets: number;
+  /** Queries per bucket */
+  volume: { mean: number; std: number };
+  /** Distinct registered domains per bucket */
+  distinctDomains: { mean: number; std: number };
+  /** Share of queries per qtype */
+  qtypeMix: Record<string, number>;
+  /** Share of queries in each local hour of the day */
+  activeHours: number[];
+  trainedFrom: string;
+  trainedTo: string;
+}
+
+export interface HostActivity {
+  queries: number;
+  distinctDomains: number;
+  qtypes: Record<string, number>;
+  hours: number[];
+}
+
+export type HostAnomalyMetric = 'volume' | 'distinctDomains' | 'qtype' | 'offHours';
+
+export interface HostAnomaly {
+  metric: HostAnomalyMetric;
+  /** The qtype or hour the deviation concerns */
+  detail?: string;
+  observed: number;
+  expected: number;
+  zScore: number;
+}
+
+export interface HostProfile {
+  sourceIp: string;
+  host?: string;
+  /** Null while the host has too little history */
+  baseline: HostBaseline | null;
+  current: HostActivity;
+  anomalies: HostAnomaly[];
+  /** Queries per bucket over training and evaluation, oldest first */
+  hourly: { start: string; queries: number }[];
+  evaluationStart: string;
+  lastQueryId?: string;
+}
+
+const meanStd = (values: number[]) => {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const std = Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+  return { mean: parseFloat(mean.toFixed(2)), std: parseFloat(std.toFixed(2)) };
+};
+
+// Poisson floor: counts vary by at least their square root even when the history is flat
+const countZ = (observed: number, mean: number, std: number) =>
+  (observed - mean) / Math.max(std, Math.sqrt(mean), 1);
+
+// Binomial z for a category's count given its baseline share (add-one smoothed)
+const shareZ = (observed: number, total: number, share: number, categories: number, trainingTotal: number) => {
+  const p = (share * trainingTotal + 1) / (trainingTotal + categories);
+  const expected = total * p;
+  return { expected, z: (observed - expected) / Math.sqrt(Math.max(expected * (1 - p), 1)) };
+};
+
+const activity = (events: { log: DNSQuery; domain: string; time: number }[]): HostActivity => {
+  const qtypes: Record<string, number> = {};
+  const hours = new Array(24).fill(0);
+  for (const e of events) {
+    qtypes[e.log.type] = (qtypes[e.log.type] ?? 0) + 1;
+    hours[new Date(e.time).getHours()]++;
+  }
+  return { queries: events.length, distinctDomains: new Set(events.map(e => e.domain)).size, qtypes, hours };
+};
+
+const round = (n: number, digits = 2) => parseFloat(n.toFixed(digits));
+
+/**
+ * Baseline, current behaviour and significant deviations for every source, most anomalous first
+ */
+export const profileHosts = (logs: DNSQuery[], options: BaselineOptions = DEFAULT_BASELINE_OPTIONS): HostProfile[] => {
+  let latest = -Infinity;
+  const sources = new Map<string, { host?: string; events: { log: DNSQuery; domain: string; time: number }[] }>();
+  for (const log of logs) {
+    const time = Date.parse(log.timestamp);
+    if (isNaN(time)) continue;
+    latest = Math.max(latest, time);
+    if (!sources.has(log.sourceIp)) sources.set(log.sourceIp, { events: [] });
+    const source = sources.get(log.sourceIp)!;
+    source.host = source.host ?? log.host;
+    source.events.push({ log, domain: log.registeredDomain ?? splitDomain(log.query).registeredDomain, time });
+  }
+  if (sources.size === 0) return [];
+
+  // Windows are aligned to whole buckets so every training bucket covers the same span
+  const evaluationStart = Math.floor((latest - options.evaluationWindowMs) / options.bucketMs) * options.bucketMs + options.bucketMs;
+  const trainingStart = evaluationStart - options.trainingWindowMs;
+
+  const profiles: HostProfile[] = [];
+  for (const [sourceIp, { host, events }] of sources) {
+    events.sort((a, b) => a.time - b.time);
+    const training = events.filter(e => e.time >= trainingStart && e.time < evaluationStart);
+    const evaluation = events.filter(e => e.time >= evaluationStart);
+    const current = activity(evaluation);
+
+    // Buckets from the host's first training query on; earlier silence is not history
+    const firstBucket = training.length > 0 ? Math.floor(training[0].time / options.bucketMs) * options.bucketMs : evaluationStart;
+    const bucketCount = Math.round((evaluationStart - firstBucket) / options.bucketMs);
+    const volumes = new Array(bucketCount).fill(0);
+    const domainSets = Array.from({ length: bucketCount }, () => new Set<string>());
+    for (const e of training) {
+      const b = Math.floor((e.time - firstBucket) / options.bucketMs);
+      volumes[b]++;
+      domainSets[b].add(e.domain);
+    }
+    const hourly = volumes.map((queries, b) => ({ start: new Date(firstBucket + b * options.bucketMs).toISOString(), queries }));
+    hourly.push({ start: new Date(evaluationStart).toISOString(), queries: evaluation.length });
+
+    let baseline: HostBaseline | null = null;
+    const anomalies: HostAnomaly[] = [];
+    if (bucketCount >= options.minTrainingBuckets) {
+      const trained = activity(training);
+      baseline = {
+        trainingBuckets: bucketCount,
+        volume: meanStd(volumes),
+        distinctDomains: meanStd(domainSets.map(d => d.size)),
+        qtypeMix: Object.fromEntries(Object.entries(trained.qtypes).map(([t, n]) => [t, round(n / Math.max(1, training.length), 4)])),
+        activeHours: trained.hours.map(n => round(n / Math.max(1, training.length), 4)),
+        trainedFrom: new Date(firstBucket).toISOString(),
+        trainedTo: new Date(evaluationStart).toISOString()
+      };
+
+      const flag = (metric: HostAnomalyMetric, observed: number, expected: number, z: number, detail?: string) => {
+        if (z >= options.zThreshold && observed >= options.minCount) {
+          anomalies.push({ metric, detail, observed, expected: round(expected), zScore: round(z) });
+        }
+      };
+      // Scaled to the evaluation window, in case it is not one bucket long
+      const scale = options.evaluationWindowMs / options.bucketMs;
+      flag('volume', current.queries, baseline.volume.mean * scale, countZ(current.queries, baseline.volume.mean * scale, baseline.volume.std * scale));
+      flag('distinctDomains', current.distinctDomains, baseline.distinctDomains.mean * scale,
+        countZ(current.distinctDomains, baseline.distinctDomains.mean * scale, baseline.distinctDomains.std * scale));
+
+      const qtypes = new Set([...Object.keys(baseline.qtypeMix), ...Object.keys(current.qtypes)]);
+      for (const type of qtypes) {
+        const observed = current.qtypes[type] ?? 0;
+        const { expected, z } = shareZ(observed, current.queries, baseline.qtypeMix[type] ?? 0, qtypes.size, training.length);
+        flag('qtype', observed, expected, z, type);
+      }
+      current.hours.forEach((observed, hour) => {
+        if (observed === 0) return;
+        const { expected, z } = shareZ(observed, current.queries, baseline!.activeHours[hour], 24, training.length);
+        // Only hours the host is normally quiet in; a busier usual hour is a volume question
+        if (baseline!.activeHours[hour] < 1 / 48) flag('offHours', observed, expected, z, `${hour}:00`);
+      });
+    }
+
+    profiles.push({
+      sourceIp,
+      host,
+      baseline,
+      current,
+      anomalies: anomalies.sort((a, b) => b.zScore - a.zScore),
+      hourly: hourly.slice(-Math.ceil(options.trainingWindowMs / options.bucketMs) - 1),
+      evaluationStart: new Date(evaluationStart).toISOString(),
+      lastQueryId: evaluation[evaluation.length - 1]?.log.id
+    });
+  }
+
+  const strongest = (p: HostProfile) => p.anomalies[0]?.zScore ?? 0;
+  return profiles.sort((a, b) => strongest(b) - strongest(a) || b.current.queries - a.current.queries);
+};
+
+export const describeHostAnomaly = (profile: HostProfile, a: HostAnomaly): string => {
+  const subject = profile.host ? `${profile.host} (${profile.sourceIp})` : profile.sourceIp;
+  switch (a.metric) {
+    case 'volume': return `${subject} sent ${a.observed.toLocaleString()} queries in the last hour against a baseline of ${a.expected.toLocaleString()} (z = ${a.zScore})`;
+    case 'distinctDomains': return `${subject} queried ${a.observed.toLocaleString()} distinct domains in the last hour against a baseline of ${a.expected.toLocaleString()} (z = ${a.zScore})`;
+    case 'qtype': return `${subject} sent ${a.observed.toLocaleString()} ${a.detail} queries in the last hour where ${a.expected.toLocaleString()} were expected (z = ${a.zScore})`;
+    case 'offHours': return `${subject} sent ${a.observed.toLocaleString()} queries at ${a.detail}, an hour it is normally quiet in (z = ${a.zScore})`;
+  }
+};
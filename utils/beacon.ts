@@ -0,0 +1,166 @@
+import { DNSQuery } from '../types';
+import { splitDomain } from './publicSuffix';
+
+/**
+ * Beacon detection on query timing. Implants poll their controller on a fixed sleep with
+ * random jitter, and the queries themselves can be short and low-entropy (e.g. Cobalt Strike
+ * DNS stagers asking for A records), so content-based scoring misses them. For every
+ * (sourceIp, registered domain) pair the inter-arrival times are binned on a log scale; the
+ * densest bins give the period, and intervals that are whole multiples of it count as
+ * missed polls rather than noise.
+ */
+
+export interface BeaconOptions {
+  /** Queries closer together than this are one callback */
+  burstMs: number;
+  minIntervals: number;
+  /** Intervals at which a pair counts as fully sampled */
+  fullConfidenceIntervals: number;
+  minPeriodMs: number;
+  maxPeriodMs: number;
+  /** Relative histogram bin width */
+  binWidth: number;
+  /** Allowed deviation from a multiple of the period, as a fraction of the period */
+  tolerance: number;
+  /** Jitter (coefficient of variation) at which confidence drops to zero */
+  maxJitter: number;
+  minConfidence: number;
+}
+
+export const DEFAULT_BEACON_OPTIONS: BeaconOptions = {
+  burstMs: 1000,
+  minIntervals: 6,
+  fullConfidenceIntervals: 20,
+  minPeriodMs: 2000,
+  maxPeriodMs: 6 * 60 * 60 * 1000,
+  binWidth: 0.1,
+  tolerance: 0.25,
+  maxJitter: 1,
+  minConfidence: 0.6
+};
+
+export interface BeaconCandidate {
+  sourceIp: string;
+  registeredDomain: string;
+  host?: string;
+  queries: number;
+  callbacks: number;
+  /** Estimated sleep between callbacks, in seconds */
+  period: number;
+  /** Spread of the on-period intervals relative to the period (0.2 = ±20%) */
+  jitter: number;
+  /** Share of intervals that are the period or a multiple of it */
+  regularity: number;
+  confidence: number;
+  firstSeen: string;
+  lastSeen: string;
+  lastQueryId: string;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Period, jitter and confidence for one series of callback times, or null if it is not periodic
+ */
+export const analyzePeriodicity = (times: number[], options: BeaconOptions = DEFAULT_BEACON_OPTIONS) => {
+  const intervals: number[] = [];
+  for (let i = 1; i < times.length; i++) intervals.push(times[i] - times[i - 1]);
+  if (intervals.length < options.minIntervals) return null;
+
+  // Interval histogram on a log scale, so the bin width scales with the period
+  const binOf = (ms: number) => Math.round(Math.log(ms) / Math.log(1 + options.binWidth));
+  const bins = new Map<number, number>();
+  for (const ms of intervals) bins.set(binOf(ms), (bins.get(binOf(ms)) ?? 0) + 1);
+
+  // Densest three adjacent bins absorb the jitter around the true period
+  let modeBin = 0;
+  let modeCount = 0;
+  for (const bin of bins.keys()) {
+    const count = (bins.get(bin - 1) ?? 0) + bins.get(bin)! + (bins.get(bin + 1) ?? 0);
+    if (count > modeCount || (count === modeCount && bin < modeBin)) {
+      modeBin = bin;
+      modeCount = count;
+    }
+  }
+  const cluster = intervals.filter(ms => Math.abs(binOf(ms) - modeBin) <= 1);
+  const period = median(cluster);
+  if (period < options.minPeriodMs || period > options.maxPeriodMs) return null;
+
+  let aligned = 0;
+  const onPeriod: number[] = [];
+  for (const ms of intervals) {
+    const multiple = Math.round(ms / period);
+    if (multiple < 1 || Math.abs(ms - multiple * period) > options.tolerance * period) continue;
+    if (multiple === 1) {
+      aligned++;
+      onPeriod.push(ms);
+    } else {
+      // A missed poll: still periodic, but weaker evidence
+      aligned += 0.5;
+    }
+  }
+  if (onPeriod.length < 2) return null;
+
+  const mean = onPeriod.reduce((a, b) => a + b, 0) / onPeriod.length;
+  const jitter = Math.sqrt(onPeriod.reduce((acc, ms) => acc + (ms - mean) ** 2, 0) / onPeriod.length) / period;
+  const regularity = aligned / intervals.length;
+  const sampling = Math.min(1, intervals.length / options.fullConfidenceIntervals);
+  const confidence = regularity * Math.max(0, 1 - jitter / options.maxJitter) * sampling;
+
+  return {
+    period: parseFloat((period / 1000).toFixed(1)),
+    jitter: parseFloat(jitter.toFixed(3)),
+    regularity: parseFloat(regularity.toFixed(3)),
+    confidence: parseFloat(confidence.toFixed(3))
+  };
+};
+
+/**
+ * Finds periodic (sourceIp, registered domain) pairs, most confident first
+ */
+export const detectBeacons = (logs: DNSQuery[], options: BeaconOptions = DEFAULT_BEACON_OPTIONS): BeaconCandidate[] => {
+  const pairs = new Map<string, { sourceIp: string; registeredDomain: string; events: { time: number; log: DNSQuery }[] }>();
+
+  for (const log of logs) {
+    const time = Date.parse(log.timestamp);
+    if (isNaN(time)) continue;
+    const registeredDomain = log.registeredDomain ?? splitDomain(log.query).registeredDomain;
+    if (!registeredDomain) continue;
+    const key = `${log.sourceIp}|${registeredDomain}`;
+    if (!pairs.has(key)) pairs.set(key, { sourceIp: log.sourceIp, registeredDomain, events: [] });
+    pairs.get(key)!.events.push({ time, log });
+  }
+
+  const beacons: BeaconCandidate[] = [];
+  for (const { sourceIp, registeredDomain, events } of pairs.values()) {
+    if (events.length <= options.minIntervals) continue;
+    events.sort((a, b) => a.time - b.time);
+
+    const callbacks: number[] = [];
+    for (const e of events) {
+      if (callbacks.length === 0 || e.time - callbacks[callbacks.length - 1] > options.burstMs) callbacks.push(e.time);
+    }
+
+    const result = analyzePeriodicity(callbacks, options);
+    if (!result || result.confidence < options.minConfidence) continue;
+
+    const last = events[events.length - 1].log;
+    beacons.push({
+      sourceIp,
+      registeredDomain,
+      host: events.find(e => e.log.host)?.log.host,
+      queries: events.length,
+      callbacks: callbacks.length,
+      ...result,
+      firstSeen: new Date(events[0].time).toISOString(),
+      lastSeen: new Date(events[events.length - 1].time).toISOString(),
+      lastQueryId: last.id
+    });
+  }
+
+  return beacons.sort((a, b) => b.confidence - a.confidence);
+};
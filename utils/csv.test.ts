@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { CsvMapping } from '../types';
+import { DEFAULT_RULES, setActiveRules } from './rules';
+import { lastRecordBoundary, parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  afterEach(() => setActiveRules(DEFAULT_RULES));
+
+  it('scores rows with their metadata columns in place', () => {
+    setActiveRules([
+      { id: 'action-blocked', name: 'Blocked by the proxy', enabled: true, when: { all: [{ field: 'metadata.action', op: 'eq', value: 'blocked' }] }, weight: 40 }
+    ]);
+    const mapping: CsvMapping = {
+      delimiter: ',',
+      hasHeader: true,
+      columns: [{ target: 'query' }, { target: 'metadata', metadataKey: 'action' }]
+    };
+    const { queries } = parseCsv('query,action\nallowed.example.com,allowed\nblocked.example.com,blocked\n', mapping);
+    expect(queries.map(q => [q.query, q.metadata?.action, q.threatScore])).toEqual([
+      ['allowed.example.com', 'allowed', 0],
+      ['blocked.example.com', 'blocked', 40]
+    ]);
+  });
+});
+
+describe('lastRecordBoundary', () => {
+  it('keeps a quote inside a field literal', () => {
+    const content = 'ts,src,query\n1,10.0.0.1,we"ird.example.com\n2,10.0.0.2,ok.example.com\n';
+    expect(lastRecordBoundary(content)).toBe(content.length);
+  });
+
+  it('does not cut inside a quoted line break', () => {
+    expect(lastRecordBoundary('a,"multi\nline",b\nc,"open\n')).toBe(17);
+  });
+});
@@ -0,0 +1,260 @@
+import { CsvColumnMapping, CsvField, CsvMapping, DNSQuery, ParseError } from '../types';
+import { normalizeDNSQuery } from './forensics';
+
+/**
+ * RFC 4180 delimited-text import: quoted fields may contain delimiters, line breaks
+ * and doubled quotes. Columns are assigned to DNSQuery fields through a CsvMapping,
+ * either inferred from the header row or chosen in the import wizard.
+ */
+
+export const CSV_FIELDS: CsvField[] = ['timestamp', 'sourceIp', 'query', 'type', 'responseCode', 'answers', 'ttls', 'responseSize', 'truncated', 'uid', 'process', 'processId', 'host'];
+
+export const CSV_DELIMITERS = [',', '\t', ';', '|'];
+
+// Column order assumed for header-less files
+const DEFAULT_COLUMN_ORDER: CsvField[] = ['timestamp', 'sourceIp', 'query', 'type', 'responseCode'];
+
+// Normalised header names (lowercase, punctuation stripped) recognised for each field
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  timestamp: ['timestamp', 'time', 'ts', 'date', 'datetime', 'eventtime', 'utctime', 'querytime'],
+  sourceIp: ['sourceip', 'srcip', 'src', 'clientip', 'client', 'ip', 'idorigh', 'sourceaddress', 'clientaddress'],
+  query: ['query', 'domain', 'qname', 'question', 'queryname', 'fqdn', 'name', 'hostname'],
+  type: ['type', 'qtype', 'qtypename', 'querytype', 'recordtype', 'rrtype'],
+  responseCode: ['responsecode', 'rcode', 'rcodename', 'status', 'response', 'result'],
+  answers: ['answers', 'answer', 'rdata', 'queryresults', 'resolvedips'],
+  ttls: ['ttls', 'ttl'],
+  responseSize: ['responsesize', 'responsebytes', 'respsize', 'replysize', 'bytes'],
+  truncated: ['truncated', 'tc'],
+  uid: ['uid', 'transactionid', 'connid'],
+  process: ['process', 'image', 'processname', 'processpath'],
+  processId: ['processid', 'pid'],
+  host: ['host', 'computer', 'computername', 'device', 'devicename', 'agent']
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export interface DelimitedRecord {
+  fields: string[];
+  /** 1-based line on which the record starts */
+  line: number;
+}
+
+/**
+ * Splits delimited text into records. Blank lines are skipped; a quote that does not
+ * open a field is kept literally rather than rejected.
+ */
+export const parseDelimited = (content: string, delimiter: string): DelimitedRecord[] => {
+  const records: DelimitedRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldStarted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    fieldStarted = false;
+  };
+  const endRecord = () => {
+    endField();
+    if (fields.length > 1 || fields[0].trim() !== '') records.push({ fields, line: recordLine });
+    fields = [];
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (inQuotes) {
+      if (c === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (c === '\n') line++;
+        field += c;
+      }
+      continue;
+    }
+
+    if (c === '"' && !fieldStarted) {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (content.startsWith(delimiter, i)) {
+      endField();
+      i += delimiter.length - 1;
+    } else if (c === '\r' || c === '\n') {
+      if (c === '\r' && content[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += c;
+      fieldStarted = true;
+    }
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+
+  return records;
+};
+
+const isCommentRecord = (record: DelimitedRecord): boolean => record.fields[0].trimStart().startsWith('#');
+
+/**
+ * Returns the offset just past the last complete record, honouring quoted line breaks.
+ * Quotes are read as `parseDelimited` reads them: only one at the start of a field opens
+ * a quoted section. `content` must start at a record boundary.
+ */
+export const lastRecordBoundary = (content: string, delimiter = ','): number => {
+  let inQuotes = false;
+  let fieldStarted = false;
+  let boundary = 0;
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (inQuotes) {
+      if (c === '"') {
+        if (content[i + 1] === '"') i++;
+        else inQuotes = false;
+      }
+      continue;
+    }
+
+    if (c === '"' && !fieldStarted) {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (content.startsWith(delimiter, i)) {
+      fieldStarted = false;
+      i += delimiter.length - 1;
+    } else if (c === '\r' || c === '\n') {
+      fieldStarted = false;
+      if (c === '\n') boundary = i + 1;
+    } else {
+      fieldStarted = true;
+    }
+  }
+  return boundary;
+};
+
+/**
+ * Picks the delimiter that splits the sample into the most columns, consistently across rows
+ */
+export const sniffDelimiter = (sample: string): string => {
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const rows = parseDelimited(sample, delimiter).slice(0, 20);
+    if (rows.length === 0) continue;
+    const width = rows[0].fields.length;
+    if (width < 2) continue;
+    const consistent = rows.filter(r => r.fields.length === width).length / rows.length;
+    const score = width * consistent;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Guesses whether the first row is a header rather than data
+ */
+export const hasCsvHeader = (firstLine: string, delimiter = ','): boolean => {
+  const likelyHeaders = ['query', 'domain', 'qname', 'ip', 'src', 'timestamp', 'time'];
+  return firstLine.split(delimiter)
+    .map(h => h.trim().replace(/^["']|["']$/g, '').toLowerCase())
+    .some(h => likelyHeaders.some(lh => h.includes(lh)));
+};
+
+/**
+ * Assigns columns to fields by header name; unrecognised columns go to metadata.
+ * Without a header the legacy timestamp, sourceIp, query, type, responseCode order is assumed.
+ */
+export const guessCsvColumns = (header: string[] | null, columnCount: number): CsvColumnMapping[] => {
+  const used = new Set<CsvField>();
+  const columns: CsvColumnMapping[] = [];
+
+  for (let i = 0; i < columnCount; i++) {
+    if (!header) {
+      const field = DEFAULT_COLUMN_ORDER[i];
+      columns.push(field ? { target: field } : { target: 'metadata', metadataKey: `column${i + 1}` });
+      continue;
+    }
+    const name = normalizeHeader(header[i] ?? '');
+    const field = CSV_FIELDS.find(f => !used.has(f) && HEADER_ALIASES[f].includes(name));
+    if (field) {
+      used.add(field);
+      columns.push({ target: field });
+    } else {
+      columns.push({ target: 'metadata', metadataKey: header[i]?.trim() || `column${i + 1}` });
+    }
+  }
+  return columns;
+};
+
+/**
+ * Builds a mapping for content with no user-supplied one
+ */
+export const inferCsvMapping = (sample: string): CsvMapping => {
+  const delimiter = sniffDelimiter(sample);
+  const records = parseDelimited(sample, delimiter)
+    .filter(r => !isCommentRecord(r))
+    .slice(0, 20);
+  const hasHeader = records.length > 0 && hasCsvHeader(records[0].fields.join(delimiter), delimiter);
+  const columnCount = Math.max(0, ...records.map(r => r.fields.length));
+  return { delimiter, hasHeader, columns: guessCsvColumns(hasHeader ? records[0].fields : null, columnCount) };
+};
+
+const splitList = (value: string): string[] => value.split(/[;,|]/).map(v => v.trim()).filter(Boolean);
+
+/**
+ * Converts delimited content to queries using the given column mapping.
+ * Rows whose query column is empty are reported as errors.
+ */
+export const parseCsv = (content: string, mapping: CsvMapping): { queries: DNSQuery[]; errors: ParseError[] } => {
+  const queries: DNSQuery[] = [];
+  const errors: ParseError[] = [];
+  const records = parseDelimited(content, mapping.delimiter).filter(r => !isCommentRecord(r));
+  const dataRecords = mapping.hasHeader ? records.slice(1) : records;
+
+  dataRecords.forEach(({ fields, line }) => {
+    const data: Record<string, any> = {};
+    const metadata: Record<string, any> = {};
+
+    fields.forEach((raw, i) => {
+      const column = mapping.columns[i];
+      const value = raw.trim();
+      if (!column || column.target === 'ignore' || value === '') return;
+      switch (column.target) {
+        case 'metadata':
+          metadata[column.metadataKey || `column${i + 1}`] = value;
+          break;
+        case 'answers':
+          data.answers = splitList(value);
+          break;
+        case 'ttls':
+          data.ttls = splitList(value).map(Number).filter(n => !isNaN(n));
+          break;
+        case 'processId': {
+          const pid = parseInt(value, 10);
+          if (!isNaN(pid)) data.processId = pid;
+          break;
+        }
+        default:
+          data[column.target] = value;
+      }
+    });
+
+    if (!data.query) {
+      errors.push({ line, content: fields.join(mapping.delimiter), reason: 'Row has no query column' });
+      return;
+    }
+    // Extra columns are in place before scoring, so metadata.<key> rule conditions see them
+    queries.push(normalizeDNSQuery({ ...data, metadata }));
+  });
+
+  return { queries, errors };
+};
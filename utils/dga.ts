@@ -0,0 +1,161 @@
+import { DNSQuery } from '../types';
+import { ngramLikelihood } from './lexical';
+import { splitDomain } from './publicSuffix';
+
+/**
+ * Domain Generation Algorithm detection. Malware that derives its rendezvous domains from
+ * the date or a seed tries hundreds of them until one resolves, so an infected host shows up
+ * as bursts of NXDOMAIN answers for registered domains nobody would type. Each registered
+ * domain gets a lexical DGA probability; the burst correlator then looks for hosts whose
+ * failed lookups are both numerous and mostly random-looking within a short window.
+ */
+
+/**
+ * Logistic model over the second-level label, tuned against popular registered domains and
+ * random-character DGA families (Conficker, CryptoLocker, Gameover Zeus style names).
+ * Dictionary-word DGAs read like language and are out of scope.
+ */
+const DGA_MODEL = {
+  intercept: -4.2,
+  /** Per unit of bigram log-likelihood below -1.2 */
+  bigram: 7.5,
+  /** Per character beyond 8 */
+  length: 0.18,
+  digitRatio: 3.5,
+  /** Per consonant in the longest consonant run beyond 3 */
+  consonantRun: 0.7,
+  /** Labels shorter than this are too short to judge */
+  minLength: 6
+};
+
+const VOWELS = /[aeiouy]/;
+
+const longestConsonantRun = (label: string): number => {
+  let longest = 0;
+  let run = 0;
+  for (const c of label) {
+    run = c >= 'a' && c <= 'z' && !VOWELS.test(c) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+};
+
+/**
+ * Probability (0-1) that a registered domain was machine-generated
+ */
+export const scoreDga = (registeredDomain: string, publicSuffix: string): number => {
+  const label = registeredDomain.slice(0, registeredDomain.length - publicSuffix.length).replace(/\.$/, '').toLowerCase();
+  // Punycode names are encoded by design, not by an algorithm
+  if (label.length < DGA_MODEL.minLength || label.startsWith('xn--')) return 0;
+
+  const parts = label.split('-').filter(Boolean);
+  const digits = label.replace(/[^0-9]/g, '').length;
+  const z = DGA_MODEL.intercept
+    + DGA_MODEL.bigram * Math.max(0, -1.2 - ngramLikelihood(parts, 2))
+    + DGA_MODEL.length * Math.max(0, label.length - 8)
+    + DGA_MODEL.digitRatio * (digits / label.length)
+    + DGA_MODEL.consonantRun * Math.max(0, longestConsonantRun(label) - 3);
+  return parseFloat((1 / (1 + Math.exp(-z))).toFixed(3));
+};
+
+export interface NxdomainBurstOptions {
+  windowMs: number;
+  /** NXDOMAIN answers for distinct registered domains needed within one window */
+  minDistinctDomains: number;
+  /** DGA probability at which a domain counts as generated */
+  dgaThreshold: number;
+  /** Share of a burst's domains that must look generated */
+  minDgaRatio: number;
+}
+
+export const DEFAULT_NXDOMAIN_BURST_OPTIONS: NxdomainBurstOptions = {
+  windowMs: 5 * 60 * 1000,
+  minDistinctDomains: 10,
+  dgaThreshold: 0.7,
+  minDgaRatio: 0.5
+};
+
+export interface NxdomainBurst {
+  /** Host name when the log names one, otherwise the source IP */
+  host: string;
+  sourceIp: string;
+  nxdomains: number;
+  distinctDomains: number;
+  dgaDomains: number;
+  dgaRatio: number;
+  /** A few of the generated-looking domains, highest probability first */
+  samples: string[];
+  start: string;
+  end: string;
+  lastQueryId: string;
+}
+
+/**
+ * Finds, for every host, the window with the most distinct NXDOMAIN registered domains and
+ * reports it when enough of them look generated. Strongest bursts first.
+ */
+export const detectNxdomainBursts = (logs: DNSQuery[], options: NxdomainBurstOptions = DEFAULT_NXDOMAIN_BURST_OPTIONS): NxdomainBurst[] => {
+  const hosts = new Map<string, { sourceIp: string; events: { time: number; domain: string; dgaScore: number; log: DNSQuery }[] }>();
+
+  for (const log of logs) {
+    if (log.responseCode !== 'NXDOMAIN') continue;
+    const time = Date.parse(log.timestamp);
+    if (isNaN(time)) continue;
+    const parts = log.registeredDomain !== undefined && log.publicSuffix !== undefined
+      ? { registeredDomain: log.registeredDomain, publicSuffix: log.publicSuffix }
+      : splitDomain(log.query);
+    if (!parts.registeredDomain) continue;
+    const key = log.host ?? log.sourceIp;
+    if (!hosts.has(key)) hosts.set(key, { sourceIp: log.sourceIp, events: [] });
+    hosts.get(key)!.events.push({
+      time,
+      domain: parts.registeredDomain,
+      dgaScore: log.dgaScore ?? scoreDga(parts.registeredDomain, parts.publicSuffix),
+      log
+    });
+  }
+
+  const bursts: NxdomainBurst[] = [];
+  for (const [host, { sourceIp, events }] of hosts) {
+    if (events.length < options.minDistinctDomains) continue;
+    events.sort((a, b) => a.time - b.time);
+
+    // Sliding window, counting each registered domain once
+    const counts = new Map<string, number>();
+    let best: { from: number; to: number; distinct: number } | null = null;
+    let from = 0;
+    for (let to = 0; to < events.length; to++) {
+      counts.set(events[to].domain, (counts.get(events[to].domain) ?? 0) + 1);
+      while (events[to].time - events[from].time > options.windowMs) {
+        const left = events[from].domain;
+        if (counts.get(left) === 1) counts.delete(left);
+        else counts.set(left, counts.get(left)! - 1);
+        from++;
+      }
+      if (!best || counts.size > best.distinct) best = { from, to, distinct: counts.size };
+    }
+    if (!best || best.distinct < options.minDistinctDomains) continue;
+
+    const window = events.slice(best.from, best.to + 1);
+    const scores = new Map<string, number>();
+    for (const e of window) scores.set(e.domain, e.dgaScore);
+    const generated = Array.from(scores).filter(([, score]) => score >= options.dgaThreshold).sort((a, b) => b[1] - a[1]);
+    const dgaRatio = generated.length / scores.size;
+    if (dgaRatio < options.minDgaRatio) continue;
+
+    bursts.push({
+      host,
+      sourceIp,
+      nxdomains: window.length,
+      distinctDomains: scores.size,
+      dgaDomains: generated.length,
+      dgaRatio: parseFloat(dgaRatio.toFixed(3)),
+      samples: generated.slice(0, 5).map(([domain]) => domain),
+      start: new Date(window[0].time).toISOString(),
+      end: new Date(window[window.length - 1].time).toISOString(),
+      lastQueryId: window[window.length - 1].log.id
+    });
+  }
+
+  return bursts.sort((a, b) => b.dgaDomains - a.dgaDomains);
+};
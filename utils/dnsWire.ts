@@ -0,0 +1,277 @@
+/**
+ * DNS wire-format (RFC 1035) message decoder.
+ * Shared by every binary ingest path that carries raw DNS messages.
+ */
+
+export interface DNSQuestion {
+  name: string;
+  type: string;
+  qclass: number;
+}
+
+export interface DNSResourceRecord {
+  name: string;
+  type: string;
+  rclass: number;
+  ttl: number;
+  data: string;
+}
+
+export interface EDNSInfo {
+  udpPayloadSize: number;
+  version: number;
+  dnssecOk: boolean;
+}
+
+export interface DNSMessage {
+  id: number;
+  isResponse: boolean;
+  opcode: number;
+  authoritative: boolean;
+  truncated: boolean;
+  recursionDesired: boolean;
+  rcode: string;
+  questions: DNSQuestion[];
+  answers: DNSResourceRecord[];
+  authorities: DNSResourceRecord[];
+  additionals: DNSResourceRecord[];
+  edns?: EDNSInfo;
+  size: number;
+}
+
+const RR_TYPES: Record<number, string> = {
+  1: 'A', 2: 'NS', 5: 'CNAME', 6: 'SOA', 10: 'NULL', 11: 'WKS', 12: 'PTR', 13: 'HINFO',
+  15: 'MX', 16: 'TXT', 17: 'RP', 18: 'AFSDB', 24: 'SIG', 25: 'KEY', 28: 'AAAA', 29: 'LOC',
+  33: 'SRV', 35: 'NAPTR', 36: 'KX', 37: 'CERT', 39: 'DNAME', 41: 'OPT', 42: 'APL', 43: 'DS',
+  44: 'SSHFP', 45: 'IPSECKEY', 46: 'RRSIG', 47: 'NSEC', 48: 'DNSKEY', 49: 'DHCID',
+  50: 'NSEC3', 51: 'NSEC3PARAM', 52: 'TLSA', 53: 'SMIMEA', 59: 'CDS', 60: 'CDNSKEY',
+  61: 'OPENPGPKEY', 62: 'CSYNC', 63: 'ZONEMD', 64: 'SVCB', 65: 'HTTPS', 99: 'SPF',
+  249: 'TKEY', 250: 'TSIG', 251: 'IXFR', 252: 'AXFR', 255: 'ANY', 256: 'URI', 257: 'CAA',
+  65399: 'PRIVATE'
+};
+
+const RCODES: Record<number, string> = {
+  0: 'NOERROR', 1: 'FORMERR', 2: 'SERVFAIL', 3: 'NXDOMAIN', 4: 'NOTIMP', 5: 'REFUSED',
+  6: 'YXDOMAIN', 7: 'YXRRSET', 8: 'NXRRSET', 9: 'NOTAUTH', 10: 'NOTZONE', 16: 'BADVERS',
+  17: 'BADKEY', 18: 'BADTIME', 19: 'BADMODE', 20: 'BADNAME', 21: 'BADALG', 22: 'BADTRUNC',
+  23: 'BADCOOKIE'
+};
+
+/**
+ * Maps a numeric RR type to its mnemonic, falling back to the RFC 3597 `TYPEnnn` form
+ */
+export const rrTypeName = (code: number): string => RR_TYPES[code] ?? `TYPE${code}`;
+
+/**
+ * Maps a numeric (possibly EDNS-extended) response code to its mnemonic
+ */
+export const rcodeName = (code: number): string => RCODES[code] ?? `RCODE${code}`;
+
+export class DNSDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DNSDecodeError';
+  }
+}
+
+const MAX_POINTER_HOPS = 64;
+
+/**
+ * Reads a possibly compressed domain name starting at `offset`.
+ * Returns the name and the offset just past it in the original stream.
+ */
+const readName = (bytes: Uint8Array, offset: number, end: number): { name: string; next: number } => {
+  const labels: string[] = [];
+  let pos = offset;
+  let next = -1;
+  let hops = 0;
+
+  while (true) {
+    if (pos >= end) throw new DNSDecodeError('Name runs past end of message');
+    const len = bytes[pos];
+
+    if ((len & 0xc0) === 0xc0) {
+      if (pos + 1 >= end) throw new DNSDecodeError('Truncated compression pointer');
+      if (++hops > MAX_POINTER_HOPS) throw new DNSDecodeError('Compression pointer loop');
+      if (next < 0) next = pos + 2;
+      pos = ((len & 0x3f) << 8) | bytes[pos + 1];
+      continue;
+    }
+    if ((len & 0xc0) !== 0) throw new DNSDecodeError(`Unsupported label type 0x${len.toString(16)}`);
+
+    pos += 1;
+    if (len === 0) break;
+    if (pos + len > end) throw new DNSDecodeError('Label runs past end of message');
+
+    let label = '';
+    for (let i = pos; i < pos + len; i++) {
+      const c = bytes[i];
+      // Escape dots and non-printables so one label never reads as two
+      if (c === 0x2e || c === 0x5c) label += '\\' + String.fromCharCode(c);
+      else if (c > 0x20 && c < 0x7f) label += String.fromCharCode(c);
+      else label += '\\' + c.toString().padStart(3, '0');
+    }
+    labels.push(label);
+    pos += len;
+  }
+
+  return { name: labels.join('.'), next: next < 0 ? pos : next };
+};
+
+export const formatIPv4 = (bytes: Uint8Array, offset: number): string =>
+  `${bytes[offset]}.${bytes[offset + 1]}.${bytes[offset + 2]}.${bytes[offset + 3]}`;
+
+export const formatIPv6 = (bytes: Uint8Array, offset: number): string => {
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) groups.push((bytes[offset + i] << 8) | bytes[offset + i + 1]);
+
+  // Collapse the longest run of zero groups (RFC 5952)
+  let bestStart = -1, bestLen = 0;
+  for (let i = 0; i < 8; i++) {
+    if (groups[i] !== 0) continue;
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLen && j - i > 1) { bestStart = i; bestLen = j - i; }
+    i = j;
+  }
+
+  const hex = groups.map(g => g.toString(16));
+  if (bestStart < 0) return hex.join(':');
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLen).join(':')}`;
+};
+
+const toHex = (bytes: Uint8Array, start: number, end: number): string => {
+  let out = '';
+  for (let i = start; i < end; i++) out += bytes[i].toString(16).padStart(2, '0');
+  return out;
+};
+
+const readCharacterStrings = (bytes: Uint8Array, start: number, end: number): string => {
+  const parts: string[] = [];
+  let pos = start;
+  while (pos < end) {
+    const len = bytes[pos++];
+    let s = '';
+    for (let i = pos; i < Math.min(pos + len, end); i++) s += String.fromCharCode(bytes[i]);
+    parts.push(s);
+    pos += len;
+  }
+  return parts.join('');
+};
+
+/**
+ * Renders RDATA into a presentation-format string.
+ * Unknown types are rendered as hex so their payload is still inspectable.
+ */
+const readRData = (bytes: Uint8Array, type: string, start: number, rdlength: number, end: number): string => {
+  const rdEnd = start + rdlength;
+  switch (type) {
+    case 'A':
+      return rdlength === 4 ? formatIPv4(bytes, start) : toHex(bytes, start, rdEnd);
+    case 'AAAA':
+      return rdlength === 16 ? formatIPv6(bytes, start) : toHex(bytes, start, rdEnd);
+    case 'CNAME':
+    case 'NS':
+    case 'PTR':
+    case 'DNAME':
+      return readName(bytes, start, end).name;
+    case 'MX': {
+      const pref = (bytes[start] << 8) | bytes[start + 1];
+      return `${pref} ${readName(bytes, start + 2, end).name}`;
+    }
+    case 'SRV': {
+      const view = new DataView(bytes.buffer, bytes.byteOffset + start, 6);
+      const target = readName(bytes, start + 6, end).name;
+      return `${view.getUint16(0)} ${view.getUint16(2)} ${view.getUint16(4)} ${target}`;
+    }
+    case 'SOA': {
+      const mname = readName(bytes, start, end);
+      const rname = readName(bytes, mname.next, end);
+      const view = new DataView(bytes.buffer, bytes.byteOffset + rname.next, 20);
+      const nums = [0, 4, 8, 12, 16].map(o => view.getUint32(o));
+      return `${mname.name} ${rname.name} ${nums.join(' ')}`;
+    }
+    case 'TXT':
+    case 'SPF':
+      return readCharacterStrings(bytes, start, rdEnd);
+    default:
+      return toHex(bytes, start, rdEnd);
+  }
+};
+
+/**
+ * Decodes a single DNS message.
+ * `bytes` may be a view into a larger buffer (e.g. a UDP payload inside a frame);
+ * compression pointers are resolved relative to the start of the view.
+ */
+export const decodeDNSMessage = (bytes: Uint8Array): DNSMessage => {
+  const end = bytes.length;
+  if (end < 12) throw new DNSDecodeError('Message shorter than DNS header');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const id = view.getUint16(0);
+  const flags = view.getUint16(2);
+  const counts = [view.getUint16(4), view.getUint16(6), view.getUint16(8), view.getUint16(10)];
+
+  let pos = 12;
+  const questions: DNSQuestion[] = [];
+  for (let i = 0; i < counts[0]; i++) {
+    const { name, next } = readName(bytes, pos, end);
+    if (next + 4 > end) throw new DNSDecodeError('Truncated question');
+    questions.push({ name, type: rrTypeName(view.getUint16(next)), qclass: view.getUint16(next + 2) });
+    pos = next + 4;
+  }
+
+  const readSection = (count: number): DNSResourceRecord[] => {
+    const records: DNSResourceRecord[] = [];
+    for (let i = 0; i < count; i++) {
+      const { name, next } = readName(bytes, pos, end);
+      if (next + 10 > end) throw new DNSDecodeError('Truncated resource record');
+      const typeCode = view.getUint16(next);
+      const type = rrTypeName(typeCode);
+      const rclass = view.getUint16(next + 2);
+      const ttl = view.getUint32(next + 4);
+      const rdlength = view.getUint16(next + 8);
+      const rdStart = next + 10;
+      if (rdStart + rdlength > end) throw new DNSDecodeError('RDATA runs past end of message');
+      // OPT pseudo-records carry EDNS metadata, not presentation data
+      const data = type === 'OPT' ? '' : readRData(bytes, type, rdStart, rdlength, end);
+      records.push({ name, type, rclass, ttl, data });
+      pos = rdStart + rdlength;
+    }
+    return records;
+  };
+
+  const answers = readSection(counts[1]);
+  const authorities = readSection(counts[2]);
+  const additionals = readSection(counts[3]);
+
+  let rcode = flags & 0x000f;
+  let edns: EDNSInfo | undefined;
+  const opt = additionals.find(rr => rr.type === 'OPT');
+  if (opt) {
+    // For OPT the class field is the UDP payload size and the TTL packs ext-rcode/version/DO
+    rcode |= ((opt.ttl >>> 24) & 0xff) << 4;
+    edns = {
+      udpPayloadSize: opt.rclass,
+      version: (opt.ttl >>> 16) & 0xff,
+      dnssecOk: (opt.ttl & 0x8000) !== 0
+    };
+  }
+
+  return {
+    id,
+    isResponse: (flags & 0x8000) !== 0,
+    opcode: (flags >>> 11) & 0x0f,
+    authoritative: (flags & 0x0400) !== 0,
+    truncated: (flags & 0x0200) !== 0,
+    recursionDesired: (flags & 0x0100) !== 0,
+    rcode: rcodeName(rcode),
+    questions,
+    answers,
+    authorities,
+    additionals: additionals.filter(rr => rr.type !== 'OPT'),
+    edns,
+    size: end
+  };
+};
@@ -0,0 +1,371 @@
+import { DNSQuery, ParseError, ParseResult } from '../types';
+import { decodeDNSMessage, DNSMessage, formatIPv4, formatIPv6 } from './dnsWire';
+import { normalizeDNSQuery } from './forensics';
+
+/**
+ * dnstap reader: a Frame Streams container of protobuf-encoded dnstap.Dnstap messages,
+ * as written by Unbound, Knot Resolver, CoreDNS and BIND. Each message carries the
+ * wire-format DNS query and/or response; queries are paired with their responses.
+ */
+
+const FSTRM_CONTROL_START = 0x02;
+const FSTRM_CONTROL_STOP = 0x03;
+const FSTRM_FIELD_CONTENT_TYPE = 0x01;
+const DNSTAP_CONTENT_TYPE = 'protobuf:dnstap.Dnstap';
+
+const DNSTAP_TYPE_MESSAGE = 1;
+
+// dnstap.Message.Type; odd values are queries, the following even value the matching response
+const MESSAGE_TYPES: Record<number, string> = {
+  1: 'AUTH_QUERY', 2: 'AUTH_RESPONSE',
+  3: 'RESOLVER_QUERY', 4: 'RESOLVER_RESPONSE',
+  5: 'CLIENT_QUERY', 6: 'CLIENT_RESPONSE',
+  7: 'FORWARDER_QUERY', 8: 'FORWARDER_RESPONSE',
+  9: 'STUB_QUERY', 10: 'STUB_RESPONSE',
+  11: 'TOOL_QUERY', 12: 'TOOL_RESPONSE',
+  13: 'UPDATE_QUERY', 14: 'UPDATE_RESPONSE'
+};
+
+// The resolver's own upstream traffic: query_address is the resolver, not a client
+const UPSTREAM_TYPES = new Set([3, 4, 7, 8]);
+
+const SOCKET_PROTOCOLS: Record<number, string> = {
+  1: 'udp', 2: 'tcp', 3: 'dot', 4: 'doh', 5: 'dnscrypt-udp', 6: 'dnscrypt-tcp', 7: 'doq'
+};
+
+export class DnstapFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DnstapFormatError';
+  }
+}
+
+interface DnstapMessage {
+  type: number;
+  identity?: string;
+  version?: string;
+  socketProtocol?: number;
+  queryAddress?: string;
+  responseAddress?: string;
+  queryPort?: number;
+  responsePort?: number;
+  /** Milliseconds since the epoch */
+  queryTime?: number;
+  responseTime?: number;
+  queryMessage?: Uint8Array;
+  responseMessage?: Uint8Array;
+  queryZone?: string;
+}
+
+// --- Protobuf ---
+
+type ProtoValue = number | Uint8Array;
+
+/**
+ * Walks the fields of an encoded protobuf message. Varints are returned as numbers,
+ * which is exact up to 2^53 and ample for ports, types and timestamps.
+ */
+const readProtoFields = (bytes: Uint8Array, onField: (field: number, value: ProtoValue) => void) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let scale = 1;
+    for (let i = 0; i < 10; i++) {
+      if (pos >= bytes.length) throw new DnstapFormatError('Truncated varint');
+      const b = bytes[pos++];
+      result += (b & 0x7f) * scale;
+      if ((b & 0x80) === 0) return result;
+      scale *= 128;
+    }
+    throw new DnstapFormatError('Varint too long');
+  };
+
+  while (pos < bytes.length) {
+    const key = readVarint();
+    const field = Math.floor(key / 8);
+    const wireType = key & 0x07;
+    switch (wireType) {
+      case 0:
+        onField(field, readVarint());
+        break;
+      case 1:
+        if (pos + 8 > bytes.length) throw new DnstapFormatError('Truncated fixed64');
+        onField(field, view.getUint32(pos, true) + view.getUint32(pos + 4, true) * 4294967296);
+        pos += 8;
+        break;
+      case 2: {
+        const len = readVarint();
+        if (pos + len > bytes.length) throw new DnstapFormatError('Truncated length-delimited field');
+        onField(field, bytes.subarray(pos, pos + len));
+        pos += len;
+        break;
+      }
+      case 5:
+        if (pos + 4 > bytes.length) throw new DnstapFormatError('Truncated fixed32');
+        onField(field, view.getUint32(pos, true));
+        pos += 4;
+        break;
+      default:
+        throw new DnstapFormatError(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+};
+
+const formatAddress = (bytes: Uint8Array): string | undefined => {
+  if (bytes.length === 4) return formatIPv4(bytes, 0);
+  if (bytes.length === 16) return formatIPv6(bytes, 0);
+  return undefined;
+};
+
+/**
+ * query_zone is an uncompressed wire-format name
+ */
+const decodeWireName = (bytes: Uint8Array): string => {
+  const labels: string[] = [];
+  let pos = 0;
+  while (pos < bytes.length && bytes[pos] !== 0) {
+    const len = bytes[pos];
+    labels.push(String.fromCharCode(...bytes.subarray(pos + 1, pos + 1 + len)));
+    pos += 1 + len;
+  }
+  return labels.length ? labels.join('.') : '.';
+};
+
+const textDecoder = new TextDecoder();
+
+const decodeDnstap = (frame: Uint8Array): DnstapMessage | null => {
+  let type: number | undefined;
+  let identity: string | undefined;
+  let version: string | undefined;
+  let message: Uint8Array | undefined;
+
+  readProtoFields(frame, (field, value) => {
+    if (field === 1 && value instanceof Uint8Array) identity = textDecoder.decode(value);
+    else if (field === 2 && value instanceof Uint8Array) version = textDecoder.decode(value);
+    else if (field === 14 && value instanceof Uint8Array) message = value;
+    else if (field === 15 && typeof value === 'number') type = value;
+  });
+  if (type !== DNSTAP_TYPE_MESSAGE || !message) return null;
+
+  const result: DnstapMessage = { type: 0, identity, version };
+  let queryNanos = 0;
+  let responseNanos = 0;
+  let querySec: number | undefined;
+  let responseSec: number | undefined;
+
+  readProtoFields(message, (field, value) => {
+    const bytes = value instanceof Uint8Array ? value : undefined;
+    const num = typeof value === 'number' ? value : undefined;
+    switch (field) {
+      case 1: result.type = num ?? 0; break;
+      case 3: result.socketProtocol = num; break;
+      case 4: if (bytes) result.queryAddress = formatAddress(bytes); break;
+      case 5: if (bytes) result.responseAddress = formatAddress(bytes); break;
+      case 6: result.queryPort = num; break;
+      case 7: result.responsePort = num; break;
+      case 8: querySec = num; break;
+      case 9: queryNanos = num ?? 0; break;
+      case 10: result.queryMessage = bytes; break;
+      case 11: if (bytes) result.queryZone = decodeWireName(bytes); break;
+      case 12: responseSec = num; break;
+      case 13: responseNanos = num ?? 0; break;
+      case 14: result.responseMessage = bytes; break;
+    }
+  });
+
+  if (querySec !== undefined) result.queryTime = querySec * 1000 + queryNanos / 1e6;
+  if (responseSec !== undefined) result.responseTime = responseSec * 1000 + responseNanos / 1e6;
+  return result;
+};
+
+// --- Frame Streams ---
+
+/**
+ * Returns true if the buffer starts with a Frame Streams START control frame
+ */
+export const isDnstapStream = (buffer: ArrayBuffer): boolean => {
+  if (buffer.byteLength < 12) return false;
+  const view = new DataView(buffer);
+  return view.getUint32(0, false) === 0 && view.getUint32(8, false) === FSTRM_CONTROL_START;
+};
+
+/**
+ * Splits a unidirectional Frame Streams file into its data frames. A file cut off mid-frame,
+ * as when a capture is copied while the resolver is still writing, keeps the frames before the
+ * cut; `truncated` describes the partial frame.
+ */
+const readFrames = (buffer: ArrayBuffer): { frames: Uint8Array[]; truncated?: string } => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const frames: Uint8Array[] = [];
+  let pos = 0;
+
+  while (pos + 4 <= buffer.byteLength) {
+    const len = view.getUint32(pos, false);
+    pos += 4;
+
+    if (len === 0) {
+      // Control frame: escape, length, then the control type and its fields
+      if (pos + 4 > buffer.byteLength) return { frames, truncated: 'Truncated control frame length' };
+      const controlLen = view.getUint32(pos, false);
+      pos += 4;
+      if (pos + controlLen > buffer.byteLength) return { frames, truncated: `Truncated control frame (${buffer.byteLength - pos} of ${controlLen} bytes)` };
+      const controlType = controlLen >= 4 ? view.getUint32(pos, false) : 0;
+
+      if (controlType === FSTRM_CONTROL_START) {
+        for (let f = pos + 4; f + 8 <= pos + controlLen;) {
+          const fieldType = view.getUint32(f, false);
+          const fieldLen = view.getUint32(f + 4, false);
+          const value = textDecoder.decode(bytes.subarray(f + 8, f + 8 + fieldLen));
+          if (fieldType === FSTRM_FIELD_CONTENT_TYPE && value !== DNSTAP_CONTENT_TYPE) {
+            throw new DnstapFormatError(`Unsupported Frame Streams content type "${value}"`);
+          }
+          f += 8 + fieldLen;
+        }
+      }
+      pos += controlLen;
+      if (controlType === FSTRM_CONTROL_STOP) break;
+      continue;
+    }
+
+    if (pos + len > buffer.byteLength) return { frames, truncated: `Truncated data frame (${buffer.byteLength - pos} of ${len} bytes)` };
+    frames.push(bytes.subarray(pos, pos + len));
+    pos += len;
+  }
+
+  if (pos < buffer.byteLength) return { frames, truncated: 'Truncated frame length' };
+  return { frames };
+};
+
+// --- Pairing ---
+
+interface Transaction {
+  query?: { tap: DnstapMessage; message: DNSMessage };
+  response?: { tap: DnstapMessage; message: DNSMessage };
+}
+
+const toIso = (time?: number): string | undefined =>
+  time !== undefined && Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+
+const transactionToRecord = (tx: Transaction): DNSQuery | null => {
+  const primary = tx.query ?? tx.response!;
+  const question = primary.message.questions[0] ?? tx.response?.message.questions[0];
+  if (!question) return null;
+
+  const tap = primary.tap;
+  const response = tx.response?.message;
+  const queryTime = tx.query?.tap.queryTime ?? tx.response?.tap.queryTime;
+  const responseTime = tx.response?.tap.responseTime;
+
+  return normalizeDNSQuery({
+    timestamp: toIso(queryTime ?? responseTime),
+    sourceIp: tap.queryAddress,
+    query: question.name,
+    type: question.type,
+    responseCode: response ? response.rcode : 'NORESPONSE',
+    answers: response?.answers.length ? response.answers.map(a => ({ type: a.type, data: a.data, ttl: a.ttl })) : undefined,
+    responseSize: response?.size,
+    truncated: response ? response.truncated : undefined,
+    dnstapType: MESSAGE_TYPES[tap.type] ?? `TYPE${tap.type}`,
+    identity: tap.identity,
+    version: tap.version,
+    sourcePort: tap.queryPort,
+    serverIp: tap.responseAddress,
+    serverPort: tap.responsePort,
+    transport: tap.socketProtocol !== undefined ? SOCKET_PROTOCOLS[tap.socketProtocol] : undefined,
+    transactionId: primary.message.id,
+    queryZone: tap.queryZone,
+    answered: !!response,
+    responseTimeMs: queryTime !== undefined && responseTime !== undefined ? parseFloat((responseTime - queryTime).toFixed(3)) : undefined,
+    edns: (tx.query?.message.edns ?? response?.edns) ? true : undefined,
+    ednsUdpSize: tx.query?.message.edns?.udpPayloadSize
+  });
+};
+
+/**
+ * Parses a dnstap Frame Streams file and returns one DNSQuery per DNS transaction.
+ * Queries and responses are paired by role, client endpoint, transaction ID and question;
+ * frames that cannot be decoded, and a partial frame at the end of the file, are reported
+ * with their 1-based frame number. Resolver and forwarder messages describe the server's upstream
+ * lookups rather than client activity, so they are skipped and counted in a single note.
+ */
+export const parseDnstap = (buffer: ArrayBuffer): ParseResult => {
+  if (!isDnstapStream(buffer)) throw new DnstapFormatError('Unrecognised dnstap file (expected a Frame Streams START frame).');
+
+  const errors: ParseError[] = [];
+  const order: Transaction[] = [];
+  const pending = new Map<string, Transaction>();
+  let upstream = 0;
+  let firstUpstream = 0;
+
+  const { frames, truncated } = readFrames(buffer);
+  frames.forEach((frame, i) => {
+    let tap: DnstapMessage | null;
+    try {
+      tap = decodeDnstap(frame);
+    } catch (e: any) {
+      errors.push({ line: i + 1, content: `${frame.length} byte frame`, reason: e.message || 'Invalid dnstap message' });
+      return;
+    }
+    if (!tap) return;
+    if (UPSTREAM_TYPES.has(tap.type)) {
+      if (upstream++ === 0) firstUpstream = i + 1;
+      return;
+    }
+
+    const isResponse = tap.type % 2 === 0;
+    const raw = isResponse ? (tap.responseMessage ?? tap.queryMessage) : (tap.queryMessage ?? tap.responseMessage);
+    if (!raw) {
+      errors.push({ line: i + 1, content: MESSAGE_TYPES[tap.type] ?? `TYPE${tap.type}`, reason: 'Message carries no DNS payload' });
+      return;
+    }
+
+    let message: DNSMessage;
+    try {
+      message = decodeDNSMessage(raw);
+    } catch (e: any) {
+      errors.push({ line: i + 1, content: MESSAGE_TYPES[tap.type] ?? `TYPE${tap.type}`, reason: e.message || 'Invalid DNS message' });
+      return;
+    }
+
+    const question = message.questions[0];
+    const role = Math.ceil(tap.type / 2);
+    const key = `${role}|${tap.queryAddress}|${tap.queryPort}|${message.id}|${question ? `${question.name.toLowerCase()}/${question.type}` : ''}`;
+
+    if (isResponse) {
+      const existing = pending.get(key);
+      if (existing) {
+        existing.response = { tap, message };
+        pending.delete(key);
+        return;
+      }
+      // Some resolvers log the query alongside the response in a single message
+      const tx: Transaction = { response: { tap, message } };
+      if (tap.queryMessage && tap.responseMessage) {
+        try {
+          tx.query = { tap, message: decodeDNSMessage(tap.queryMessage) };
+        } catch {
+          // keep the response on its own
+        }
+      }
+      order.push(tx);
+    } else {
+      const tx: Transaction = { query: { tap, message } };
+      order.push(tx);
+      pending.set(key, tx);
+    }
+  });
+  if (upstream > 0) {
+    errors.push({ line: firstUpstream, content: `${upstream} upstream ${upstream === 1 ? 'message' : 'messages'}`, reason: 'Resolver and forwarder upstream messages skipped' });
+  }
+  if (truncated) errors.push({ line: frames.length + 1, content: 'end of file', reason: truncated });
+
+  const queries = order
+    .map(transactionToRecord)
+    .filter((q): q is DNSQuery => q !== null)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  return { format: 'dnstap', queries, errors };
+};
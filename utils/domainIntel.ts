@@ -0,0 +1,183 @@
+import { DomainIntel } from '../types';
+import { parseDelimited } from './csv';
+import { toDate } from './intel';
+import { splitDomain } from './publicSuffix';
+
+/**
+ * Registration (WHOIS/RDAP) and passive DNS data for registered domains. Provider responses
+ * and offline files come in many shapes: flat WHOIS-style JSON, RDAP domain objects, DNSDB-style
+ * passive DNS rows and CSV; all are normalised to one record per registered domain.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FIELDS: Record<'domain' | 'createdAt' | 'registrar' | 'nameServers' | 'firstSeen' | 'lastSeen', string[]> = {
+  domain: ['domain', 'domain_name', 'domainname', 'registereddomain', 'name', 'rrname', 'ldhname', 'query'],
+  createdAt: ['createdat', 'created', 'creation_date', 'creationdate', 'create_date', 'registered', 'registration_date', 'registrationdate'],
+  registrar: ['registrar', 'registrar_name', 'registrarname', 'sponsoring_registrar'],
+  nameServers: ['nameservers', 'name_servers', 'nameserver', 'name_server', 'ns'],
+  firstSeen: ['firstseen', 'first_seen', 'time_first', 'zone_time_first'],
+  lastSeen: ['lastseen', 'last_seen', 'time_last', 'zone_time_last']
+};
+
+const fieldOf = (raw: Record<string, any>, field: keyof typeof FIELDS): any => {
+  const key = Object.keys(raw).find(k => FIELDS[field].includes(k.toLowerCase()));
+  return key === undefined ? undefined : raw[key];
+};
+
+/** Earliest or latest of one date or a list of them (python-whois returns lists) */
+const pickDate = (raw: unknown, latest = false): string | undefined => {
+  const dates = (Array.isArray(raw) ? raw : [raw]).map(toDate).filter((d): d is string => d !== undefined).sort();
+  return latest ? dates[dates.length - 1] : dates[0];
+};
+
+const normaliseName = (name: string) => name.trim().toLowerCase().replace(/\.$/, '');
+
+const toNameServers = (raw: unknown): string[] | undefined => {
+  const list = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(/[\s,;|]+/) : [];
+  const names = list.map(n => normaliseName(typeof n === 'string' ? n : String(n?.ldhName ?? ''))).filter(Boolean);
+  return names.length > 0 ? Array.from(new Set(names)).sort() : undefined;
+};
+
+/** Registrar name from an RDAP entity's jCard */
+const rdapRegistrar = (entities: any[]): string | undefined => {
+  const registrar = entities.find(e => Array.isArray(e?.roles) && e.roles.includes('registrar'));
+  const card: any[] = registrar?.vcardArray?.[1] ?? [];
+  return card.find(p => Array.isArray(p) && p[0] === 'fn')?.[3] ?? registrar?.handle;
+};
+
+/**
+ * Record for one response or file row; null when it names no domain
+ */
+export const toDomainIntel = (raw: any, source: string, fetchedAt: string = new Date().toISOString(), fallbackDomain?: string): DomainIntel | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const name = fieldOf(raw, 'domain') ?? fallbackDomain;
+  if (typeof name !== 'string' || !normaliseName(name)) return null;
+  // Passive DNS rows may be for any name under the domain
+  const domain = splitDomain(normaliseName(name)).registeredDomain;
+  if (!domain) return null;
+
+  const isRdap = raw.objectClassName === 'domain';
+  const events: any[] = isRdap && Array.isArray(raw.events) ? raw.events : [];
+  const rdapEvent = (action: string) => events.find(e => e?.eventAction === action)?.eventDate;
+
+  return {
+    domain,
+    createdAt: isRdap ? toDate(rdapEvent('registration')) : pickDate(fieldOf(raw, 'createdAt')),
+    registrar: (isRdap ? rdapRegistrar(Array.isArray(raw.entities) ? raw.entities : []) : undefined) ?? (String(fieldOf(raw, 'registrar') ?? '').trim() || undefined),
+    nameServers: toNameServers(fieldOf(raw, 'nameServers')),
+    firstSeen: pickDate(fieldOf(raw, 'firstSeen')),
+    lastSeen: pickDate(fieldOf(raw, 'lastSeen'), true),
+    source,
+    fetchedAt
+  };
+};
+
+/**
+ * Combines two records for the same domain: earliest creation and first sighting, latest last sighting
+ */
+export const mergeDomainIntel = (a: DomainIntel, b: DomainIntel): DomainIntel => ({
+  domain: a.domain,
+  createdAt: pickDate([a.createdAt, b.createdAt]),
+  registrar: a.registrar ?? b.registrar,
+  nameServers: toNameServers([...(a.nameServers ?? []), ...(b.nameServers ?? [])]),
+  firstSeen: pickDate([a.firstSeen, b.firstSeen]),
+  lastSeen: pickDate([a.lastSeen, b.lastSeen], true),
+  source: a.source,
+  fetchedAt: a.fetchedAt > b.fetchedAt ? a.fetchedAt : b.fetchedAt
+});
+
+/** Whether a cached record holds any data, rather than recording that the provider had none */
+export const hasDomainData = (record: DomainIntel): boolean =>
+  !!(record.createdAt || record.registrar || record.nameServers || record.firstSeen || record.lastSeen);
+
+const rowsFromCsv = (text: string): Record<string, string>[] => {
+  const delimiter = text.slice(0, text.indexOf('\n') >= 0 ? text.indexOf('\n') : undefined).includes('\t') ? '\t' : ',';
+  const records = parseDelimited(text, delimiter).filter(r => r.fields.some(f => f.trim()));
+  const header = records[0]?.fields.map(f => f.trim()) ?? [];
+  return records.slice(1).map(r => Object.fromEntries(header.map((h, i) => [h, r.fields[i]?.trim() ?? ''])));
+};
+
+/**
+ * Reads an offline domain file: a JSON array, an object keyed by domain, NDJSON (e.g. a DNSDB
+ * export) or CSV with a header row. Rows for the same registered domain are merged.
+ */
+export const parseDomainIntelFile = (text: string, fileName: string): { records: DomainIntel[]; errors: string[] } => {
+  const source = fileName.replace(/\.[^.]+$/, '') || fileName;
+  const fetchedAt = new Date().toISOString();
+  const errors: string[] = [];
+  let rows: { raw: any; key?: string; label: string }[] = [];
+  const trimmed = text.trimStart();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      const doc = JSON.parse(text);
+      if (Array.isArray(doc)) {
+        rows = doc.map((raw, i) => ({ raw, label: `Entry ${i + 1}` }));
+      } else if (fieldOf(doc, 'domain') !== undefined || doc.objectClassName === 'domain') {
+        rows = [{ raw: doc, label: 'Entry 1' }];
+      } else {
+        rows = Object.entries(doc).map(([key, raw]) => ({ raw, key, label: `"${key}"` }));
+      }
+    } catch (error) {
+      // One JSON object per line
+      trimmed.split(/\r?\n/).forEach((line, i) => {
+        if (!line.trim()) return;
+        try {
+          rows.push({ raw: JSON.parse(line), label: `Line ${i + 1}` });
+        } catch (lineError) {
+          errors.push(`Line ${i + 1}: invalid JSON`);
+        }
+      });
+    }
+  } else {
+    rows = rowsFromCsv(text).map((raw, i) => ({ raw, label: `Row ${i + 2}` }));
+  }
+
+  const byDomain = new Map<string, DomainIntel>();
+  for (const { raw, key, label } of rows) {
+    const record = toDomainIntel(raw, source, fetchedAt, key);
+    if (!record) {
+      errors.push(`${label}: no domain name`);
+      continue;
+    }
+    if (!hasDomainData(record)) {
+      errors.push(`${label}: no creation date, registrar, name servers or passive DNS dates for ${record.domain}`);
+      continue;
+    }
+    const existing = byDomain.get(record.domain);
+    byDomain.set(record.domain, existing ? mergeDomainIntel(existing, record) : record);
+  }
+
+  return { records: Array.from(byDomain.values()), errors };
+};
+
+// Cached provider results scoring reads from; the UI installs the saved cache
+let activeRecords = new Map<string, DomainIntel>();
+
+export const setActiveDomainIntel = (records: DomainIntel[]) => {
+  activeRecords = new Map(records.map(r => [r.domain, r]));
+};
+
+/** Every cached record, misses included */
+export const getActiveDomainIntel = (): DomainIntel[] => Array.from(activeRecords.values());
+
+/**
+ * Cached data for a registered domain; undefined when there is none or the provider had none
+ */
+export const lookupDomainIntel = (domain: string | undefined): DomainIntel | undefined => {
+  const record = domain ? activeRecords.get(domain.toLowerCase()) : undefined;
+  return record && hasDomainData(record) ? record : undefined;
+};
+
+/**
+ * How old the domain was when queried, by registration and by first passive DNS sighting
+ */
+export const domainAge = (intel: DomainIntel | undefined, timestamp: string): { domainAgeDays?: number; domainFirstSeenDays?: number } => {
+  const at = Date.parse(timestamp);
+  const days = (from?: string) => {
+    const start = from ? Date.parse(from) : NaN;
+    return isNaN(start) || isNaN(at) ? undefined : Math.floor((at - start) / DAY_MS);
+  };
+  return { domainAgeDays: days(intel?.createdAt), domainFirstSeenDays: days(intel?.firstSeen) };
+};
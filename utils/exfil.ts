@@ -0,0 +1,151 @@
+import { DNSQuery, ExfilFlow, ExfiltrationEstimate, ExfilVolume, PayloadEncoding } from '../types';
+import { detectEncoding } from './lexical';
+import { splitDomain } from './publicSuffix';
+
+/**
+ * Exfiltration volume estimation. A tunnel packs its data into subdomain labels with an
+ * alphabet DNS can carry, so each character holds fewer than 8 bits: 4 for hex, 5 for base32,
+ * 6 for base64. Decoding that overhead gives the payload bytes per query. The bounds cover what
+ * the name alone cannot tell: the tool's own framing (sequence numbers, session ids) inside the
+ * encoded data, and, when no alphabet was recognised, anything from hex to base64 density.
+ */
+
+const BITS_PER_CHAR: Record<PayloadEncoding, number> = {
+  hex: 4,
+  base32: 5,
+  base36: Math.log2(36),
+  base64: 6
+};
+
+/** Per-query framing a tunnel tool may spend on headers rather than data */
+const FRAMING_BYTES = 8;
+/** Labels shorter than this are more likely control words ("init", "v1") than payload */
+const MIN_PAYLOAD_LABEL = 8;
+
+export const DEFAULT_EXFIL_WINDOW_MS = 60 * 60 * 1000;
+
+export interface PayloadEstimate {
+  bytes: number;
+  low: number;
+  high: number;
+  encoding?: PayloadEncoding;
+}
+
+const shannonBits = (text: string): number => {
+  const freq = new Map<string, number>();
+  for (const c of text) freq.set(c, (freq.get(c) ?? 0) + 1);
+  let bits = 0;
+  for (const n of freq.values()) bits -= (n / text.length) * Math.log2(n / text.length);
+  return bits;
+};
+
+/**
+ * Payload bytes carried by one query name, or null when it has no subdomain payload
+ */
+export const estimatePayload = (query: Pick<DNSQuery, 'query' | 'subdomain' | 'lexical'>): PayloadEstimate | null => {
+  const subdomain = query.subdomain ?? splitDomain(query.query).subdomain;
+  // Case is part of a base64 payload, so the labels are cut from the name as logged
+  const labels = query.query.slice(0, subdomain.length).split('.').filter(Boolean);
+  const all = labels.join('');
+  if (all.length === 0) return null;
+  const long = labels.filter(l => l.length >= MIN_PAYLOAD_LABEL).join('');
+
+  // Re-detected on the payload labels alone; the lexical encoding also saw the zone's own labels
+  const encoding = detectEncoding(long, query.lexical?.bigramScore ?? -Infinity) ?? query.lexical?.encoding;
+  let bits: number;
+  let lowBits: number;
+  let highBits: number;
+  if (encoding) {
+    bits = lowBits = highBits = BITS_PER_CHAR[encoding];
+  } else {
+    // Unknown alphabet: entropy is the best point guess, hex and base64 the plausible extremes
+    const mixedCase = /[a-z]/.test(all) && /[A-Z]/.test(all);
+    lowBits = BITS_PER_CHAR.hex;
+    highBits = mixedCase ? BITS_PER_CHAR.base64 : BITS_PER_CHAR.base36;
+    bits = Math.min(highBits, Math.max(lowBits, shannonBits(all)));
+  }
+
+  const high = Math.ceil((all.length * highBits) / 8);
+  const low = Math.max(0, Math.floor((long.length * lowBits) / 8) - FRAMING_BYTES);
+  const bytes = Math.min(high, Math.max(low, Math.round((all.length * bits) / 8)));
+  return { bytes, low, high, encoding };
+};
+
+const emptyVolume = (): ExfilVolume => ({ bytes: 0, low: 0, high: 0, queries: 0 });
+
+const add = (volume: ExfilVolume, estimate: PayloadEstimate) => {
+  volume.bytes += estimate.bytes;
+  volume.low += estimate.low;
+  volume.high += estimate.high;
+  volume.queries++;
+};
+
+/**
+ * Sums payload estimates of tunnelling queries per source, domain, flow and time window.
+ * Retransmissions of the same name from the same source carry no new data and count once.
+ */
+export const estimateExfiltration = (logs: DNSQuery[], windowMs: number = DEFAULT_EXFIL_WINDOW_MS): ExfiltrationEstimate => {
+  const total = emptyVolume();
+  const flows = new Map<string, ExfilFlow>();
+  const sources = new Map<string, ExfilVolume & { sourceIp: string }>();
+  const domains = new Map<string, ExfilVolume & { registeredDomain: string }>();
+  const windows = new Map<number, ExfilVolume & { start: string }>();
+  const seen = new Set<string>();
+
+  for (const log of logs) {
+    if (log.label !== 'Tunneling' && !log.tool) continue;
+    const key = `${log.sourceIp}|${log.query.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const estimate = estimatePayload(log);
+    if (!estimate) continue;
+
+    const registeredDomain = log.registeredDomain ?? splitDomain(log.query).registeredDomain;
+    add(total, estimate);
+
+    const flowKey = `${log.sourceIp}|${registeredDomain}`;
+    if (!flows.has(flowKey)) {
+      flows.set(flowKey, { ...emptyVolume(), sourceIp: log.sourceIp, registeredDomain, encodings: [], firstSeen: log.timestamp, lastSeen: log.timestamp });
+    }
+    const flow = flows.get(flowKey)!;
+    add(flow, estimate);
+    flow.host = flow.host ?? log.host;
+    if (estimate.encoding && !flow.encodings.includes(estimate.encoding)) flow.encodings.push(estimate.encoding);
+    if (log.timestamp < flow.firstSeen) flow.firstSeen = log.timestamp;
+    if (log.timestamp > flow.lastSeen) flow.lastSeen = log.timestamp;
+
+    if (!sources.has(log.sourceIp)) sources.set(log.sourceIp, { ...emptyVolume(), sourceIp: log.sourceIp });
+    add(sources.get(log.sourceIp)!, estimate);
+    if (!domains.has(registeredDomain)) domains.set(registeredDomain, { ...emptyVolume(), registeredDomain });
+    add(domains.get(registeredDomain)!, estimate);
+
+    const time = Date.parse(log.timestamp);
+    if (!isNaN(time)) {
+      const start = Math.floor(time / windowMs) * windowMs;
+      if (!windows.has(start)) windows.set(start, { ...emptyVolume(), start: new Date(start).toISOString() });
+      add(windows.get(start)!, estimate);
+    }
+  }
+
+  const largest = <T extends ExfilVolume>(values: Iterable<T>) => Array.from(values).sort((a, b) => b.bytes - a.bytes);
+  return {
+    total,
+    flows: largest(flows.values()),
+    bySource: largest(sources.values()),
+    byDomain: largest(domains.values()),
+    windowMs,
+    windows: Array.from(windows.values()).sort((a, b) => a.start.localeCompare(b.start))
+  };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 2 : 1)} ${units[unit]}`;
+};
@@ -1,5 +1,18 @@
 
-import { DNSQuery, FeatureStats } from '../types';
+import { AlertSeverity, AlertType, CsvMapping, DNSAnswer, DNSQuery, FeatureStats, LexicalFeatures, LogFormat, ParseError, ParseResult, QueryLabel, ScoreFactor, StatsBucket, TopTalker, TrafficStats } from '../types';
+import { isZeekLog, parseZeekLog } from './zeek';
+import { detectResolverFormat, parseResolverLog } from './resolverLogs';
+import { isSysmonContent, parseSysmonEvents } from './sysmon';
+import { hasCsvHeader, inferCsvMapping, parseCsv } from './csv';
+import { DomainParts, splitDomain } from './publicSuffix';
+import { analyzeLexical } from './lexical';
+import { matchToolSignature } from './signatures';
+import { matchIntel } from './intel';
+import { lookupGeo } from './geo';
+import { domainAge, lookupDomainIntel } from './domainIntel';
+import { scoreDga } from './dga';
+import { extractFeatures, getActiveModel, predictWithModel } from './model';
+import { evaluateAlert, evaluateClassification, evaluateScore, getActiveRules, ruleFactor } from './rules';
 
 /**
  * Calculates Shannon Entropy for a given string
@@ -22,122 +35,309 @@ export const calculateEntropy = (str: string): number => {
   return parseFloat(entropy.toFixed(3));
 };
 
-export const checkIpReputation = (ip: string): 'CLEAN' | 'SUSPICIOUS' | 'MALICIOUS' | 'UNKNOWN' => {
-  // Mock reputation database
-  const maliciousIps = ['192.168.1.105', '45.33.22.11', '103.22.11.55', '185.22.11.33'];
-  const suspiciousIps = ['192.168.1.200', '104.16.132.229']; 
-  
-  if (maliciousIps.includes(ip)) return 'MALICIOUS';
-  if (suspiciousIps.includes(ip)) return 'SUSPICIOUS';
-  if (ip.startsWith('192.168.')) return 'CLEAN';
-  return 'UNKNOWN';
+/**
+ * Splits a query name at the registered domain and measures length, entropy and lexical
+ * features on the subdomain labels only, so `www.google.com` and a base32 tunnel label are not mixed together
+ */
+export const analyzeQueryName = (query: string): DomainParts & { length: number; entropy: number; lexical: LexicalFeatures; dgaScore: number } => {
+  const parts = splitDomain(query);
+  return {
+    ...parts,
+    length: parts.subdomain.length,
+    entropy: calculateEntropy(parts.subdomain),
+    lexical: analyzeLexical(query, parts.subdomain),
+    dgaScore: scoreDga(parts.registeredDomain, parts.publicSuffix)
+  };
+};
+
+/**
+ * Concatenated rdata of the answers that can carry arbitrary data (everything but A records)
+ */
+const answerPayload = (answers?: DNSAnswer[]): string =>
+  (answers ?? []).filter(a => a.type !== 'A').map(a => a.data).join('');
+
+/**
+ * Shannon entropy of the answer payload; 0 when it is too short to be meaningful
+ */
+export const calculateAnswerEntropy = (answers?: DNSAnswer[]): number => {
+  const payload = answerPayload(answers);
+  return payload.length >= 16 ? calculateEntropy(payload) : 0;
+};
+
+const TOP_TALKERS = 5;
+
+const ratio = (count: number, total: number) => parseFloat((count / total).toFixed(4));
+
+/**
+ * Rcode, qtype and talker statistics of `logs`, spread over `minutes` for the rate
+ */
+const trafficStats = (logs: DNSQuery[], minutes: number): TrafficStats => {
+  const rcodes: Record<string, number> = {};
+  const qtypes: Record<string, number> = {};
+  const talkers = new Map<string, TopTalker>();
+  for (const log of logs) {
+    const rcode = (log.responseCode || 'NOERROR').toUpperCase();
+    rcodes[rcode] = (rcodes[rcode] ?? 0) + 1;
+    qtypes[log.type] = (qtypes[log.type] ?? 0) + 1;
+    if (!talkers.has(log.sourceIp)) talkers.set(log.sourceIp, { sourceIp: log.sourceIp, queries: 0 });
+    const talker = talkers.get(log.sourceIp)!;
+    talker.queries++;
+    talker.host = talker.host ?? log.host;
+  }
+
+  const total = Math.max(1, logs.length);
+  return {
+    totalQueries: logs.length,
+    queriesPerMinute: parseFloat((logs.length / Math.max(1, minutes)).toFixed(1)),
+    nxDomainRatio: ratio(rcodes['NXDOMAIN'] ?? 0, total),
+    servFailRatio: ratio(rcodes['SERVFAIL'] ?? 0, total),
+    refusedRatio: ratio(rcodes['REFUSED'] ?? 0, total),
+    rcodeRatios: Object.fromEntries(Object.entries(rcodes).map(([code, n]) => [code, ratio(n, total)])),
+    qtypeDistribution: Object.fromEntries(Object.entries(qtypes).map(([type, n]) => [type, ratio(n, total)])),
+    topTalkers: Array.from(talkers.values()).sort((a, b) => b.queries - a.queries).slice(0, TOP_TALKERS)
+  };
+};
+
+const timeSpan = (logs: DNSQuery[]) => {
+  let first = Infinity;
+  let last = -Infinity;
+  for (const log of logs) {
+    const time = Date.parse(log.timestamp);
+    if (isNaN(time)) continue;
+    first = Math.min(first, time);
+    last = Math.max(last, time);
+  }
+  return { first, last };
 };
 
 export const getStats = (logs: DNSQuery[]): FeatureStats => {
   if (logs.length === 0) {
-    return { avgEntropy: 0, avgLength: 0, nxDomainRatio: 0, totalQueries: 0, uniqueSubdomains: 0 };
+    return { avgEntropy: 0, avgLength: 0, uniqueSubdomains: 0, ...trafficStats([], 1) };
   }
   
   const totalQueries = logs.length;
   const avgEntropy = logs.reduce((acc, curr) => acc + curr.entropy, 0) / totalQueries;
   const avgLength = logs.reduce((acc, curr) => acc + curr.length, 0) / totalQueries;
   
-  const subdomains = new Set(logs.map(l => l.query.split('.')[0]));
+  const subdomains = new Set(logs.map(l => l.subdomain ?? splitDomain(l.query).subdomain).filter(Boolean));
+  const { first, last } = timeSpan(logs);
   
   return {
     avgEntropy: parseFloat(avgEntropy.toFixed(3)),
     avgLength: parseFloat(avgLength.toFixed(1)),
-    nxDomainRatio: 0.12, // Simulated for demo purposes
-    totalQueries,
-    uniqueSubdomains: subdomains.size
+    uniqueSubdomains: subdomains.size,
+    ...trafficStats(logs, first <= last ? (last - first) / 60000 : 1)
   };
 };
 
-export const calculateThreatScore = (query: DNSQuery): number => {
-  let score = 0;
+/**
+ * Traffic statistics per `bucketMs` bucket, oldest first, with empty buckets included so the
+ * series has no gaps. The newest bucket is usually still filling; its rate is taken over the
+ * part of it the logs reach, at least one minute.
+ */
+export const getStatsByBucket = (logs: DNSQuery[], bucketMs: number, maxBuckets = 500): StatsBucket[] => {
+  const { first, last } = timeSpan(logs);
+  if (first > last || bucketMs <= 0) return [];
 
-  // 1. Entropy Factor (Max 40)
-  // Entropy > 4.0 is suspicious, > 4.5 is highly suspicious
-  if (query.entropy > 3.5) {
-    score += Math.min(40, (query.entropy - 3.5) * 30);
+  const lastBucket = Math.floor(last / bucketMs) * bucketMs;
+  const firstBucket = Math.max(Math.floor(first / bucketMs) * bucketMs, lastBucket - (maxBuckets - 1) * bucketMs);
+  const grouped = new Map<number, DNSQuery[]>();
+  for (let start = firstBucket; start <= lastBucket; start += bucketMs) grouped.set(start, []);
+  for (const log of logs) {
+    const time = Date.parse(log.timestamp);
+    if (isNaN(time) || time < firstBucket) continue;
+    grouped.get(Math.floor(time / bucketMs) * bucketMs)!.push(log);
   }
 
-  // 2. Length Factor (Max 20)
-  // Length > 50 is suspicious
-  if (query.length > 40) {
-    score += Math.min(20, (query.length - 40) * 0.5);
-  }
+  return Array.from(grouped, ([start, bucket]) => {
+    const covered = start === lastBucket ? Math.max(60000, last - start) : bucketMs;
+    return {
+      start: new Date(start).toISOString(),
+      end: new Date(start + bucketMs).toISOString(),
+      ...trafficStats(bucket, covered / 60000)
+    };
+  });
+};
 
-  // 3. Response Code Factor (Max 15)
-  if (query.responseCode === 'NXDOMAIN') {
-    score += 15;
-  } else if (query.responseCode === 'SERVFAIL') {
-    score += 10;
-  }
+/**
+ * Query fields plus the answer-side features rules can test
+ */
+const ruleContext = (query: Partial<DNSQuery>): Record<string, any> => {
+  const payload = answerPayload(query.answers);
+  return {
+    ...query,
+    ...domainAge(query.domainIntel, query.timestamp ?? ''),
+    answerEntropy: payload.length >= 16 ? calculateEntropy(payload) : 0,
+    answerPayloadLength: payload.length
+  };
+};
 
-  // 4. Query Type Factor (Max 10)
-  if (query.type === 'TXT') {
-    score += 10;
-  } else if (query.type === 'NULL') {
-    score += 15;
-  }
+/**
+ * Threat score from the active rule pack's scoring rules
+ */
+export const calculateThreatScore = (query: DNSQuery): number =>
+  evaluateScore(ruleContext(query), getActiveRules()).score;
 
-  // 5. Geo-location Factor (Max 15)
-  // Simulated high-risk regions or unknown locations
-  const highRiskLocations = ['Russia', 'China', 'North Korea', 'Iran', 'Unknown'];
-  if (query.location && highRiskLocations.some(loc => query.location?.includes(loc))) {
-    score += 15;
-  } else if (!query.location || query.location === 'Resolving...') {
-    score += 5;
+/**
+ * Confidence from the evidence alone, so the same record always gets the same value:
+ * a higher score and more agreeing classification rules raise it for tunnels, and a
+ * higher score lowers it for queries labelled normal
+ */
+const classificationConfidence = (label: QueryLabel, score: number, classifications: number): number => {
+  if (label !== 'Normal') {
+    return parseFloat(Math.min(0.99, 0.7 + (score / 200) + 0.05 * (classifications - 1)).toFixed(2));
   }
+  return parseFloat(Math.max(0.5, 0.95 - (score / 200)).toFixed(2));
+};
 
-  // 6. Reputation Factor (Max 25)
-  if (query.reputation === 'MALICIOUS') {
-    score += 25;
-  } else if (query.reputation === 'SUSPICIOUS') {
-    score += 15;
-  }
+/**
+ * Feature vector the trainable classifier sees for a query
+ */
+export const queryFeatures = (query: DNSQuery): Record<string, number> => extractFeatures(ruleContext(query));
 
-  return Math.min(100, Math.round(score));
+/**
+ * Label from the loaded model when there is one, otherwise from the classification rules
+ */
+const classify = (ctx: Record<string, any>): { label: QueryLabel; confidence: number; factors: ScoreFactor[] } => {
+  const model = getActiveModel();
+  if (model) {
+    const ranked = predictWithModel(model, extractFeatures(ctx));
+    return {
+      label: ranked[0].label,
+      confidence: parseFloat(ranked[0].probability.toFixed(2)),
+      factors: [{
+        factor: `Model "${model.name}"`,
+        observed: ranked.map(r => `p(${r.label}) = ${r.probability.toFixed(3)}`).join(', '),
+        effect: 'classify',
+        ruleId: `model.${model.name}`
+      }]
+    };
+  }
+  const { label, factors } = evaluateClassification(ctx, getActiveRules());
+  return { label, confidence: classificationConfidence(label, ctx.threatScore, factors.length), factors };
 };
 
-export const classifyQuery = (query: Partial<DNSQuery>): { label: 'Normal' | 'Tunneling', confidence: number } => {
-  const entropy = query.entropy ?? calculateEntropy(query.query ?? "");
-  const length = query.length ?? (query.query?.length ?? 0);
-  
-  // Base classification on thresholds
-  const entropyThreshold = 4.2;
-  const lengthThreshold = 55;
-  
-  const isSuspicious = entropy > entropyThreshold || length > lengthThreshold;
-  
-  // If we have a threat score already, use it to refine confidence
-  const score = query.threatScore ?? 0;
-  const label = (isSuspicious || score > 60) ? 'Tunneling' as const : 'Normal' as const;
-  
-  let confidence = 0.85;
-  if (label === 'Tunneling') {
-    confidence = Math.min(0.99, 0.7 + (score / 200) + (Math.random() * 0.1));
-  } else {
-    confidence = Math.min(0.99, 0.8 + (Math.random() * 0.15));
-  }
+export const classifyQuery = (query: Partial<DNSQuery>): { label: QueryLabel, confidence: number } => {
+  const name = query.entropy === undefined || query.length === undefined || query.lexical === undefined ? analyzeQueryName(query.query ?? "") : null;
+  const ctx = ruleContext({
+    ...query,
+    entropy: query.entropy ?? name!.entropy,
+    length: query.length ?? name!.length,
+    lexical: query.lexical ?? name!.lexical,
+    dgaScore: query.dgaScore ?? name!.dgaScore,
+    threatScore: query.threatScore ?? 0
+  });
 
+  const { label, confidence } = classify(ctx);
   return { label, confidence };
 };
 
+/**
+ * Runs the full rule pack: score, then classification (which may use the score, and is made
+ * by the loaded model instead when there is one), then the alert rules, and keeps every
+ * matching rule as a factor of the breakdown
+ */
+export const scoreQuery = (query: DNSQuery): Pick<DNSQuery, 'tool' | 'reputation' | 'intel' | 'domainIntel' | 'threatScore' | 'label' | 'confidence' | 'breakdown'> => {
+  const rules = getActiveRules();
+  const signature = matchToolSignature(query);
+  const intel = matchIntel(query);
+  const reputation = intel?.verdict ?? 'UNKNOWN';
+  const domainIntel = lookupDomainIntel(query.registeredDomain);
+  const ctx = ruleContext({ ...query, tool: signature?.tool, reputation, intel, domainIntel });
+  const { score, factors } = evaluateScore(ctx, rules);
+  ctx.threatScore = score;
+  const { label, confidence, factors: classified } = classify(ctx);
+  ctx.label = label;
+  const alertRule = evaluateAlert(ctx, rules);
+  const signatureFactor: ScoreFactor[] = signature
+    ? [{ factor: `${signature.tool} signature`, observed: `type = ${query.type}, query = ${query.query}`, effect: 'detector', ruleId: `signature.${signature.id}@${signature.version}` }]
+    : [];
+  const intelFactor: ScoreFactor[] = intel
+    ? [{ factor: `Threat intel: ${intel.feed}`, observed: `${intel.field} matches ${intel.kind} ${intel.indicator} (${intel.verdict}, confidence ${intel.confidence})`, effect: 'detector', ruleId: `intel.${intel.feed}` }]
+    : [];
+  return {
+    tool: signature?.tool,
+    reputation,
+    intel,
+    domainIntel,
+    threatScore: score,
+    label,
+    confidence,
+    breakdown: [...signatureFactor, ...intelFactor, ...factors, ...classified, ...(alertRule ? [ruleFactor(ctx, alertRule, 'alert')] : [])]
+  };
+};
+
+/**
+ * Alert to raise for a scored query, decided by the first matching alert rule
+ */
+export const alertForQuery = (query: DNSQuery): { type: AlertType; severity: AlertSeverity } | null => {
+  const rule = evaluateAlert(ruleContext(query), getActiveRules());
+  if (!rule) return null;
+  return {
+    type: rule.alert!,
+    severity: rule.severity ?? (query.threatScore > 85 ? 'CRITICAL' : (query.threatScore > 60 ? 'HIGH' : 'MEDIUM'))
+  };
+};
+
+const IPV4_ADDRESS = /^\d{1,3}(\.\d{1,3}){3}$/;
+const HOST_NAME = /^[a-z0-9_-]+(\.[a-z0-9_-]+)*\.?$/i;
+
+/**
+ * Best guess at the record type of an untyped answer string
+ */
+const inferAnswerType = (value: string, queryType: string): string => {
+  if (IPV4_ADDRESS.test(value)) return 'A';
+  if (value.includes(':') && /^[0-9a-f:.]+$/i.test(value)) return 'AAAA';
+  if (HOST_NAME.test(value) && value.includes('.')) return ['NS', 'PTR', 'MX', 'SRV'].includes(queryType) ? queryType : 'CNAME';
+  return queryType;
+};
+
+/**
+ * Builds typed answers from either answer objects or parallel `answers`/`ttls`/`answerTypes` arrays
+ */
+const toAnswers = (data: any, queryType: string): DNSAnswer[] | undefined => {
+  if (!Array.isArray(data.answers) || data.answers.length === 0) return undefined;
+  const ttls: any[] = Array.isArray(data.ttls) ? data.ttls : [];
+  const types: any[] = Array.isArray(data.answerTypes) ? data.answerTypes : [];
+
+  return data.answers.map((answer: any, i: number): DNSAnswer => {
+    if (answer && typeof answer === 'object') {
+      const ttl = Number(answer.ttl ?? answer.TTL);
+      return {
+        type: String(answer.type ?? answer.rrtype ?? 'UNKNOWN').toUpperCase(),
+        data: String(answer.data ?? answer.rdata ?? ''),
+        ttl: Number.isFinite(ttl) ? ttl : undefined
+      };
+    }
+    let value = String(answer);
+    let type = types[i] !== undefined ? String(types[i]).toUpperCase() : undefined;
+    // Zeek writes TXT answers as `TXT <length> <text>`
+    const txt = value.match(/^TXT \d+ ([\s\S]*)$/);
+    if (txt) {
+      value = txt[1];
+      type = 'TXT';
+    }
+    const ttl = Number(ttls[i]);
+    return { type: type ?? inferAnswerType(value, queryType), data: value, ttl: ttls[i] !== undefined && Number.isFinite(ttl) ? ttl : undefined };
+  });
+};
+
 /**
  * Normalizes various log formats into a standard DNSQuery object
  */
-const normalizeDNSQuery = (data: any): DNSQuery => {
+export const normalizeDNSQuery = (data: any): DNSQuery => {
   const query = data.query || data.domain || data.qname || data.Question || '';
-  const entropy = calculateEntropy(query);
-  const length = query.length;
+  const { subdomain, registeredDomain, publicSuffix, entropy, length, lexical, dgaScore } = analyzeQueryName(query);
+  const type = (data.type || data.qtype || data.QueryType || 'A').toUpperCase();
+  const answers = toAnswers(data, type);
+  const sourceIp = data.sourceIp || data.src_ip || data.client_ip || data.SourceIP || '192.168.1.1';
+  const responseSize = data.responseSize !== undefined && !isNaN(Number(data.responseSize)) ? Number(data.responseSize) : undefined;
   
-  // Extract metadata - everything that isn't a core field
-  const coreFields = ['id', 'timestamp', 'time', 'sourceIp', 'src_ip', 'client_ip', 'query', 'domain', 'qname', 'type', 'qtype', 'responseCode', 'rcode'];
-  const metadata: Record<string, any> = {};
+  // Extract metadata - everything that isn't a core field, on top of any metadata passed in
+  const coreFields = ['metadata', 'id', 'timestamp', 'time', 'sourceIp', 'src_ip', 'client_ip', 'query', 'subdomain', 'registeredDomain', 'publicSuffix', 'domain', 'qname', 'type', 'qtype', 'responseCode', 'rcode', 'answers', 'ttls', 'answerTypes', 'responseSize', 'truncated', 'uid', 'process', 'processId', 'host', 'lexical', 'dgaScore', 'tool', 'breakdown'];
+  const metadata: Record<string, any> = data.metadata && typeof data.metadata === 'object' && !Array.isArray(data.metadata) ? { ...data.metadata } : {};
   Object.keys(data).forEach(key => {
-    if (!coreFields.includes(key)) {
+    if (!coreFields.includes(key) && data[key] !== undefined) {
       metadata[key] = data[key];
     }
   });
@@ -145,82 +345,83 @@ const normalizeDNSQuery = (data: any): DNSQuery => {
   const queryObj: DNSQuery = {
     id: data.id || Math.random().toString(36).substr(2, 9),
     timestamp: data.timestamp || data.time || data.Timestamp || new Date().toISOString(),
-    sourceIp: data.sourceIp || data.src_ip || data.client_ip || data.SourceIP || '192.168.1.1',
+    sourceIp,
     query,
-    type: (data.type || data.qtype || data.QueryType || 'A').toUpperCase(),
+    subdomain,
+    registeredDomain,
+    publicSuffix,
+    type,
     responseCode: data.responseCode || data.rcode || data.ResponseCode || 'NOERROR',
+    answers,
+    responseSize,
+    truncated: data.truncated !== undefined ? data.truncated === true || data.truncated === 'true' || data.truncated === 'T' : undefined,
+    uid: data.uid,
+    process: data.process,
+    processId: data.processId,
+    host: data.host,
+    ...lookupGeo(sourceIp),
     length,
     entropy,
+    lexical,
+    dgaScore,
     metadata,
     reputation: 'UNKNOWN',
-    threatScore: 0, // Will be updated after classification
-    ...classifyQuery({ query, length, entropy })
+    threatScore: 0 // Will be updated by the rule pack
   };
   
-  // Update reputation
-  queryObj.reputation = checkIpReputation(queryObj.sourceIp);
-  
-  // Update threat score with full object
-  queryObj.threatScore = calculateThreatScore(queryObj);
-  return queryObj;
+  // Score and classify the full object
+  return { ...queryObj, ...scoreQuery(queryObj) };
 };
 
 /**
- * Parses a string content (JSON, CSV, or plain text logs)
+ * Identifies the log format from a sample of the content, typically the first chunk of a file
  */
-export const parseLogContent = (content: string): DNSQuery[] => {
-  const trimmed = content.trim();
-  if (!trimmed) return [];
-
-  // 1. Try parsing as a single JSON array or object
-  try {
-    const parsed = JSON.parse(trimmed);
-    const items = Array.isArray(parsed) ? parsed : [parsed];
-    return items.map(item => normalizeDNSQuery(item));
-  } catch (e) {
-    // Not a single JSON blob
-  }
+export const detectLogFormat = (sample: string): Exclude<LogFormat, 'pcap' | 'dnstap'> => {
+  const trimmed = sample.trim();
+  if (!trimmed) return 'text';
 
-  const lines = trimmed.split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('#'));
-  const queries: DNSQuery[] = [];
+  // Zeek dns.log carries its schema in #-directives, so detect it before comments are stripped
+  if (isZeekLog(trimmed)) return 'zeek';
 
-  // 2. Check for CSV
-  const firstLine = lines[0];
-  const isCSV = firstLine.includes(',') && !firstLine.includes('\t');
-  
-  if (isCSV) {
-    const headers = firstLine.split(',').map(h => h.trim().replace(/^["']|["']$/g, ''));
-    const likelyHeaders = ['query', 'domain', 'qname', 'ip', 'src', 'timestamp', 'time'];
-    const hasHeaders = headers.some(h => likelyHeaders.some(lh => h.toLowerCase().includes(lh)));
-    
-    const dataLines = hasHeaders ? lines.slice(1) : lines;
-    const currentHeaders = hasHeaders ? headers : ['timestamp', 'sourceIp', 'query', 'type', 'responseCode'];
-
-    dataLines.forEach(line => {
-      const parts = line.split(',').map(p => p.trim().replace(/^["']|["']$/g, ''));
-      const obj: any = {};
-      currentHeaders.forEach((h, i) => {
-        if (parts[i] !== undefined) obj[h] = parts[i];
-      });
-      if (obj.query || obj.domain || parts.length >= 3) {
-        queries.push(normalizeDNSQuery(obj));
-      }
-    });
-    
-    if (queries.length > 0) return queries;
-  }
+  // Endpoint telemetry (Sysmon Event ID 22) in XML or any of the EVTX JSON layouts
+  if (isSysmonContent(trimmed)) return 'sysmon';
 
-  // 3. Line-by-line JSON or Plain Text
-  lines.forEach((line) => {
+  // Resolver logs go before JSON: Unbound lines also start with '['
+  const resolverFormat = detectResolverFormat(sample.split(/\r?\n/));
+  if (resolverFormat) return resolverFormat;
+
+  if (/^(\{|\[\s*[[{\]])/.test(trimmed)) return 'json';
+
+  const firstLine = trimmed.split(/\r?\n/).map(l => l.trim()).find(l => l && !l.startsWith('#')) ?? '';
+  if (firstLine.includes(',') && !firstLine.includes('\t')) return 'csv';
+  // Tab- or semicolon-separated exports are only recognised by their header row
+  return ['\t', ';', '|'].some(d => firstLine.includes(d) && hasCsvHeader(firstLine, d)) ? 'csv' : 'text';
+};
+
+type Line = { text: string; line: number };
+
+const toLines = (content: string): Line[] =>
+  content.split(/\r?\n/)
+    .map((l, i) => ({ text: l.trim(), line: i + 1 }))
+    .filter(l => l.text && !l.text.startsWith('#'));
+
+/**
+ * Line-by-line JSON or plain text
+ */
+const parseTextLines = (lines: Line[]): { queries: DNSQuery[]; errors: ParseError[] } => {
+  const queries: DNSQuery[] = [];
+  const errors: ParseError[] = [];
+
+  lines.forEach(({ text, line }) => {
     // Try line-by-line JSON
     try {
-      const data = JSON.parse(line);
+      const data = JSON.parse(text);
       queries.push(normalizeDNSQuery(data));
       return;
     } catch (e) {}
 
     // Fallback to space/tab separated
-    const parts = line.split(/[\t\s]+/);
+    const parts = text.split(/[\t\s]+/);
     const queryStr = parts.find(p => p.includes('.') && !p.match(/^\d+$/));
     const ipStr = parts.find(p => p.match(/\b\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\b/));
     const type = parts.find(p => ['A', 'AAAA', 'TXT', 'CNAME', 'MX', 'NS'].includes(p.toUpperCase())) || 'A';
@@ -232,12 +433,60 @@ export const parseLogContent = (content: string): DNSQuery[] => {
         type: type,
         timestamp: parts[0].length > 10 ? parts[0] : undefined // Heuristic for timestamp
       }));
+    } else {
+      errors.push({ line, content: text, reason: 'No domain name found' });
     }
   });
-  
-  return queries;
+
+  return { queries, errors };
 };
 
+/**
+ * Parses content known to be in the given format. CSV columns follow `csvMapping`
+ * when given, otherwise they are inferred from the content.
+ */
+export const parseLogAs = (content: string, format: Exclude<LogFormat, 'pcap' | 'dnstap'>, csvMapping?: CsvMapping): ParseResult => {
+  switch (format) {
+    case 'zeek':
+      return parseZeekLog(content);
+    case 'sysmon':
+      return parseSysmonEvents(content);
+    case 'bind':
+    case 'unbound':
+    case 'dnsmasq':
+    case 'windows-dns':
+      return parseResolverLog(content, format);
+    case 'json': {
+      // A single JSON array or object, else one JSON document per line
+      try {
+        const parsed = JSON.parse(content.trim());
+        const items = Array.isArray(parsed) ? parsed : [parsed];
+        return { format, queries: items.map(item => normalizeDNSQuery(item)), errors: [] };
+      } catch (e) {
+        return { format, ...parseTextLines(toLines(content)) };
+      }
+    }
+    case 'csv': {
+      const result = parseCsv(content, csvMapping ?? inferCsvMapping(content.slice(0, 65536)));
+      if (result.queries.length > 0 || csvMapping) return { format, ...result };
+      return { format: 'text', ...parseTextLines(toLines(content)) };
+    }
+    default:
+      return { format: 'text', ...parseTextLines(toLines(content)) };
+  }
+};
+
+/**
+ * Parses a string content (Zeek, Sysmon, resolver query logs, JSON, CSV, or plain text logs)
+ * and reports the lines that could not be turned into a query
+ */
+export const parseLog = (content: string): ParseResult => parseLogAs(content, detectLogFormat(content));
+
+/**
+ * Parses a string content and returns only the recognised queries
+ */
+export const parseLogContent = (content: string): DNSQuery[] => parseLog(content).queries;
+
 export const generateMockData = (): DNSQuery[] => {
   const queries = [
     "google.com", "github.com", "microsoft.com", "amazon.aws", 
@@ -260,40 +509,43 @@ export const generateMockData = (): DNSQuery[] => {
     '104.16.132.229', '151.101.1.69', '172.217.1.14'
   ];
 
+  // Conficker-style generated names from one infected workstation
+  const dgaDomain = () => {
+    const letters = 'abcdefghijklmnopqrstuvwxyz';
+    const length = 10 + Math.floor(Math.random() * 5);
+    let label = '';
+    for (let c = 0; c < length; c++) label += letters[Math.floor(Math.random() * letters.length)];
+    return `${label}.${['com', 'net', 'info', 'biz'][Math.floor(Math.random() * 4)]}`;
+  };
+
   for (let i = 0; i < 100; i++) {
-    const isMalicious = Math.random() < 0.15;
+    const isDga = Math.random() < 0.1;
+    const isMalicious = !isDga && Math.random() < 0.15;
     const baseDomain = isMalicious 
       ? malicious[Math.floor(Math.random() * malicious.length)]
       : queries[Math.floor(Math.random() * queries.length)];
     
-    const queryStr = isMalicious ? baseDomain : (Math.random() > 0.5 ? `www.${baseDomain}` : baseDomain);
+    const queryStr = isDga ? dgaDomain() : (isMalicious ? baseDomain : (Math.random() > 0.5 ? `www.${baseDomain}` : baseDomain));
     
     const d = new Date(now.getTime() - (100 - i) * 10000);
     
-    const entropy = calculateEntropy(queryStr);
-    const sourceIp = isMalicious 
+    const sourceIp = isDga ? '192.168.1.66' : (isMalicious 
       ? (Math.random() > 0.5 ? '192.168.1.105' : publicIps[Math.floor(Math.random() * publicIps.length)])
-      : (Math.random() > 0.7 ? publicIps[Math.floor(Math.random() * publicIps.length)] : `192.168.1.${Math.floor(Math.random() * 50) + 10}`);
+      : (Math.random() > 0.7 ? publicIps[Math.floor(Math.random() * publicIps.length)] : `192.168.1.${Math.floor(Math.random() * 50) + 10}`));
 
     const queryObj: DNSQuery = {
       id: Math.random().toString(36).substr(2, 9),
       timestamp: d.toISOString(),
       sourceIp,
       query: queryStr,
+      ...analyzeQueryName(queryStr),
+      ...lookupGeo(sourceIp),
       type: Math.random() > 0.9 ? 'TXT' : 'A',
-      responseCode: isMalicious && Math.random() > 0.5 ? 'NXDOMAIN' : 'NOERROR',
-      length: queryStr.length,
-      entropy: entropy,
-      reputation: checkIpReputation(sourceIp),
+      responseCode: isDga || (isMalicious && Math.random() > 0.5) ? 'NXDOMAIN' : 'NOERROR',
       threatScore: 0,
     };
 
-    const classification = classifyQuery(queryObj);
-    queryObj.label = classification.label;
-    queryObj.confidence = classification.confidence;
-    queryObj.threatScore = calculateThreatScore(queryObj);
-
-    data.push(queryObj);
+    data.push({ ...queryObj, ...scoreQuery(queryObj) });
   }
   
   return data;
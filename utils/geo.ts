@@ -0,0 +1,111 @@
+import { GeoData, GeoDatabase, IpScope } from '../types';
+import { classifyIp } from './ip';
+import { createMmdbReader, MmdbReader } from './mmdb';
+
+/**
+ * Offline geolocation and ASN enrichment from user-loaded .mmdb files. City, country and
+ * ASN databases can be combined: each public address is looked up in every database and
+ * the first value found for each field wins. Local and special-purpose addresses are
+ * labelled by scope without a lookup.
+ */
+
+const SCOPE_LOCATIONS: Record<Exclude<IpScope, 'public'>, string> = {
+  private: 'Private Network',
+  cgnat: 'Carrier-Grade NAT',
+  loopback: 'Localhost',
+  'link-local': 'Link-Local',
+  'unique-local': 'Private Network (ULA)',
+  multicast: 'Multicast',
+  unspecified: 'Unspecified Address',
+  documentation: 'Documentation Range',
+  reserved: 'Reserved Range'
+};
+
+// Databases lookups run against; the UI installs the ones the user loaded
+let activeDatabases: GeoDatabase[] = [];
+
+export const setActiveGeoDatabases = (databases: GeoDatabase[]) => {
+  activeDatabases = databases;
+};
+
+export const getActiveGeoDatabases = (): GeoDatabase[] => activeDatabases;
+
+const readers = new WeakMap<ArrayBuffer, MmdbReader>();
+
+const readerFor = (buffer: ArrayBuffer): MmdbReader => {
+  let reader = readers.get(buffer);
+  if (!reader) {
+    reader = createMmdbReader(buffer);
+    readers.set(buffer, reader);
+  }
+  return reader;
+};
+
+/**
+ * Checks a loaded file and describes it; throws MmdbFormatError when it is not a MaxMind DB
+ */
+export const openGeoDatabase = (name: string, buffer: ArrayBuffer): GeoDatabase => {
+  const { metadata } = readerFor(buffer);
+  return {
+    name,
+    databaseType: metadata.databaseType,
+    buildEpoch: metadata.buildEpoch,
+    size: buffer.byteLength,
+    loadedAt: new Date().toISOString(),
+    buffer
+  };
+};
+
+/** English name from a GeoIP2 `names` map, or the value itself in flat layouts */
+const nameOf = (value: any): string | undefined => {
+  if (typeof value === 'string') return value || undefined;
+  const names = value?.names;
+  if (!names || typeof names !== 'object') return undefined;
+  return names.en ?? Object.values(names).find((n): n is string => typeof n === 'string');
+};
+
+const toNumber = (value: any): number | undefined => {
+  const n = typeof value === 'string' ? Number(value.replace(/^AS/i, '')) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+/**
+ * Reads GeoIP2/GeoLite2 and DB-IP records, and the flat ipinfo layout
+ */
+const fromRecord = (record: any): GeoData & { city?: string; country?: string } => ({
+  country: nameOf(record.country) ?? nameOf(record.registered_country),
+  countryCode: record.country?.iso_code ?? record.registered_country?.iso_code ?? record.country_code,
+  city: nameOf(record.city),
+  lat: toNumber(record.location?.latitude ?? record.latitude),
+  lng: toNumber(record.location?.longitude ?? record.longitude),
+  asn: toNumber(record.autonomous_system_number ?? record.asn),
+  asOrg: record.autonomous_system_organization ?? record.as_name ?? record.org
+});
+
+/**
+ * Enrichment for an address from the active databases. Every field is present, undefined
+ * when unknown, so spreading the result over a query also clears stale values.
+ */
+export const lookupGeo = (ip: string): GeoData => {
+  const geo: GeoData = { ipScope: undefined, location: undefined, lat: undefined, lng: undefined, countryCode: undefined, asn: undefined, asOrg: undefined };
+  const ipScope = classifyIp(ip) ?? undefined;
+  if (ipScope !== 'public') return { ...geo, ipScope, location: ipScope && SCOPE_LOCATIONS[ipScope] };
+
+  let found: ReturnType<typeof fromRecord> = {};
+  for (const database of activeDatabases) {
+    let record: any;
+    try {
+      record = readerFor(database.buffer).lookup(ip);
+    } catch (error) {
+      continue;
+    }
+    if (!record || typeof record !== 'object') continue;
+    // Only known values are merged, so fields already found take precedence
+    const known = Object.entries(fromRecord(record)).filter(([, value]) => value !== undefined);
+    found = { ...Object.fromEntries(known), ...found };
+  }
+
+  const { city, country, ...fields } = found;
+  const location = [city, country].filter(Boolean).join(', ') || undefined;
+  return { ...geo, ...fields, ipScope, location };
+};
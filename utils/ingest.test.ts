@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { DNSQuery, ParseError, ParseResult } from '../types';
+import { createStreamingLogParser } from './ingest';
+
+/** Feeds `text` in `size`-character chunks and collects everything the parser emits */
+const streamInChunks = (text: string, size: number) => {
+  const parser = createStreamingLogParser();
+  const out = { queries: [] as DNSQuery[], errors: [] as ParseError[] };
+  const collect = (result: ParseResult | null) => {
+    if (!result) return;
+    out.queries.push(...result.queries);
+    out.errors.push(...result.errors);
+  };
+  for (let i = 0; i < text.length; i += size) collect(parser.push(text.slice(i, i + size)));
+  collect(parser.end());
+  return { ...out, format: parser.format() };
+};
+
+const record = (query: string) => `  {\n    "timestamp": "2024-01-01T00:00:00Z",\n    "sourceIp": "10.0.0.5",\n    "query": "${query}",\n    "type": "A"\n  }`;
+
+describe('createStreamingLogParser', () => {
+  it('reports file lines, not element indices, for bad array elements', () => {
+    const text = `[\n${record('a.example.com')},\n  {"query": oops},\n${record('b.example.com')}\n]\n`;
+    const { queries, errors } = streamInChunks(text, 16);
+    expect(queries.map(q => q.query)).toEqual(['a.example.com', 'b.example.com']);
+    expect(errors.map(e => e.line)).toEqual([8]);
+  });
+
+  it('streams the record array of a wrapper object', () => {
+    const records = Array.from({ length: 1000 }, (_, i) => record(`host${i}.example.com`));
+    const text = `{\n  "records": [\n${records.join(',\n')}\n  ],\n  "count": 1000\n}\n`;
+    const parser = createStreamingLogParser();
+    // Records arrive before the end of input instead of after buffering the whole document
+    expect(parser.push(text.slice(0, -200))?.queries.length).toBeGreaterThan(0);
+
+    const { queries, errors, format } = streamInChunks(text, 4096);
+    expect(format).toBe('json');
+    expect(queries).toHaveLength(1000);
+    expect(queries[999].query).toBe('host999.example.com');
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,258 @@
+import { ClassifierModel, CsvMapping, DetectionRule, DNSQuery, DomainIntel, GeoDatabase, LogFormat, ParseError, ParseResult, ThreatFeed } from '../types';
+import { detectLogFormat, parseLogAs } from './forensics';
+import { inferCsvMapping, lastRecordBoundary } from './csv';
+
+/**
+ * Incremental log parsing for files too large to hold as one string.
+ * Text arrives in arbitrary chunks; complete records are cut into blocks and handed to
+ * the regular per-format parsers, carrying forward whatever context a block needs
+ * (Zeek #-directives, the CSV column mapping) and keeping error line numbers file-relative.
+ */
+
+type TextFormat = Exclude<LogFormat, 'pcap' | 'dnstap'>;
+
+/** How many characters to buffer before committing to a format */
+const DETECTION_SAMPLE = 64 * 1024;
+/**
+ * A pretty-printed JSON object that is not a wrapper around a record array has no record
+ * boundaries to cut at and is parsed in one piece at the end, so it is capped
+ */
+export const MAX_WHOLE_DOCUMENT_CHARS = 64 * 1024 * 1024;
+
+// `{ "Events": [ ... ] }` and `{ "records": [ ... ] }` exports are streamed like a bare array
+const RECORD_ARRAY_WRAPPER = /^\{\s*"(Events|records)"\s*:\s*\[/;
+
+type SplitMode = 'lines' | 'json-array' | 'xml-events' | 'whole';
+
+export interface StreamingLogParser {
+  /** Feeds the next decoded chunk; returns the records completed by it, if any */
+  push: (text: string) => ParseResult | null;
+  /** Flushes whatever is still buffered at end of input */
+  end: () => ParseResult | null;
+  format: () => TextFormat | null;
+}
+
+const ZEEK_CONTEXT_DIRECTIVES = ['#separator', '#set_separator', '#empty_field', '#unset_field', '#path', '#fields', '#types'];
+
+const countNewlines = (text: string): number => {
+  let n = 0;
+  for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) n++;
+  return n;
+};
+
+export interface StreamingLogOptions {
+  /** Parse as CSV with this mapping instead of detecting the format */
+  csvMapping?: CsvMapping;
+}
+
+export const createStreamingLogParser = (options: StreamingLogOptions = {}): StreamingLogParser => {
+  let buffer = '';
+  let format: TextFormat | null = options.csvMapping ? 'csv' : null;
+  let mode: SplitMode = 'lines';
+  /** 1-based file line number of the first line in `buffer` */
+  let nextLine = 1;
+
+  // Per-format context carried into every block
+  let zeekHeader: string[] = [];
+  let csvMapping: CsvMapping | null = options.csvMapping ?? null;
+  let csvHeaderPending = true;
+
+  // JSON array element scanner state
+  let scanPos = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+  let arrayOpened = false;
+  let arrayClosed = false;
+  /** File line of the next character the scanner reads, and of the element being collected */
+  let scanLine = 1;
+  let elementLine = 1;
+
+  const chooseMode = (sample: string): SplitMode => {
+    const trimmed = sample.trimStart();
+    if (format === 'sysmon' && trimmed.startsWith('<')) return 'xml-events';
+    const isJson = format === 'json' || format === 'sysmon' || format === 'zeek';
+    if (trimmed.startsWith('[') && isJson) return 'json-array';
+    if (trimmed.startsWith('{')) {
+      // NDJSON if the first line is a complete document; otherwise a pretty-printed object
+      const firstLine = trimmed.slice(0, trimmed.indexOf('\n') >= 0 ? trimmed.indexOf('\n') : undefined);
+      try {
+        JSON.parse(firstLine);
+        return 'lines';
+      } catch {
+        return isJson && RECORD_ARRAY_WRAPPER.test(trimmed) ? 'json-array' : 'whole';
+      }
+    }
+    return 'lines';
+  };
+
+  const startElement = (i: number) => {
+    elementStart = i;
+    elementLine = scanLine;
+  };
+
+  const offsetErrors = (errors: ParseError[], delta: number): ParseError[] =>
+    delta === 0 ? errors : errors.map(e => ({ ...e, line: e.line + delta }));
+
+  /**
+   * Parses a block of complete lines that starts at file line `startLine`
+   */
+  const parseLineBlock = (block: string, startLine: number): ParseResult => {
+    if (format === 'csv' && csvMapping) {
+      // Only the first block carries the header row
+      let result = parseLogAs(block, 'csv', { ...csvMapping, hasHeader: csvMapping.hasHeader && csvHeaderPending });
+      csvHeaderPending = false;
+      if (result.queries.length === 0 && !options.csvMapping) result = parseLogAs(block, 'text');
+      return { ...result, errors: offsetErrors(result.errors, startLine - 1) };
+    }
+
+    let prefix: string[] = [];
+    if (format === 'zeek' && zeekHeader.length > 0 && !block.trimStart().startsWith('#separator')) prefix = zeekHeader;
+
+    const result = parseLogAs(prefix.length > 0 ? `${prefix.join('\n')}\n${block}` : block, format!);
+
+    // Remember context for the next block
+    if (format === 'zeek') {
+      for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith('#separator')) zeekHeader = [line];
+        else if (ZEEK_CONTEXT_DIRECTIVES.some(d => line.startsWith(d))) zeekHeader = [...zeekHeader.filter(h => !h.startsWith(line.split(/\s/)[0])), line];
+      }
+    }
+
+    return { ...result, errors: offsetErrors(result.errors, startLine - 1 - prefix.length) };
+  };
+
+  const takeLines = (final: boolean): ParseResult | null => {
+    // CSV records may contain quoted line breaks
+    const cut = final ? buffer.length : format === 'csv' ? lastRecordBoundary(buffer, csvMapping?.delimiter) : buffer.lastIndexOf('\n') + 1;
+    if (cut <= 0) return null;
+    const block = buffer.slice(0, cut);
+    buffer = buffer.slice(cut);
+    const startLine = nextLine;
+    nextLine += countNewlines(block);
+    return block.trim() ? parseLineBlock(block, startLine) : null;
+  };
+
+  const takeXmlEvents = (final: boolean): ParseResult | null => {
+    const closeTag = '</Event>';
+    const last = buffer.lastIndexOf(closeTag);
+    const cut = final ? buffer.length : last < 0 ? 0 : last + closeTag.length;
+    if (cut <= 0) return null;
+    const block = buffer.slice(0, cut);
+    buffer = buffer.slice(cut);
+    const startLine = nextLine;
+    nextLine += countNewlines(block);
+    const result = parseLogAs(block, format!);
+    return { ...result, errors: offsetErrors(result.errors, startLine - 1) };
+  };
+
+  /**
+   * Splits a top-level JSON array, bare or wrapped in an object, into elements without parsing
+   * the whole document. Elements are re-emitted one per line (raw newlines cannot occur inside
+   * JSON strings); errors are reported at the file line each element starts on.
+   */
+  const takeJsonElements = (final: boolean): ParseResult | null => {
+    const elements: { text: string; line: number }[] = [];
+
+    for (let i = scanPos; i < buffer.length; i++) {
+      const c = buffer[i];
+      if (c === '\n') scanLine++;
+      if (arrayClosed) continue;
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === '\\') escaped = true;
+        else if (c === '"') inString = false;
+        continue;
+      }
+      if (!arrayOpened) {
+        if (c === '[') arrayOpened = true;
+        continue;
+      }
+      if (c === '"') {
+        inString = true;
+        if (depth === 0 && elementStart < 0) startElement(i);
+      } else if (c === '{' || c === '[') {
+        if (depth === 0 && elementStart < 0) startElement(i);
+        depth++;
+      } else if (c === '}' || c === ']') {
+        if (depth === 0) {
+          // closing bracket of the top-level array; anything after it is the wrapper's
+          if (elementStart >= 0) elements.push({ text: buffer.slice(elementStart, i), line: elementLine });
+          elementStart = -1;
+          arrayClosed = true;
+          continue;
+        }
+        depth--;
+      } else if (c === ',' && depth === 0) {
+        if (elementStart >= 0) elements.push({ text: buffer.slice(elementStart, i), line: elementLine });
+        elementStart = -1;
+      } else if (depth === 0 && elementStart < 0 && !/\s/.test(c)) {
+        startElement(i);
+      }
+    }
+
+    // Keep the unfinished element (if any) for the next chunk
+    const keepFrom = elementStart >= 0 ? elementStart : buffer.length;
+    scanPos = buffer.length - keepFrom;
+    if (elementStart >= 0) elementStart = 0;
+    buffer = buffer.slice(keepFrom);
+    if (final && buffer.trim() && elementStart >= 0) elements.push({ text: buffer.trim(), line: elementLine });
+
+    if (elements.length === 0) return null;
+    const block = elements.map(e => e.text.replace(/\r?\n/g, ' ').trim()).join('\n');
+    const result = parseLogAs(block, format!);
+    // Error lines count elements within the block; map them back to the file
+    return { ...result, errors: result.errors.map(e => ({ ...e, line: elements[e.line - 1]?.line ?? e.line })) };
+  };
+
+  const drain = (final: boolean): ParseResult | null => {
+    if (format === null) {
+      if (!final && buffer.length < DETECTION_SAMPLE) return null;
+      format = detectLogFormat(buffer.slice(0, DETECTION_SAMPLE));
+      mode = chooseMode(buffer.slice(0, DETECTION_SAMPLE));
+      if (format === 'csv') csvMapping = inferCsvMapping(buffer.slice(0, DETECTION_SAMPLE));
+    }
+    switch (mode) {
+      case 'xml-events': return takeXmlEvents(final);
+      case 'json-array': return takeJsonElements(final);
+      case 'whole':
+        if (!final && buffer.length > MAX_WHOLE_DOCUMENT_CHARS) {
+          throw new Error(`JSON objects over ${MAX_WHOLE_DOCUMENT_CHARS / 1024 / 1024} MB cannot be streamed; export the records as a JSON array or one JSON object per line`);
+        }
+        return final ? takeLines(true) : null;
+      default: return takeLines(final);
+    }
+  };
+
+  return {
+    push: (text: string) => {
+      buffer += text;
+      return drain(false);
+    },
+    end: () => drain(true),
+    format: () => format
+  };
+};
+
+// --- Worker protocol ---
+
+export type IngestKind = 'log' | 'pcap';
+
+export type IngestRequest =
+  | { type: 'start'; file: File; kind: IngestKind; csvMapping?: CsvMapping; rules: DetectionRule[]; model: ClassifierModel | null; intel: ThreatFeed[]; geo: GeoDatabase[]; domains: DomainIntel[] }
+  | { type: 'cancel' };
+
+export interface IngestProgress {
+  bytesRead: number;
+  totalBytes: number;
+  records: number;
+  errors: number;
+}
+
+export type IngestEvent =
+  | { type: 'batch'; queries: DNSQuery[]; errors: ParseError[] }
+  | { type: 'progress'; progress: IngestProgress }
+  | { type: 'done'; format: LogFormat | null; progress: IngestProgress }
+  | { type: 'cancelled'; progress: IngestProgress }
+  | { type: 'error'; message: string };
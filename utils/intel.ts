@@ -0,0 +1,400 @@
+import { DNSQuery, IndicatorKind, IntelFeedFormat, IntelMatch, IntelVerdict, ThreatFeed, ThreatIndicator } from '../types';
+import { parseDelimited } from './csv';
+import { Cidr, parseCidr, parseIp } from './ip';
+
+/**
+ * Threat-intel store. Feeds are imported from plain IP/domain lists (hosts-file lines
+ * included), CSV, STIX 2.1 bundles and MISP JSON exports, normalised to indicators and
+ * indexed so every query can be checked against its client address, name and answers.
+ */
+
+export const DEFAULT_CONFIDENCE = 75;
+
+const HOST_NAME = /^[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?(\.[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?)+$/;
+// Sinkhole addresses that prefix domains in hosts-file blocklists
+const HOSTS_FILE_ADDRESSES = ['0.0.0.0', '127.0.0.1', '::', '::1'];
+
+interface IndicatorDefaults {
+  verdict: IntelVerdict;
+  confidence: number;
+  expiresAt?: string;
+  description?: string;
+}
+
+const DEFAULTS: IndicatorDefaults = { verdict: 'MALICIOUS', confidence: DEFAULT_CONFIDENCE };
+
+// Undo the defanging reports apply to indicators: evil[.]com, hxxp://
+const refang = (value: string) =>
+  value.trim().replace(/\[\.\]|\(\.\)|\{\.\}|\[dot\]/gi, '.').replace(/\[:\]/g, ':').replace(/^hxxp/i, 'http');
+
+/**
+ * Indicator for one IP, CIDR range, domain, wildcard domain or URL (reduced to its host); null when it is none of these
+ */
+export const toIndicator = (raw: string, defaults: IndicatorDefaults = DEFAULTS): ThreatIndicator | null => {
+  let value = refang(raw);
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    try {
+      value = new URL(value).hostname.replace(/^\[|\]$/g, '');
+    } catch (error) {
+      return null;
+    }
+  }
+  value = value.toLowerCase().replace(/\.$/, '');
+  if (!value) return null;
+
+  let kind: IndicatorKind | null = null;
+  if (value.includes('/')) {
+    const cidr = parseCidr(value);
+    if (cidr) kind = cidr.prefix === (cidr.version === 4 ? 32 : 128) ? 'ip' : 'cidr';
+    if (kind === 'ip') value = value.split('/')[0];
+  } else if (parseIp(value)) {
+    kind = 'ip';
+  } else if (value.startsWith('*.') && HOST_NAME.test(value.slice(2))) {
+    kind = 'wildcard';
+  } else if (HOST_NAME.test(value)) {
+    kind = 'domain';
+  }
+  if (!kind) return null;
+
+  return {
+    kind,
+    value,
+    verdict: defaults.verdict,
+    confidence: defaults.confidence,
+    ...(defaults.expiresAt ? { expiresAt: defaults.expiresAt } : {}),
+    ...(defaults.description ? { description: defaults.description } : {})
+  };
+};
+
+/**
+ * 0-100 from a percentage, a 0-1 fraction or a high/medium/low word
+ */
+const toConfidence = (raw: unknown, fallback: number): number => {
+  if (typeof raw === 'string') {
+    const word = raw.trim().toLowerCase();
+    if (/^(high|critical|strong)/.test(word)) return 90;
+    if (/^(medium|moderate)/.test(word)) return 60;
+    if (/^(low|weak)/.test(word)) return 30;
+  }
+  const n = typeof raw === 'number' ? raw : parseFloat(String(raw));
+  if (!isFinite(n) || n < 0) return fallback;
+  return Math.round(Math.min(100, n <= 1 ? n * 100 : n));
+};
+
+// Whole words of a verdict, severity or reputation column
+const MALICIOUS_WORDS = ['malicious', 'malware', 'high', 'critical', 'block', 'blocked', 'deny', 'bad'];
+const SUSPICIOUS_WORDS = ['suspicious', 'medium', 'low', 'monitor', 'unknown', 'anomalous'];
+const BENIGN_WORDS = ['benign', 'clean', 'allow', 'allowed', 'safe', 'good', 'harmless', 'legitimate', 'neutral', 'whitelisted', 'allowlisted'];
+// "non-malicious", "not malicious"
+const NEGATION_WORDS = ['non', 'not'];
+
+/**
+ * Verdict for a column value, or BENIGN for rows the feed marks harmless. Threat and
+ * classification columns carry categories (phishing, botnet_cc) rather than verdicts;
+ * those, like an empty value, take the fallback.
+ */
+const toVerdict = (raw: unknown, fallback: IntelVerdict): IntelVerdict | 'BENIGN' => {
+  const words = String(raw ?? '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  if (words.some(w => NEGATION_WORDS.includes(w) || BENIGN_WORDS.includes(w))) return 'BENIGN';
+  if (words.some(w => MALICIOUS_WORDS.includes(w))) return 'MALICIOUS';
+  if (words.some(w => SUSPICIOUS_WORDS.includes(w))) return 'SUSPICIOUS';
+  return fallback;
+};
+
+/**
+ * ISO date from a date string or epoch seconds/milliseconds
+ */
+export const toDate = (raw: unknown): string | undefined => {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const time = typeof raw === 'number' ? (raw < 1e12 ? raw * 1000 : raw) : Date.parse(String(raw));
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+interface FeedParse {
+  indicators: ThreatIndicator[];
+  errors: string[];
+}
+
+const parseList = (text: string): FeedParse => {
+  const indicators: ThreatIndicator[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const content = line.replace(/\s[#;].*$/, '').trim();
+    if (!content || content.startsWith('#') || content.startsWith(';') || content.startsWith('//')) return;
+    const tokens = content.split(/\s+/);
+    const raw = tokens.length > 1 && HOSTS_FILE_ADDRESSES.includes(tokens[0]) ? tokens[1] : tokens[0];
+    const indicator = toIndicator(raw);
+    if (indicator) indicators.push(indicator);
+    else errors.push(`Line ${i + 1}: "${raw}" is not an IP, CIDR range or domain`);
+  });
+  return { indicators, errors };
+};
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  indicator: ['indicator', 'value', 'ioc', 'ip', 'ip_address', 'domain', 'host', 'hostname', 'address', 'observable', 'cidr'],
+  confidence: ['confidence', 'score', 'certainty', 'confidence_level'],
+  verdict: ['verdict', 'severity', 'threat', 'threat_level', 'classification', 'reputation'],
+  expires: ['expires', 'expiry', 'expiration', 'expires_at', 'valid_until', 'valid until'],
+  description: ['description', 'comment', 'comments', 'notes', 'tags', 'name', 'malware', 'threat_type']
+};
+
+const parseCsv = (text: string): FeedParse => {
+  const delimiter = text.slice(0, text.indexOf('\n') >= 0 ? text.indexOf('\n') : undefined).includes('\t') ? '\t' : ',';
+  const records = parseDelimited(text, delimiter).filter(r => r.fields.some(f => f.trim()) && !r.fields[0].trim().startsWith('#'));
+  const header = records[0]?.fields.map(f => f.trim().toLowerCase()) ?? [];
+  const column = (name: string) => header.findIndex(h => CSV_COLUMNS[name].includes(h));
+  const hasHeader = column('indicator') >= 0;
+  const columns = {
+    indicator: hasHeader ? column('indicator') : 0,
+    confidence: hasHeader ? column('confidence') : -1,
+    verdict: hasHeader ? column('verdict') : -1,
+    expires: hasHeader ? column('expires') : -1,
+    description: hasHeader ? column('description') : -1
+  };
+
+  const indicators: ThreatIndicator[] = [];
+  const errors: string[] = [];
+  let benign = 0;
+  (hasHeader ? records.slice(1) : records).forEach(record => {
+    const field = (i: number) => (i >= 0 ? record.fields[i]?.trim() : undefined) || undefined;
+    const raw = field(columns.indicator) ?? '';
+    const verdict = toVerdict(field(columns.verdict), 'MALICIOUS');
+    if (verdict === 'BENIGN') {
+      benign++;
+      return;
+    }
+    const indicator = toIndicator(raw, {
+      verdict,
+      confidence: toConfidence(field(columns.confidence), DEFAULT_CONFIDENCE),
+      expiresAt: toDate(field(columns.expires)),
+      description: field(columns.description)
+    });
+    if (indicator) indicators.push(indicator);
+    else errors.push(`Line ${record.line}: "${raw}" is not an IP, CIDR range or domain`);
+  });
+  if (benign > 0) errors.push(`${benign} ${benign === 1 ? 'row' : 'rows'} marked benign or allowed skipped`);
+  return { indicators, errors };
+};
+
+// `[ipv4-addr:value = '1.2.3.4' OR domain-name:value = 'evil.com']`, plus ISSUBSET for ranges and LIKE for wildcards
+const STIX_COMPARISON = /(ipv4-addr|ipv6-addr|domain-name|url):value\s*(=|ISSUBSET|LIKE)\s*'((?:[^'\\]|\\.)*)'/gi;
+
+const parseStix = (bundle: any): FeedParse => {
+  const indicators: ThreatIndicator[] = [];
+  const errors: string[] = [];
+  for (const object of bundle.objects ?? []) {
+    if (object?.type !== 'indicator' || object.revoked) continue;
+    if (object.pattern_type && object.pattern_type !== 'stix') continue;
+    const types: string[] = Array.isArray(object.indicator_types) ? object.indicator_types : [];
+    const defaults: IndicatorDefaults = {
+      verdict: types.length > 0 && !types.some(t => ['malicious-activity', 'attribution', 'compromised'].includes(t)) ? 'SUSPICIOUS' : 'MALICIOUS',
+      confidence: toConfidence(object.confidence, DEFAULT_CONFIDENCE),
+      expiresAt: toDate(object.valid_until),
+      description: object.name ?? object.description
+    };
+    const before = indicators.length;
+    for (const [, , op, raw] of String(object.pattern ?? '').matchAll(STIX_COMPARISON)) {
+      const value = op.toUpperCase() === 'LIKE' ? raw.replace(/^%\.?/, '*.') : raw;
+      const indicator = toIndicator(value.replace(/\\(.)/g, '$1'), defaults);
+      if (indicator) indicators.push(indicator);
+    }
+    if (indicators.length === before) errors.push(`${object.id ?? 'indicator'}: no IP or domain comparison in pattern ${object.pattern ?? '(none)'}`);
+  }
+  return { indicators, errors };
+};
+
+const MISP_TYPES = ['ip-src', 'ip-dst', 'ip-src|port', 'ip-dst|port', 'domain', 'hostname', 'domain|ip', 'hostname|port', 'url'];
+// threat_level_id: 1 high, 2 medium, 3 low, 4 undefined
+const MISP_CONFIDENCE: Record<string, number> = { '1': 90, '2': 75, '3': 50, '4': 50 };
+
+const parseMisp = (doc: any): FeedParse => {
+  const indicators: ThreatIndicator[] = [];
+  const errors: string[] = [];
+  const events: any[] = Array.isArray(doc) ? doc : (Array.isArray(doc.response) ? doc.response : [doc]);
+  for (const wrapper of events) {
+    const event = wrapper?.Event ?? wrapper;
+    const level = String(event?.threat_level_id ?? '4');
+    const attributes: any[] = [
+      ...(event?.Attribute ?? []),
+      ...(event?.Object ?? []).flatMap((o: any) => o?.Attribute ?? [])
+    ];
+    for (const attribute of attributes) {
+      if (!MISP_TYPES.includes(attribute?.type) || typeof attribute.value !== 'string') continue;
+      const defaults: IndicatorDefaults = {
+        // Attributes not flagged for detection are context, not verdicts
+        verdict: attribute.to_ids === false || level === '3' || level === '4' ? 'SUSPICIOUS' : 'MALICIOUS',
+        confidence: MISP_CONFIDENCE[level] ?? DEFAULT_CONFIDENCE,
+        description: attribute.comment || event.info
+      };
+      // Composite types carry the port or a second indicator after a pipe
+      const values: string[] = attribute.type === 'domain|ip' ? attribute.value.split('|') : [attribute.value.split('|')[0]];
+      for (const value of values) {
+        const indicator = toIndicator(value, defaults);
+        if (indicator) indicators.push(indicator);
+        else errors.push(`Attribute ${attribute.uuid ?? attribute.id ?? ''} (${attribute.type}): "${value}" is not an IP, CIDR range or domain`);
+      }
+    }
+  }
+  return { indicators, errors };
+};
+
+const isStrongerIndicator = (a: ThreatIndicator, b: ThreatIndicator) =>
+  (a.verdict === 'MALICIOUS' ? 1000 : 0) + a.confidence > (b.verdict === 'MALICIOUS' ? 1000 : 0) + b.confidence;
+
+/**
+ * Detects the feed's format and reads its indicators; a value listed twice keeps its strongest entry
+ */
+export const parseIntelFeed = (text: string, fileName: string): { feed: ThreatFeed; errors: string[] } => {
+  let format: IntelFeedFormat = 'list';
+  let result: FeedParse;
+  const trimmed = text.trimStart();
+  const firstLine = trimmed.slice(0, trimmed.indexOf('\n') >= 0 ? trimmed.indexOf('\n') : undefined);
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const doc = JSON.parse(text);
+      if (doc?.type === 'bundle' && Array.isArray(doc.objects)) {
+        format = 'stix';
+        result = parseStix(doc);
+      } else {
+        format = 'misp';
+        result = parseMisp(doc);
+      }
+    } catch (error) {
+      result = { indicators: [], errors: [`Invalid JSON: ${(error as Error).message}`] };
+    }
+  } else if (/\.(csv|tsv)$/i.test(fileName) || /[,\t]/.test(firstLine)) {
+    format = 'csv';
+    result = parseCsv(text);
+  } else {
+    result = parseList(text);
+  }
+
+  const unique = new Map<string, ThreatIndicator>();
+  for (const indicator of result.indicators) {
+    const key = `${indicator.kind}:${indicator.value}`;
+    const existing = unique.get(key);
+    if (!existing || isStrongerIndicator(indicator, existing)) unique.set(key, indicator);
+  }
+
+  return {
+    feed: {
+      name: fileName.replace(/\.[^.]+$/, '') || fileName,
+      format,
+      importedAt: new Date().toISOString(),
+      indicators: Array.from(unique.values())
+    },
+    errors: result.errors
+  };
+};
+
+type IndexedIndicator = ThreatIndicator & { feed: string };
+
+interface IntelIndex {
+  ips: Map<string, IndexedIndicator[]>;
+  domains: Map<string, IndexedIndicator[]>;
+  wildcards: Map<string, IndexedIndicator[]>;
+  /** Networks by address family and prefix length, keyed by the network bits */
+  cidrs: { range: Pick<Cidr, 'version' | 'prefix'>; networks: Map<bigint, IndexedIndicator[]> }[];
+}
+
+const ipKey = (ip: string) => {
+  const parsed = parseIp(ip);
+  return parsed ? `${parsed.version}:${parsed.value}` : null;
+};
+
+const push = <K>(map: Map<K, IndexedIndicator[]>, key: K, indicator: IndexedIndicator) => {
+  if (!map.has(key)) map.set(key, []);
+  map.get(key)!.push(indicator);
+};
+
+const buildIndex = (feeds: ThreatFeed[]): IntelIndex => {
+  const index: IntelIndex = { ips: new Map(), domains: new Map(), wildcards: new Map(), cidrs: [] };
+  for (const feed of feeds) {
+    for (const indicator of feed.indicators) {
+      const entry = { ...indicator, feed: feed.name };
+      if (indicator.kind === 'ip') {
+        const key = ipKey(indicator.value);
+        if (key) push(index.ips, key, entry);
+      } else if (indicator.kind === 'cidr') {
+        const cidr = parseCidr(indicator.value);
+        if (!cidr) continue;
+        let group = index.cidrs.find(g => g.range.version === cidr.version && g.range.prefix === cidr.prefix);
+        if (!group) {
+          group = { range: { version: cidr.version, prefix: cidr.prefix }, networks: new Map() };
+          index.cidrs.push(group);
+        }
+        push(group.networks, cidr.value >> BigInt((cidr.version === 4 ? 32 : 128) - cidr.prefix), entry);
+      } else if (indicator.kind === 'wildcard') {
+        push(index.wildcards, indicator.value.slice(2), entry);
+      } else {
+        push(index.domains, indicator.value, entry);
+      }
+    }
+  }
+  return index;
+};
+
+// Feeds used by scoring; the UI and the ingest worker install the imported store
+let activeFeeds: ThreatFeed[] = [];
+let activeIndex: IntelIndex = buildIndex([]);
+
+export const setActiveIntel = (feeds: ThreatFeed[]) => {
+  activeFeeds = feeds;
+  activeIndex = buildIndex(feeds);
+};
+
+export const getActiveIntel = (): ThreatFeed[] => activeFeeds;
+
+const ipIndicators = (ip: string): IndexedIndicator[] => {
+  const parsed = parseIp(ip);
+  if (!parsed) return [];
+  const found = [...(activeIndex.ips.get(`${parsed.version}:${parsed.value}`) ?? [])];
+  for (const { range, networks } of activeIndex.cidrs) {
+    if (range.version !== parsed.version) continue;
+    found.push(...(networks.get(parsed.value >> BigInt((parsed.version === 4 ? 32 : 128) - range.prefix)) ?? []));
+  }
+  return found;
+};
+
+// A wildcard covers its domain and every name under it
+const domainIndicators = (name: string): IndexedIndicator[] => {
+  const domain = name.toLowerCase().replace(/\.$/, '');
+  const found = [...(activeIndex.domains.get(domain) ?? [])];
+  const labels = domain.split('.');
+  for (let i = 0; i < labels.length - 1; i++) found.push(...(activeIndex.wildcards.get(labels.slice(i).join('.')) ?? []));
+  return found;
+};
+
+/**
+ * Strongest unexpired indicator matching the query's client address, name or answers
+ */
+export const matchIntel = (query: Pick<DNSQuery, 'sourceIp' | 'query' | 'answers'>, now: number = Date.now()): IntelMatch | undefined => {
+  if (activeFeeds.length === 0) return undefined;
+  const candidates: [IndexedIndicator, IntelMatch['field']][] = [
+    ...ipIndicators(query.sourceIp).map(i => [i, 'sourceIp'] as [IndexedIndicator, IntelMatch['field']]),
+    ...domainIndicators(query.query).map(i => [i, 'query'] as [IndexedIndicator, IntelMatch['field']])
+  ];
+  for (const answer of query.answers ?? []) {
+    const found = answer.type === 'A' || answer.type === 'AAAA' ? ipIndicators(answer.data)
+      : (answer.type === 'CNAME' ? domainIndicators(answer.data) : []);
+    candidates.push(...found.map(i => [i, 'answer'] as [IndexedIndicator, IntelMatch['field']]));
+  }
+
+  let best: [IndexedIndicator, IntelMatch['field']] | undefined;
+  for (const candidate of candidates) {
+    if (candidate[0].expiresAt && Date.parse(candidate[0].expiresAt) <= now) continue;
+    if (!best || isStrongerIndicator(candidate[0], best[0])) best = candidate;
+  }
+  if (!best) return undefined;
+  const [indicator, field] = best;
+  return {
+    feed: indicator.feed,
+    kind: indicator.kind,
+    indicator: indicator.value,
+    verdict: indicator.verdict,
+    confidence: indicator.confidence,
+    field,
+    ...(indicator.description ? { description: indicator.description } : {})
+  };
+};
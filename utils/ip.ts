@@ -0,0 +1,138 @@
+import { IpScope } from '../types';
+
+/**
+ * IPv4/IPv6 address and CIDR parsing, and classification of special-purpose ranges.
+ * Addresses are held as bigints so both families share one prefix comparison.
+ */
+
+export interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+export interface Cidr extends ParsedIp {
+  prefix: number;
+}
+
+const parseIpv4 = (ip: string): bigint | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(Number(part));
+  }
+  return value;
+};
+
+const parseIpv6 = (ip: string): bigint | null => {
+  // Zone ids (fe80::1%eth0) do not change the address
+  let text = ip.split('%')[0];
+  // A trailing dotted quad (::ffff:10.0.0.1) stands for the last two groups
+  const v4 = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const tail = parseIpv4(v4[2]);
+    if (tail === null) return null;
+    text = `${v4[1]}${(tail >> 16n).toString(16)}:${(tail & 0xffffn).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  let value = 0n;
+  for (const group of [...head, ...new Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+};
+
+export const parseIp = (ip: string): ParsedIp | null => {
+  const text = ip.trim().replace(/^\[|\]$/g, '');
+  if (text.includes(':')) {
+    const value = parseIpv6(text);
+    return value === null ? null : { version: 6, value };
+  }
+  const value = parseIpv4(text);
+  return value === null ? null : { version: 4, value };
+};
+
+/**
+ * Parses `10.0.0.0/8` or `2001:db8::/32`; a bare address is a single-host range
+ */
+export const parseCidr = (cidr: string): Cidr | null => {
+  const [address, prefixText, ...rest] = cidr.trim().split('/');
+  if (rest.length > 0) return null;
+  const ip = parseIp(address);
+  if (!ip) return null;
+  const bits = ip.version === 4 ? 32 : 128;
+  if (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText)) return null;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (prefix > bits) return null;
+  return { ...ip, prefix };
+};
+
+const cidrCache = new Map<string, Cidr | null>();
+
+export const inCidr = (ip: string | ParsedIp, cidr: string | Cidr): boolean => {
+  const addr = typeof ip === 'string' ? parseIp(ip) : ip;
+  let range: Cidr | null;
+  if (typeof cidr === 'string') {
+    if (!cidrCache.has(cidr)) cidrCache.set(cidr, parseCidr(cidr));
+    range = cidrCache.get(cidr)!;
+  } else {
+    range = cidr;
+  }
+  if (!addr || !range || addr.version !== range.version) return false;
+  const shift = BigInt((addr.version === 4 ? 32 : 128) - range.prefix);
+  return addr.value >> shift === range.value >> shift;
+};
+
+// Special-purpose ranges (RFC 6890 and successors); anything not listed is public, except
+// IPv6 outside 2000::/3, which is not allocated for global unicast
+const SCOPE_RANGES: [string, IpScope][] = [
+  ['0.0.0.0/8', 'unspecified'],
+  ['10.0.0.0/8', 'private'],
+  ['172.16.0.0/12', 'private'],
+  ['192.168.0.0/16', 'private'],
+  ['100.64.0.0/10', 'cgnat'],
+  ['127.0.0.0/8', 'loopback'],
+  ['169.254.0.0/16', 'link-local'],
+  ['192.0.0.0/24', 'reserved'],
+  ['192.0.2.0/24', 'documentation'],
+  ['198.51.100.0/24', 'documentation'],
+  ['203.0.113.0/24', 'documentation'],
+  ['198.18.0.0/15', 'reserved'],
+  ['224.0.0.0/4', 'multicast'],
+  ['240.0.0.0/4', 'reserved'],
+  ['::/128', 'unspecified'],
+  ['::1/128', 'loopback'],
+  ['fe80::/10', 'link-local'],
+  ['fc00::/7', 'unique-local'],
+  ['ff00::/8', 'multicast'],
+  ['2001:db8::/32', 'documentation'],
+  ['100::/64', 'reserved']
+];
+const scopeRanges = SCOPE_RANGES.map(([cidr, scope]) => [parseCidr(cidr)!, scope] as const);
+
+// IPv4-mapped and NAT64 addresses are classified by the IPv4 address they carry
+const EMBEDDED_IPV4 = [parseCidr('::ffff:0:0/96')!, parseCidr('64:ff9b::/96')!];
+const GLOBAL_UNICAST = parseCidr('2000::/3')!;
+
+/**
+ * Which kind of network an address belongs to; null when it is not an address
+ */
+export const classifyIp = (ip: string | ParsedIp): IpScope | null => {
+  let addr = typeof ip === 'string' ? parseIp(ip) : ip;
+  if (!addr) return null;
+  if (addr.version === 6 && EMBEDDED_IPV4.some(range => inCidr(addr!, range))) {
+    addr = { version: 4, value: addr.value & 0xffffffffn };
+  }
+  const range = scopeRanges.find(([cidr]) => inCidr(addr!, cidr));
+  if (range) return range[1];
+  return addr.version === 6 && !inCidr(addr, GLOBAL_UNICAST) ? 'reserved' : 'public';
+};
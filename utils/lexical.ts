@@ -0,0 +1,159 @@
+import { LexicalFeatures, PayloadEncoding } from '../types';
+
+/**
+ * Lexical analyzers for query names. Shannon entropy alone rates short random labels as
+ * benign and long English hostnames as suspicious; character n-gram likelihood against a
+ * word-and-hostname corpus, character class ratios and alphabet detection separate
+ * language-like names from encoded payloads regardless of length.
+ */
+
+/**
+ * Training text for the n-gram model: common English words plus tokens frequently seen
+ * in legitimate host names. Kept small; the model only needs typical letter transitions.
+ */
+const CORPUS = `
+the be to of and in that have it for not on with he as you do at this but his by from they we say her she or an will my
+one all would there their what so up out if about who get which go me when make can like time no just him know take people
+into year your good some could them see other than then now look only come its over think also back after use two how our
+work first well way even new want because any these give day most us is are was were been has had did said made find where
+world life hand part child eye woman place week case point government company number group problem fact home water room
+mother area money story month lot right study book job word business issue side kind head house service friend father power
+hour game line end member law car city community name president team minute idea kid body information school face others
+level office door health person art war history party result change morning reason research girl guy moment air teacher
+force education foot boy age policy process music market sense nation plan college interest death experience effect class
+control care field development role effort rate heart drug show leader light voice wife police mind price report decision
+son view relationship town road arm difference value building action model season society tax director position player
+record paper space ground form event official matter center couple site project activity star table need court american
+oil situation cost industry figure street image phone data picture practice piece land product doctor wall patient worker
+news test movie north love support technology step baby computer type attention film tree source organization hair window
+evidence population truth song energy media letter network security system search store shop online free open secure share
+store cloud mobile digital global national international public private local general special social personal central
+login account update download upload mail email message video photo social media stream player music radio weather sport
+news media static assets images img cdn api apis app apps web www www2 www3 mail2 smtp pop pop3 imap mx ns ns1 ns2 ns3 dns
+dns1 dns2 vpn remote gateway gw proxy router firewall portal admin dashboard console status health metrics monitor
+analytics tracking track pixel ads ad adserver doubleclick googleapis gstatic google microsoft windows office outlook live
+azure amazon amazonaws aws akamai akamaiedge akamaihd edgekey edgesuite cloudfront cloudflare fastly apple icloud itunes
+facebook fbcdn instagram twitter linkedin github githubusercontent gitlab bitbucket slack zoom teams skype dropbox box
+spotify netflix youtube ytimg yahoo bing msn msedge office365 sharepoint onedrive onenote xbox playstation steam epic
+ubuntu debian fedora centos archive mirror mirrors repo packages pkg npm pypi registry docker hub kubernetes k8s cluster
+node nodes server servers host hosts client clients edge origin backend frontend internal external corp intranet extranet
+dev devel staging stage prod production test testing qa uat demo sandbox beta alpha preview canary release releases
+auth oauth sso idp identity accounts signin signup login logout session token tokens secure safe trust verify
+config configuration settings setup install installer client telemetry events event logs logging log collector ingest
+time ntp pool clock sync update updates upgrade patch patches download downloads files file storage blob bucket
+s3 ec2 eu us uk de fr jp cn east west north south central asia europe america pacific atlantic region zone
+shop store cart checkout pay payment payments billing invoice order orders customer customers support help docs
+documentation wiki blog forum community news press media careers jobs about contact info home index main default
+search find query results map maps location places directions travel hotel flight booking
+video videos tv live stream streaming broadcast channel channels content delivery network networks service services
+mail mailer newsletter lists list campaign marketing promo offers deals
+`;
+
+const ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789-';
+const BOUNDARY = '^';
+const SYMBOLS = ALPHABET.length + 1;
+const VOWELS = new Set('aeiou');
+
+/** Minimum payload length before an alphabet is reported as an encoding */
+const MIN_ENCODED_LENGTH = 16;
+/** Average bigram log10 likelihood below which text no longer reads as words */
+const UNLIKELY_BIGRAM_SCORE = -1.6;
+
+interface NGramModel {
+  bigrams: Map<string, number>;
+  trigrams: Map<string, number>;
+  unigrams: Map<string, number>;
+}
+
+let model: NGramModel | null = null;
+
+const getModel = (): NGramModel => {
+  if (model) return model;
+  const unigrams = new Map<string, number>();
+  const bigrams = new Map<string, number>();
+  const trigrams = new Map<string, number>();
+  const bump = (map: Map<string, number>, key: string) => map.set(key, (map.get(key) ?? 0) + 1);
+
+  for (const word of CORPUS.split(/\s+/).filter(Boolean)) {
+    const padded = `${BOUNDARY}${BOUNDARY}${word}${BOUNDARY}`;
+    for (let i = 0; i < padded.length; i++) {
+      bump(unigrams, padded[i]);
+      if (i >= 1) bump(bigrams, padded.slice(i - 1, i + 1));
+      if (i >= 2) bump(trigrams, padded.slice(i - 2, i + 1));
+    }
+  }
+  model = { unigrams, bigrams, trigrams };
+  return model;
+};
+
+/**
+ * Average add-one-smoothed log10 likelihood of the n-grams in the labels, per n-gram
+ */
+export const ngramLikelihood = (labels: string[], n: 2 | 3): number => {
+  const { unigrams, bigrams, trigrams } = getModel();
+  const grams = n === 2 ? bigrams : trigrams;
+  let total = 0;
+  let count = 0;
+  for (const label of labels) {
+    const padded = `${BOUNDARY}${BOUNDARY}${label}${BOUNDARY}`;
+    // From the first real character on, so a label start is one n-gram for either order
+    for (let i = 2; i < padded.length; i++) {
+      const gram = padded.slice(i - n + 1, i + 1);
+      const context = gram.slice(0, -1);
+      const contextCount = n === 2 ? (unigrams.get(context) ?? 0) : (bigrams.get(context) ?? 0);
+      total += Math.log10(((grams.get(gram) ?? 0) + 1) / (contextCount + SYMBOLS));
+      count++;
+    }
+  }
+  return count === 0 ? 0 : parseFloat((total / count).toFixed(3));
+};
+
+/**
+ * Identifies the alphabet of an encoded payload. Hex and base32 are checked before base36,
+ * which is their superset; base64 needs mixed case, which survives in most resolver logs.
+ */
+export const detectEncoding = (payload: string, bigramScore: number): PayloadEncoding | undefined => {
+  if (payload.length < MIN_ENCODED_LENGTH) return undefined;
+  const hasDigit = /[0-9]/.test(payload);
+  const hasLetter = /[a-z]/i.test(payload);
+
+  if (/^[0-9a-f]+$/i.test(payload) && hasDigit && hasLetter) return 'hex';
+  if (/[a-z]/.test(payload) && /[A-Z]/.test(payload) && /^[A-Za-z0-9+/_-]+=*$/.test(payload) && (hasDigit || /[+/_-]/.test(payload))) {
+    return 'base64';
+  }
+  // Letter-heavy alphabets only count once the text stops reading like words
+  if (bigramScore > UNLIKELY_BIGRAM_SCORE) return undefined;
+  if (/^[a-z2-7]+=*$/i.test(payload) && hasDigit) return 'base32';
+  if (/^[a-z0-9]+$/i.test(payload) && hasDigit && hasLetter) return 'base36';
+  return undefined;
+};
+
+/**
+ * Lexical features of a query name. Ratios, n-grams and encoding are measured on the
+ * subdomain labels; the longest label covers the whole name.
+ */
+export const analyzeLexical = (query: string, subdomain: string): LexicalFeatures => {
+  const labels = subdomain.toLowerCase().split('.').filter(Boolean);
+  const chars = labels.join('');
+  let vowels = 0;
+  let consonants = 0;
+  let digits = 0;
+  for (const c of chars) {
+    if (c >= '0' && c <= '9') digits++;
+    else if (VOWELS.has(c)) vowels++;
+    else if (c >= 'a' && c <= 'z') consonants++;
+  }
+
+  const bigramScore = ngramLikelihood(labels, 2);
+  const ratio = (n: number) => (chars.length === 0 ? 0 : parseFloat((n / chars.length).toFixed(3)));
+  return {
+    bigramScore,
+    trigramScore: ngramLikelihood(labels, 3),
+    vowelRatio: ratio(vowels),
+    consonantRatio: ratio(consonants),
+    digitRatio: ratio(digits),
+    longestLabel: query.split('.').reduce((max, label) => Math.max(max, label.length), 0),
+    // Case matters for base64, so the payload is cut from the name as logged
+    encoding: detectEncoding(query.slice(0, subdomain.length).replace(/\./g, ''), bigramScore)
+  };
+};
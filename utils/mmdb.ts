@@ -0,0 +1,208 @@
+import { parseIp } from './ip';
+
+/**
+ * Reader for MaxMind DB (.mmdb) files, the format of GeoLite2/GeoIP2 and the DB-IP lite
+ * databases. The file is a binary search tree over address bits whose leaves point into a
+ * data section of self-describing typed values; the metadata map sits at the end of the file
+ * after a fixed marker. See https://maxmind.github.io/MaxMind-DB/.
+ */
+
+export class MmdbFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MmdbFormatError';
+  }
+}
+
+export interface MmdbMetadata {
+  databaseType: string;
+  ipVersion: 4 | 6;
+  nodeCount: number;
+  recordSize: 24 | 28 | 32;
+  buildEpoch: number;
+  languages: string[];
+  description?: string;
+}
+
+export interface MmdbReader {
+  metadata: MmdbMetadata;
+  /** The record for the address, or null when the database has none */
+  lookup: (ip: string) => any | null;
+}
+
+const METADATA_MARKER = [0xab, 0xcd, 0xef, ...Array.from('MaxMind.com', c => c.charCodeAt(0))];
+// The marker must lie within the last 128 KiB
+const METADATA_SEARCH_BYTES = 128 * 1024;
+const DATA_SECTION_SEPARATOR = 16;
+
+const findMetadataStart = (bytes: Uint8Array): number => {
+  const stop = Math.max(0, bytes.length - METADATA_SEARCH_BYTES);
+  for (let i = bytes.length - METADATA_MARKER.length; i >= stop; i--) {
+    let match = true;
+    for (let j = 0; j < METADATA_MARKER.length && match; j++) match = bytes[i + j] === METADATA_MARKER[j];
+    if (match) return i + METADATA_MARKER.length;
+  }
+  return -1;
+};
+
+/**
+ * Decodes data-section values; `base` is where pointers are counted from
+ */
+const createDecoder = (bytes: Uint8Array, view: DataView, base: number) => {
+  const textDecoder = new TextDecoder('utf-8');
+
+  const uint = (offset: number, size: number): number => {
+    let value = 0;
+    for (let i = 0; i < size; i++) value = value * 256 + bytes[offset + i];
+    return value;
+  };
+
+  const bigUint = (offset: number, size: number): bigint => {
+    let value = 0n;
+    for (let i = 0; i < size; i++) value = (value << 8n) | BigInt(bytes[offset + i]);
+    return value;
+  };
+
+  const decode = (offset: number): [any, number] => {
+    if (offset >= bytes.length) throw new MmdbFormatError('Data pointer beyond the end of the file');
+    const control = bytes[offset++];
+    let type = control >> 5;
+
+    if (type === 1) {
+      const size = (control >> 3) & 0x3;
+      const high = control & 0x7;
+      let pointer: number;
+      if (size === 0) pointer = (high << 8) | bytes[offset];
+      else if (size === 1) pointer = ((high << 16) | uint(offset, 2)) + 2048;
+      else if (size === 2) pointer = high * 0x1000000 + uint(offset, 3) + 526336;
+      else pointer = uint(offset, 4);
+      return [decode(base + pointer)[0], offset + size + 1];
+    }
+
+    if (type === 0) type = 7 + bytes[offset++];
+    let size = control & 0x1f;
+    if (size === 29) size = 29 + bytes[offset++];
+    else if (size === 30) { size = 285 + uint(offset, 2); offset += 2; }
+    else if (size === 31) { size = 65821 + uint(offset, 3); offset += 3; }
+
+    switch (type) {
+      case 2: return [textDecoder.decode(bytes.subarray(offset, offset + size)), offset + size];
+      case 3: return [view.getFloat64(offset), offset + 8];
+      case 4: return [bytes.slice(offset, offset + size), offset + size];
+      case 5:
+      case 6: return [uint(offset, size), offset + size];
+      case 7: {
+        const map: Record<string, any> = {};
+        for (let i = 0; i < size; i++) {
+          const [key, afterKey] = decode(offset);
+          const [value, afterValue] = decode(afterKey);
+          map[key] = value;
+          offset = afterValue;
+        }
+        return [map, offset];
+      }
+      case 8: {
+        // Sign-extended from however many bytes are stored
+        const value = uint(offset, size);
+        return [size === 4 ? value | 0 : value, offset + size];
+      }
+      case 9:
+      case 10: {
+        const value = bigUint(offset, size);
+        return [value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value, offset + size];
+      }
+      case 11: {
+        const array: any[] = [];
+        for (let i = 0; i < size; i++) {
+          const [value, next] = decode(offset);
+          array.push(value);
+          offset = next;
+        }
+        return [array, offset];
+      }
+      case 14: return [size !== 0, offset];
+      case 15: return [view.getFloat32(offset), offset + 4];
+      default: throw new MmdbFormatError(`Unsupported data type ${type} at offset ${offset - 1}`);
+    }
+  };
+
+  return decode;
+};
+
+/**
+ * Opens a database held in memory; throws MmdbFormatError when it is not a readable MaxMind DB
+ */
+export const createMmdbReader = (buffer: ArrayBuffer): MmdbReader => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const metadataStart = findMetadataStart(bytes);
+  if (metadataStart < 0) throw new MmdbFormatError('No MaxMind DB metadata marker; not an .mmdb file');
+
+  const raw = createDecoder(bytes, view, metadataStart)(metadataStart)[0];
+  if (!raw || typeof raw !== 'object') throw new MmdbFormatError('Unreadable metadata section');
+  if (raw.binary_format_major_version !== 2) throw new MmdbFormatError(`Unsupported MaxMind DB format version ${raw.binary_format_major_version}`);
+  if (![24, 28, 32].includes(raw.record_size)) throw new MmdbFormatError(`Unsupported record size ${raw.record_size}`);
+
+  const metadata: MmdbMetadata = {
+    databaseType: String(raw.database_type ?? 'unknown'),
+    ipVersion: raw.ip_version === 6 ? 6 : 4,
+    nodeCount: raw.node_count,
+    recordSize: raw.record_size,
+    buildEpoch: Number(raw.build_epoch ?? 0),
+    languages: Array.isArray(raw.languages) ? raw.languages : [],
+    description: raw.description?.en
+  };
+
+  const nodeBytes = metadata.recordSize / 4;
+  const treeSize = nodeBytes * metadata.nodeCount;
+  if (treeSize + DATA_SECTION_SEPARATOR > metadataStart) throw new MmdbFormatError('Search tree larger than the file');
+  const decode = createDecoder(bytes, view, treeSize + DATA_SECTION_SEPARATOR);
+
+  const readRecord = (node: number, right: boolean): number => {
+    const offset = node * nodeBytes;
+    switch (metadata.recordSize) {
+      case 24:
+        return right ? (bytes[offset + 3] << 16) | (bytes[offset + 4] << 8) | bytes[offset + 5] : (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2];
+      case 28:
+        return right
+          ? ((bytes[offset + 3] & 0x0f) * 0x1000000) + ((bytes[offset + 4] << 16) | (bytes[offset + 5] << 8) | bytes[offset + 6])
+          : ((bytes[offset + 3] >> 4) * 0x1000000) + ((bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2]);
+      case 32:
+        return view.getUint32(offset + (right ? 4 : 0));
+    }
+  };
+
+  // IPv4 addresses live under ::/96 in an IPv6 tree; the node reached after 96 zero bits is cached
+  let ipv4Start = 0;
+  if (metadata.ipVersion === 6) {
+    for (let i = 0; i < 96 && ipv4Start < metadata.nodeCount; i++) ipv4Start = readRecord(ipv4Start, false);
+  }
+
+  const cache = new Map<string, any | null>();
+
+  const lookup = (ip: string): any | null => {
+    const parsed = parseIp(ip);
+    if (!parsed) return null;
+    if (parsed.version === 6 && metadata.ipVersion === 4) return null;
+    const key = `${parsed.version}:${parsed.value}`;
+    if (cache.has(key)) return cache.get(key);
+
+    const bits = parsed.version === 4 ? 32 : 128;
+    let node = parsed.version === 4 ? ipv4Start : 0;
+    for (let i = bits - 1; i >= 0 && node < metadata.nodeCount; i--) {
+      node = readRecord(node, ((parsed.value >> BigInt(i)) & 1n) === 1n);
+    }
+
+    let record: any | null = null;
+    if (node > metadata.nodeCount) {
+      const offset = node - metadata.nodeCount - DATA_SECTION_SEPARATOR;
+      record = decode(treeSize + DATA_SECTION_SEPARATOR + offset)[0];
+    }
+    // Bounded: a busy capture touches a few thousand distinct addresses at most
+    if (cache.size > 50000) cache.clear();
+    cache.set(key, record);
+    return record;
+  };
+
+  return { metadata, lookup };
+};
@@ -0,0 +1,288 @@
+import { ClassifierModel, ClassMetrics, DNSQuery, ModelMetrics, QueryLabel } from '../types';
+
+/**
+ * Trainable query classifier: multinomial logistic regression over a fixed set of numeric
+ * features, trained with full-batch gradient descent. Plain TypeScript with no native or GPU
+ * dependency, so it trains in the browser or in Node. A trained model serialises to
+ * JSON and, once loaded, labels queries in place of the rule pack's classification rules.
+ */
+
+const QTYPES = ['A', 'AAAA', 'TXT', 'NULL', 'CNAME', 'MX'];
+const RCODES = ['NOERROR', 'NXDOMAIN', 'SERVFAIL'];
+const LABELS: QueryLabel[] = ['Normal', 'Tunneling', 'DGA'];
+
+export const FEATURE_NAMES = [
+  'length', 'entropy', 'labelCount', 'longestLabel', 'bigramScore', 'trigramScore', 'vowelRatio', 'consonantRatio',
+  'digitRatio', 'encoded', 'dgaScore', 'answerEntropy', 'responseSize', 'truncated',
+  ...QTYPES.map(t => `qtype.${t}`), 'qtype.other',
+  ...RCODES.map(r => `rcode.${r}`), 'rcode.other'
+];
+
+export interface TrainingSample {
+  features: Record<string, number>;
+  label: QueryLabel;
+}
+
+export interface TrainingOptions {
+  /** Share of the samples held out for evaluation */
+  holdout: number;
+  epochs: number;
+  learningRate: number;
+  /** L2 penalty on the weights */
+  l2: number;
+  /** Shuffle seed, so the same data always gives the same split and model */
+  seed: number;
+  /** Larger sets are subsampled to keep training interactive */
+  maxSamples: number;
+}
+
+export const DEFAULT_TRAINING_OPTIONS: TrainingOptions = {
+  holdout: 0.2,
+  epochs: 200,
+  learningRate: 0.5,
+  l2: 0.001,
+  seed: 42,
+  maxSamples: 10000
+};
+
+const MIN_SAMPLES_PER_LABEL = 5;
+
+// Model used by the scoring functions; the UI and the ingest worker install the analyst's choice
+let activeModel: ClassifierModel | null = null;
+
+export const setActiveModel = (model: ClassifierModel | null) => {
+  activeModel = model;
+};
+
+export const getActiveModel = (): ClassifierModel | null => activeModel;
+
+/**
+ * Named features of a query, from its fields plus the rule context's answer features
+ */
+export const extractFeatures = (ctx: Partial<DNSQuery> & { answerEntropy?: number }): Record<string, number> => {
+  const type = (ctx.type ?? 'A').toUpperCase();
+  const rcode = (ctx.responseCode ?? 'NOERROR').toUpperCase();
+  const features: Record<string, number> = {
+    length: ctx.length ?? 0,
+    entropy: ctx.entropy ?? 0,
+    labelCount: (ctx.query ?? '').split('.').filter(Boolean).length,
+    longestLabel: ctx.lexical?.longestLabel ?? 0,
+    bigramScore: ctx.lexical?.bigramScore ?? 0,
+    trigramScore: ctx.lexical?.trigramScore ?? 0,
+    vowelRatio: ctx.lexical?.vowelRatio ?? 0,
+    consonantRatio: ctx.lexical?.consonantRatio ?? 0,
+    digitRatio: ctx.lexical?.digitRatio ?? 0,
+    encoded: ctx.lexical?.encoding ? 1 : 0,
+    dgaScore: ctx.dgaScore ?? 0,
+    answerEntropy: ctx.answerEntropy ?? 0,
+    // Sizes span orders of magnitude
+    responseSize: Math.log1p(ctx.responseSize ?? 0),
+    truncated: ctx.truncated ? 1 : 0,
+    'qtype.other': QTYPES.includes(type) ? 0 : 1,
+    'rcode.other': RCODES.includes(rcode) ? 0 : 1
+  };
+  QTYPES.forEach(t => { features[`qtype.${t}`] = type === t ? 1 : 0; });
+  RCODES.forEach(r => { features[`rcode.${r}`] = rcode === r ? 1 : 0; });
+  return features;
+};
+
+/**
+ * Ground-truth label carried by an imported record (a `label` or `class` column), if any
+ */
+export const trainingLabel = (query: DNSQuery): QueryLabel | undefined => {
+  const raw = String(query.metadata?.label ?? query.metadata?.class ?? '').trim().toLowerCase();
+  if (!raw) return undefined;
+  if (['normal', 'benign', 'clean', 'legit', '0'].includes(raw)) return 'Normal';
+  if (['tunneling', 'tunnelling', 'tunnel', 'malicious', 'exfil', '1'].includes(raw)) return 'Tunneling';
+  if (raw === 'dga') return 'DGA';
+  return undefined;
+};
+
+// Deterministic PRNG for the shuffle (mulberry32)
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const softmax = (z: number[]): number[] => {
+  const max = Math.max(...z);
+  const exp = z.map(v => Math.exp(v - max));
+  const sum = exp.reduce((a, b) => a + b, 0);
+  return exp.map(v => v / sum);
+};
+
+const standardize = (model: Pick<ClassifierModel, 'features' | 'mean' | 'std'>, features: Record<string, number>): number[] =>
+  model.features.map((name, j) => ((features[name] ?? 0) - model.mean[j]) / model.std[j]);
+
+const probabilities = (model: ClassifierModel, x: number[]): number[] =>
+  softmax(model.weights.map((row, k) => row.reduce((acc, w, j) => acc + w * x[j], model.bias[k])));
+
+/**
+ * Label probabilities for one query's features, highest first
+ */
+export const predictWithModel = (model: ClassifierModel, features: Record<string, number>): { label: QueryLabel; probability: number }[] =>
+  probabilities(model, standardize(model, features))
+    .map((probability, k) => ({ label: model.labels[k], probability }))
+    .sort((a, b) => b.probability - a.probability);
+
+const round = (n: number) => parseFloat(n.toFixed(3));
+
+const evaluate = (model: ClassifierModel, holdout: TrainingSample[], trainSize: number): ModelMetrics => {
+  const k = model.labels.length;
+  const confusion = model.labels.map(() => new Array(k).fill(0));
+  for (const sample of holdout) {
+    const predicted = model.labels.indexOf(predictWithModel(model, sample.features)[0].label);
+    confusion[model.labels.indexOf(sample.label)][predicted]++;
+  }
+  const classes: ClassMetrics[] = model.labels.map((label, i) => {
+    const tp = confusion[i][i];
+    const predicted = confusion.reduce((acc, row) => acc + row[i], 0);
+    const support = confusion[i].reduce((a, b) => a + b, 0);
+    const precision = predicted === 0 ? 0 : tp / predicted;
+    const recall = support === 0 ? 0 : tp / support;
+    const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+    return { label, precision: round(precision), recall: round(recall), f1: round(f1), support };
+  });
+  const correct = model.labels.reduce((acc, _, i) => acc + confusion[i][i], 0);
+  return {
+    accuracy: holdout.length === 0 ? 0 : round(correct / holdout.length),
+    trainSize,
+    holdoutSize: holdout.length,
+    classes,
+    confusion
+  };
+};
+
+/**
+ * Trains on a seeded shuffle of the samples and evaluates on the held-out share.
+ * Returns an error instead when there is too little labeled data to learn from.
+ */
+export const trainClassifier = (samples: TrainingSample[], name: string, options: TrainingOptions = DEFAULT_TRAINING_OPTIONS): { model?: ClassifierModel; error?: string } => {
+  const labels = LABELS.filter(l => samples.filter(s => s.label === l).length >= MIN_SAMPLES_PER_LABEL);
+  if (labels.length < 2) {
+    return { error: `Need at least ${MIN_SAMPLES_PER_LABEL} samples of two or more labels; found ${LABELS.map(l => `${samples.filter(s => s.label === l).length} ${l}`).join(', ')}` };
+  }
+
+  const random = seededRandom(options.seed);
+  const shuffled = samples.filter(s => labels.includes(s.label));
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  const used = shuffled.slice(0, options.maxSamples);
+  const holdoutSize = Math.round(used.length * options.holdout);
+  const holdout = used.slice(0, holdoutSize);
+  const train = used.slice(holdoutSize);
+
+  const features = FEATURE_NAMES;
+  const mean = features.map(f => train.reduce((acc, s) => acc + (s.features[f] ?? 0), 0) / train.length);
+  const std = features.map((f, j) => {
+    const variance = train.reduce((acc, s) => acc + ((s.features[f] ?? 0) - mean[j]) ** 2, 0) / train.length;
+    // Constant features keep a unit scale so they standardise to zero
+    return variance > 1e-12 ? Math.sqrt(variance) : 1;
+  });
+  const x = train.map(s => standardize({ features, mean, std }, s.features));
+  const y = train.map(s => labels.indexOf(s.label));
+
+  // Flat typed arrays in the inner loop; this is where all the training time goes
+  const n = features.length;
+  const classes = labels.length;
+  const weights = new Float64Array(classes * n);
+  const bias = new Float64Array(classes);
+  const gradW = new Float64Array(classes * n);
+  const gradB = new Float64Array(classes);
+  const p = new Float64Array(classes);
+  for (let epoch = 0; epoch < options.epochs; epoch++) {
+    gradW.fill(0);
+    gradB.fill(0);
+    for (let i = 0; i < x.length; i++) {
+      const xi = x[i];
+      let max = -Infinity;
+      for (let k = 0; k < classes; k++) {
+        let z = bias[k];
+        for (let j = 0; j < n; j++) z += weights[k * n + j] * xi[j];
+        p[k] = z;
+        if (z > max) max = z;
+      }
+      let sum = 0;
+      for (let k = 0; k < classes; k++) {
+        p[k] = Math.exp(p[k] - max);
+        sum += p[k];
+      }
+      for (let k = 0; k < classes; k++) {
+        const error = p[k] / sum - (y[i] === k ? 1 : 0);
+        gradB[k] += error;
+        for (let j = 0; j < n; j++) gradW[k * n + j] += error * xi[j];
+      }
+    }
+    for (let k = 0; k < classes; k++) {
+      bias[k] -= options.learningRate * gradB[k] / x.length;
+      for (let j = 0; j < n; j++) {
+        weights[k * n + j] -= options.learningRate * (gradW[k * n + j] / x.length + options.l2 * weights[k * n + j]);
+      }
+    }
+  }
+
+  const model: ClassifierModel = {
+    format: 'aegisdns-logreg',
+    version: 1,
+    name,
+    createdAt: new Date().toISOString(),
+    features,
+    labels,
+    mean: mean.map(v => parseFloat(v.toPrecision(6))),
+    std: std.map(v => parseFloat(v.toPrecision(6))),
+    weights: labels.map((_, k) => Array.from(weights.subarray(k * n, (k + 1) * n), w => parseFloat(w.toPrecision(6)))),
+    bias: Array.from(bias, b => parseFloat(b.toPrecision(6))),
+    metrics: { accuracy: 0, trainSize: 0, holdoutSize: 0, classes: [], confusion: [] }
+  };
+  model.metrics = evaluate(model, holdout, train.length);
+  return { model };
+};
+
+const isNumberArray = (v: unknown, length: number): boolean =>
+  Array.isArray(v) && v.length === length && v.every(n => typeof n === 'number' && isFinite(n));
+
+/**
+ * Checks an imported model document; returns the model or every problem found
+ */
+export const parseModel = (text: string): { model?: ClassifierModel; errors: string[] } => {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch (error: any) {
+    return { errors: [`JSON syntax error: ${error.message}`] };
+  }
+  const errors: string[] = [];
+  if (!doc || typeof doc !== 'object') return { errors: ['Expected a model object'] };
+  if (doc.format !== 'aegisdns-logreg') errors.push(`format: expected "aegisdns-logreg", got ${JSON.stringify(doc.format)}`);
+  if (doc.version !== 1) errors.push(`version: unsupported version ${JSON.stringify(doc.version)}`);
+  if (typeof doc.name !== 'string' || !doc.name.trim()) errors.push('name: required');
+
+  const features: unknown = doc.features;
+  if (!Array.isArray(features) || features.length === 0) {
+    errors.push('features: expected a list of feature names');
+    return { errors };
+  }
+  features.forEach((f, j) => {
+    if (!FEATURE_NAMES.includes(f)) errors.push(`features[${j}]: unknown feature "${f}"`);
+  });
+  const labels: unknown = doc.labels;
+  if (!Array.isArray(labels) || labels.length < 2 || labels.some(l => !LABELS.includes(l))) {
+    errors.push(`labels: expected two or more of ${LABELS.join(', ')}`);
+    return { errors };
+  }
+  if (!isNumberArray(doc.mean, features.length)) errors.push(`mean: expected ${features.length} numbers`);
+  if (!isNumberArray(doc.std, features.length) || doc.std.some((v: number) => v <= 0)) errors.push(`std: expected ${features.length} positive numbers`);
+  if (!Array.isArray(doc.weights) || doc.weights.length !== labels.length || doc.weights.some((row: unknown) => !isNumberArray(row, features.length))) {
+    errors.push(`weights: expected ${labels.length} rows of ${features.length} numbers`);
+  }
+  if (!isNumberArray(doc.bias, labels.length)) errors.push(`bias: expected ${labels.length} numbers`);
+  if (!doc.metrics || typeof doc.metrics !== 'object') errors.push('metrics: required');
+
+  return errors.length === 0 ? { model: doc as ClassifierModel, errors } : { errors };
+};
+
+export const serializeModel = (model: ClassifierModel): string => JSON.stringify(model, null, 2);
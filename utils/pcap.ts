@@ -0,0 +1,444 @@
+import { DNSQuery } from '../types';
+import { decodeDNSMessage, DNSMessage, formatIPv4, formatIPv6 } from './dnsWire';
+import { normalizeDNSQuery } from './forensics';
+
+/**
+ * libpcap / PCAPNG reader that extracts DNS transactions from captured frames.
+ * Handles Ethernet (incl. stacked VLAN tags), Linux cooked capture, BSD loopback
+ * and raw IP link types, IPv4/IPv6, and DNS over UDP or TCP on port 53.
+ */
+
+const DNS_PORT = 53;
+
+const LINKTYPE_NULL = 0;
+const LINKTYPE_ETHERNET = 1;
+const LINKTYPE_RAW = 101;
+const LINKTYPE_LOOP = 108;
+const LINKTYPE_LINUX_SLL = 113;
+const LINKTYPE_IPV4 = 228;
+const LINKTYPE_IPV6 = 229;
+const LINKTYPE_LINUX_SLL2 = 276;
+// Some platforms write the DLT value rather than the LINKTYPE value for raw IP
+const DLT_RAW_ALIASES = [12, 14];
+
+const ETHERTYPE_IPV4 = 0x0800;
+const ETHERTYPE_IPV6 = 0x86dd;
+const VLAN_ETHERTYPES = [0x8100, 0x88a8, 0x9100];
+
+const PCAPNG_SHB = 0x0a0d0d0a;
+const PCAPNG_IDB = 0x00000001;
+const PCAPNG_OPB = 0x00000002;
+const PCAPNG_SPB = 0x00000003;
+const PCAPNG_EPB = 0x00000006;
+const PCAPNG_BYTE_ORDER_MAGIC = 0x1a2b3c4d;
+
+interface CapturedPacket {
+  /** Capture time in milliseconds since the epoch */
+  time: number;
+  linkType: number;
+  data: Uint8Array;
+}
+
+interface Segment {
+  srcIp: string;
+  dstIp: string;
+  srcPort: number;
+  dstPort: number;
+  protocol: 'udp' | 'tcp';
+  seq: number;
+  payload: Uint8Array;
+}
+
+interface Transaction {
+  query?: { time: number; message: DNSMessage; segment: Segment };
+  response?: { time: number; message: DNSMessage; segment: Segment };
+}
+
+export class CaptureFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptureFormatError';
+  }
+}
+
+/**
+ * Returns true if the buffer starts with a libpcap or PCAPNG magic number
+ */
+export const isPacketCapture = (buffer: ArrayBuffer): boolean => {
+  if (buffer.byteLength < 4) return false;
+  const magic = new DataView(buffer).getUint32(0, false);
+  return [0xa1b2c3d4, 0xd4c3b2a1, 0xa1b23c4d, 0x4d3cb2a1, PCAPNG_SHB].includes(magic);
+};
+
+const readLibpcap = (buffer: ArrayBuffer): CapturedPacket[] => {
+  const view = new DataView(buffer);
+  const magic = view.getUint32(0, false);
+  const le = magic === 0xd4c3b2a1 || magic === 0x4d3cb2a1;
+  const nanos = magic === 0xa1b23c4d || magic === 0x4d3cb2a1;
+  if (buffer.byteLength < 24) throw new CaptureFormatError('Truncated pcap global header');
+
+  const linkType = view.getUint32(20, le) & 0x0fffffff;
+  const packets: CapturedPacket[] = [];
+  let pos = 24;
+
+  while (pos + 16 <= buffer.byteLength) {
+    const sec = view.getUint32(pos, le);
+    const frac = view.getUint32(pos + 4, le);
+    const inclLen = view.getUint32(pos + 8, le);
+    pos += 16;
+    // A truncated final record is common when captures are cut short; keep what we have
+    if (pos + inclLen > buffer.byteLength) break;
+    packets.push({
+      time: sec * 1000 + (nanos ? frac / 1e6 : frac / 1e3),
+      linkType,
+      data: new Uint8Array(buffer, pos, inclLen)
+    });
+    pos += inclLen;
+  }
+
+  return packets;
+};
+
+interface PcapngInterface {
+  linkType: number;
+  /** Timestamp units per second */
+  tsUnitsPerSec: number;
+}
+
+const readPcapng = (buffer: ArrayBuffer): CapturedPacket[] => {
+  const view = new DataView(buffer);
+  const packets: CapturedPacket[] = [];
+  let interfaces: PcapngInterface[] = [];
+  let le = true;
+  let pos = 0;
+
+  while (pos + 12 <= buffer.byteLength) {
+    const rawType = view.getUint32(pos, false);
+
+    if (rawType === PCAPNG_SHB) {
+      // Each section may switch byte order, and interface IDs restart per section
+      le = view.getUint32(pos + 8, true) === PCAPNG_BYTE_ORDER_MAGIC;
+      interfaces = [];
+    }
+
+    const type = view.getUint32(pos, le);
+    const totalLen = view.getUint32(pos + 4, le);
+    if (totalLen < 12 || pos + totalLen > buffer.byteLength) break;
+    const body = pos + 8;
+    const bodyEnd = pos + totalLen - 4;
+
+    if (type === PCAPNG_IDB) {
+      const linkType = view.getUint16(body, le);
+      let tsUnitsPerSec = 1e6;
+      // Walk options looking for if_tsresol (code 9)
+      let opt = body + 8;
+      while (opt + 4 <= bodyEnd) {
+        const code = view.getUint16(opt, le);
+        const len = view.getUint16(opt + 2, le);
+        if (code === 0) break;
+        if (code === 9 && len >= 1) {
+          const res = view.getUint8(opt + 4);
+          tsUnitsPerSec = res & 0x80 ? Math.pow(2, res & 0x7f) : Math.pow(10, res);
+        }
+        opt += 4 + ((len + 3) & ~3);
+      }
+      interfaces.push({ linkType, tsUnitsPerSec });
+    } else if (type === PCAPNG_EPB || type === PCAPNG_OPB) {
+      const ifId = type === PCAPNG_EPB ? view.getUint32(body, le) : view.getUint16(body, le);
+      const iface = interfaces[ifId];
+      const tsHigh = view.getUint32(body + 4, le);
+      const tsLow = view.getUint32(body + 8, le);
+      const capLen = view.getUint32(body + 12, le);
+      if (iface && body + 20 + capLen <= bodyEnd) {
+        const units = tsHigh * 4294967296 + tsLow;
+        packets.push({
+          time: (units / iface.tsUnitsPerSec) * 1000,
+          linkType: iface.linkType,
+          data: new Uint8Array(buffer, body + 20, capLen)
+        });
+      }
+    } else if (type === PCAPNG_SPB) {
+      const iface = interfaces[0];
+      const origLen = view.getUint32(body, le);
+      const capLen = Math.min(origLen, bodyEnd - body - 4);
+      // Simple packet blocks carry no timestamp
+      if (iface) packets.push({ time: NaN, linkType: iface.linkType, data: new Uint8Array(buffer, body + 4, capLen) });
+    }
+
+    pos += totalLen;
+  }
+
+  return packets;
+};
+
+const readTransport = (bytes: Uint8Array, offset: number, protocol: number, srcIp: string, dstIp: string, end: number): Segment | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (protocol === 17) {
+    if (offset + 8 > end) return null;
+    const srcPort = view.getUint16(offset);
+    const dstPort = view.getUint16(offset + 2);
+    const udpLen = view.getUint16(offset + 4);
+    const payloadEnd = Math.min(end, udpLen >= 8 ? offset + udpLen : end);
+    return { srcIp, dstIp, srcPort, dstPort, protocol: 'udp', seq: 0, payload: bytes.subarray(offset + 8, payloadEnd) };
+  }
+
+  if (protocol === 6) {
+    if (offset + 20 > end) return null;
+    const srcPort = view.getUint16(offset);
+    const dstPort = view.getUint16(offset + 2);
+    const seq = view.getUint32(offset + 4);
+    const dataOffset = (bytes[offset + 12] >>> 4) * 4;
+    if (offset + dataOffset > end) return null;
+    return { srcIp, dstIp, srcPort, dstPort, protocol: 'tcp', seq, payload: bytes.subarray(offset + dataOffset, end) };
+  }
+
+  return null;
+};
+
+const readIPv4 = (bytes: Uint8Array, offset: number): Segment | null => {
+  if (offset + 20 > bytes.length) return null;
+  const ihl = (bytes[offset] & 0x0f) * 4;
+  const totalLen = (bytes[offset + 2] << 8) | bytes[offset + 3];
+  const fragOffset = ((bytes[offset + 6] & 0x1f) << 8) | bytes[offset + 7];
+  // Non-first fragments carry no transport header
+  if (fragOffset !== 0) return null;
+  const end = Math.min(bytes.length, totalLen > 0 ? offset + totalLen : bytes.length);
+  return readTransport(bytes, offset + ihl, bytes[offset + 9], formatIPv4(bytes, offset + 12), formatIPv4(bytes, offset + 16), end);
+};
+
+const IPV6_EXTENSION_HEADERS = [0, 43, 60, 135, 139, 140];
+
+const readIPv6 = (bytes: Uint8Array, offset: number): Segment | null => {
+  if (offset + 40 > bytes.length) return null;
+  const payloadLen = (bytes[offset + 4] << 8) | bytes[offset + 5];
+  let next = bytes[offset + 6];
+  const srcIp = formatIPv6(bytes, offset + 8);
+  const dstIp = formatIPv6(bytes, offset + 24);
+  const end = Math.min(bytes.length, offset + 40 + payloadLen);
+  let pos = offset + 40;
+
+  while (pos < end) {
+    if (IPV6_EXTENSION_HEADERS.includes(next)) {
+      const hdrNext = bytes[pos];
+      pos += (bytes[pos + 1] + 1) * 8;
+      next = hdrNext;
+    } else if (next === 44) {
+      const fragOffset = ((bytes[pos + 2] << 8) | bytes[pos + 3]) >>> 3;
+      if (fragOffset !== 0) return null;
+      next = bytes[pos];
+      pos += 8;
+    } else {
+      break;
+    }
+  }
+
+  return readTransport(bytes, pos, next, srcIp, dstIp, end);
+};
+
+const readNetwork = (bytes: Uint8Array, offset: number, etherType: number): Segment | null => {
+  if (etherType === ETHERTYPE_IPV4) return readIPv4(bytes, offset);
+  if (etherType === ETHERTYPE_IPV6) return readIPv6(bytes, offset);
+  return null;
+};
+
+const readFrame = (packet: CapturedPacket): Segment | null => {
+  const bytes = packet.data;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  switch (packet.linkType) {
+    case LINKTYPE_ETHERNET: {
+      if (bytes.length < 14) return null;
+      let pos = 12;
+      let etherType = view.getUint16(pos);
+      while (VLAN_ETHERTYPES.includes(etherType) && pos + 6 <= bytes.length) {
+        pos += 4;
+        etherType = view.getUint16(pos);
+      }
+      return readNetwork(bytes, pos + 2, etherType);
+    }
+    case LINKTYPE_LINUX_SLL:
+      return bytes.length < 16 ? null : readNetwork(bytes, 16, view.getUint16(14));
+    case LINKTYPE_LINUX_SLL2:
+      return bytes.length < 20 ? null : readNetwork(bytes, 20, view.getUint16(0));
+    case LINKTYPE_NULL:
+    case LINKTYPE_LOOP: {
+      if (bytes.length < 4) return null;
+      // Address family is in host byte order for NULL and network order for LOOP
+      const family = packet.linkType === LINKTYPE_LOOP ? view.getUint32(0) : Math.max(view.getUint32(0, true), view.getUint32(0, false));
+      if (family === 2) return readIPv4(bytes, 4);
+      if ([10, 24, 28, 30].includes(family)) return readIPv6(bytes, 4);
+      return null;
+    }
+    case LINKTYPE_IPV4:
+      return readIPv4(bytes, 0);
+    case LINKTYPE_IPV6:
+      return readIPv6(bytes, 0);
+    default:
+      if (packet.linkType === LINKTYPE_RAW || DLT_RAW_ALIASES.includes(packet.linkType)) {
+        const version = bytes[0] >>> 4;
+        if (version === 4) return readIPv4(bytes, 0);
+        if (version === 6) return readIPv6(bytes, 0);
+      }
+      return null;
+  }
+};
+
+/**
+ * Reassembles a one-directional TCP stream and splits it into
+ * RFC 1035 §4.2.2 length-prefixed DNS messages.
+ */
+class TcpStream {
+  private chunks = new Map<number, Uint8Array>();
+  private times: { seq: number; time: number }[] = [];
+  private firstSeq = -1;
+
+  add(seq: number, payload: Uint8Array, time: number) {
+    if (payload.length === 0 || this.chunks.has(seq)) return;
+    if (this.firstSeq < 0) this.firstSeq = seq;
+    this.chunks.set(seq, payload);
+    this.times.push({ seq, time });
+  }
+
+  drain(): { time: number; payload: Uint8Array }[] {
+    // Order relative to the first segment seen so 32-bit sequence wrap-around sorts correctly
+    const rel = (seq: number) => (seq - this.firstSeq) >>> 0;
+    const ordered = [...this.chunks.entries()].sort((a, b) => rel(a[0]) - rel(b[0]));
+    if (ordered.length === 0) return [];
+
+    const base = ordered[0][0];
+    let total = 0;
+    for (const [seq, data] of ordered) total = Math.max(total, ((seq - base) >>> 0) + data.length);
+    const stream = new Uint8Array(total);
+    for (const [seq, data] of ordered) stream.set(data, (seq - base) >>> 0);
+
+    const timeAt = (offset: number) => {
+      let t = NaN;
+      for (const entry of this.times) {
+        if (((entry.seq - base) >>> 0) <= offset) t = entry.time;
+      }
+      return t;
+    };
+
+    const messages: { time: number; payload: Uint8Array }[] = [];
+    let pos = 0;
+    while (pos + 2 <= stream.length) {
+      const len = (stream[pos] << 8) | stream[pos + 1];
+      if (len === 0 || pos + 2 + len > stream.length) break;
+      messages.push({ time: timeAt(pos), payload: stream.subarray(pos + 2, pos + 2 + len) });
+      pos += 2 + len;
+    }
+    return messages;
+  }
+}
+
+const toIso = (time: number): string | undefined =>
+  Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+
+const transactionToRecord = (tx: Transaction): DNSQuery | null => {
+  const primary = tx.query ?? tx.response;
+  if (!primary) return null;
+  const question = primary.message.questions[0];
+  if (!question) return null;
+
+  // The client is the sender of the query, or the receiver of an orphan response
+  const client = tx.query
+    ? { ip: tx.query.segment.srcIp, port: tx.query.segment.srcPort }
+    : { ip: primary.segment.dstIp, port: primary.segment.dstPort };
+  const server = tx.query
+    ? { ip: tx.query.segment.dstIp, port: tx.query.segment.dstPort }
+    : { ip: primary.segment.srcIp, port: primary.segment.srcPort };
+
+  const response = tx.response?.message;
+  return normalizeDNSQuery({
+    timestamp: toIso(primary.time),
+    sourceIp: client.ip,
+    query: question.name,
+    type: question.type,
+    responseCode: response ? response.rcode : undefined,
+    answers: response?.answers.length ? response.answers.map(a => ({ type: a.type, data: a.data, ttl: a.ttl })) : undefined,
+    responseSize: response?.size,
+    truncated: response ? response.truncated : undefined,
+    sourcePort: client.port,
+    serverIp: server.ip,
+    serverPort: server.port,
+    transport: primary.segment.protocol,
+    transactionId: primary.message.id,
+    answered: !!response,
+    responseTimeMs: tx.query && tx.response ? parseFloat((tx.response.time - tx.query.time).toFixed(3)) : undefined,
+    edns: (tx.query?.message.edns ?? response?.edns) ? true : undefined,
+    ednsUdpSize: tx.query?.message.edns?.udpPayloadSize
+  });
+};
+
+/**
+ * Parses a libpcap or PCAPNG capture and returns one DNSQuery per DNS transaction.
+ * Queries and responses are paired by client endpoint, server, transaction ID and question.
+ */
+export const parsePcap = (buffer: ArrayBuffer): DNSQuery[] => {
+  if (!isPacketCapture(buffer)) throw new CaptureFormatError('Unrecognised capture format (expected pcap or pcapng).');
+
+  const magic = new DataView(buffer).getUint32(0, false);
+  const packets = magic === PCAPNG_SHB ? readPcapng(buffer) : readLibpcap(buffer);
+
+  const order: Transaction[] = [];
+  const pending = new Map<string, Transaction>();
+  const tcpStreams = new Map<string, { stream: TcpStream; segment: Segment }>();
+
+  const handleMessage = (payload: Uint8Array, time: number, segment: Segment) => {
+    let message: DNSMessage;
+    try {
+      message = decodeDNSMessage(payload);
+    } catch {
+      return;
+    }
+    const question = message.questions[0];
+    const qname = question ? `${question.name.toLowerCase()}/${question.type}` : '';
+    const key = message.isResponse
+      ? `${segment.dstIp}|${segment.dstPort}|${segment.srcIp}|${message.id}|${qname}`
+      : `${segment.srcIp}|${segment.srcPort}|${segment.dstIp}|${message.id}|${qname}`;
+
+    const existing = pending.get(key);
+    if (message.isResponse) {
+      if (existing && existing.query && !existing.response) {
+        existing.response = { time, message, segment };
+        pending.delete(key);
+      } else {
+        order.push({ response: { time, message, segment } });
+      }
+    } else {
+      const tx: Transaction = { query: { time, message, segment } };
+      order.push(tx);
+      pending.set(key, tx);
+    }
+  };
+
+  for (const packet of packets) {
+    const segment = readFrame(packet);
+    if (!segment || (segment.srcPort !== DNS_PORT && segment.dstPort !== DNS_PORT)) continue;
+
+    if (segment.protocol === 'udp') {
+      handleMessage(segment.payload, packet.time, segment);
+    } else {
+      const flowKey = `${segment.srcIp}|${segment.srcPort}|${segment.dstIp}|${segment.dstPort}`;
+      let flow = tcpStreams.get(flowKey);
+      if (!flow) {
+        flow = { stream: new TcpStream(), segment };
+        tcpStreams.set(flowKey, flow);
+      }
+      flow.stream.add(segment.seq, segment.payload, packet.time);
+    }
+  }
+
+  // TCP messages are only complete once the whole flow has been seen; process them
+  // queries-first so responses can find their pending transaction
+  const flows = [...tcpStreams.values()].sort((a, b) => (a.segment.dstPort === DNS_PORT ? -1 : 0) - (b.segment.dstPort === DNS_PORT ? -1 : 0));
+  for (const { stream, segment } of flows) {
+    for (const { time, payload } of stream.drain()) handleMessage(payload, time, segment);
+  }
+
+  return order
+    .map(transactionToRecord)
+    .filter((q): q is DNSQuery => q !== null)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
@@ -0,0 +1,68 @@
+import { PUBLIC_SUFFIX_RULES } from './publicSuffixList';
+
+/**
+ * Offline Public Suffix List matching (https://publicsuffix.org/list/).
+ * Splits a query name into the labels left of the registered domain, the registered
+ * domain itself (one label plus its public suffix) and the public suffix.
+ */
+
+export interface DomainParts {
+  /** Labels left of the registered domain, e.g. `a1b2.c3d4` in `a1b2.c3d4.attacker.co.uk` */
+  subdomain: string;
+  /** e.g. `attacker.co.uk`; empty when the name is itself a public suffix */
+  registeredDomain: string;
+  /** e.g. `co.uk` */
+  publicSuffix: string;
+}
+
+interface RuleSet {
+  rules: Set<string>;
+  wildcards: Set<string>;
+  exceptions: Set<string>;
+}
+
+let ruleSet: RuleSet | null = null;
+
+// Parsed on first use rather than at import time
+const getRules = (): RuleSet => {
+  if (ruleSet) return ruleSet;
+  ruleSet = { rules: new Set(), wildcards: new Set(), exceptions: new Set() };
+  for (const rule of PUBLIC_SUFFIX_RULES.split(/\s+/)) {
+    if (!rule) continue;
+    if (rule.startsWith('!')) ruleSet.exceptions.add(rule.slice(1));
+    else if (rule.startsWith('*.')) ruleSet.wildcards.add(rule.slice(2));
+    else ruleSet.rules.add(rule);
+  }
+  return ruleSet;
+};
+
+/**
+ * Applies the PSL algorithm: the longest matching rule wins, exception rules beat
+ * wildcards, and an unlisted TLD is treated as a suffix of its own (the implicit `*` rule).
+ */
+export const splitDomain = (name: string): DomainParts => {
+  const labels = name.toLowerCase().replace(/\.$/, '').split('.').filter(Boolean);
+  if (labels.length === 0) return { subdomain: '', registeredDomain: '', publicSuffix: '' };
+
+  const { rules, wildcards, exceptions } = getRules();
+  let suffixStart = labels.length - 1;
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (exceptions.has(candidate)) {
+      suffixStart = i + 1;
+      break;
+    }
+    if (rules.has(candidate) || (i + 1 < labels.length && wildcards.has(labels.slice(i + 1).join('.')))) {
+      suffixStart = i;
+      break;
+    }
+  }
+
+  const publicSuffix = labels.slice(suffixStart).join('.');
+  if (suffixStart === 0) return { subdomain: '', registeredDomain: '', publicSuffix };
+  return {
+    subdomain: labels.slice(0, suffixStart - 1).join('.'),
+    registeredDomain: labels.slice(suffixStart - 1).join('.'),
+    publicSuffix
+  };
+};
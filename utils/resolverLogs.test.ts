@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { DNSQuery } from '../types';
+import { detectResolverFormat, parseResolverLog } from './resolverLogs';
+
+interface Fixture {
+  format: Parameters<typeof parseResolverLog>[1];
+  description: string;
+  lines: string[];
+  /** Expected fields of each parsed query in order; fields the parser keeps as metadata are looked up there */
+  queries: Record<string, unknown>[];
+  /** Line numbers the error report must list */
+  errorLines: number[];
+}
+
+// Resolver logs carry local wall-clock times
+const localTime = (year: number, month: number, day: number, hour: number, minute: number, second: number, ms = 0) =>
+  new Date(year, month - 1, day, hour, minute, second, ms).toISOString();
+const syslogTime = (month: number, day: number, hour: number, minute: number, second: number) =>
+  localTime(new Date().getFullYear(), month, day, hour, minute, second);
+
+// Sample lines as each resolver writes them, with the queries they must produce and the lines that must be reported
+const FIXTURES: Fixture[] = [
+  {
+    format: 'bind',
+    description: 'querylog with views, syslog prefix and IPv6 clients',
+    lines: [
+      '14-Nov-2023 22:13:20.123 queries: info: client @0x7f3a2c0b1d68 10.0.0.5#53211 (www.example.com): query: www.example.com IN A +E(0)K (10.0.0.1)',
+      '14-Nov-2023 22:13:21.004 queries: info: client @0x7f3a2c0b1d68 192.168.1.20#40112 (mail.example.org): view internal: query: mail.example.org. IN MX -ED (192.168.1.1)',
+      '',
+      'Nov 14 22:13:22 ns1 named[812]: client 2001:db8::15#5353 (_ldap._tcp.corp.example.com): query: _ldap._tcp.corp.example.com IN SRV + (2001:db8::1)',
+      '14-Nov-2023 22:13:23.500 general: info: zone example.com/IN: loaded serial 2023111401'
+    ],
+    queries: [
+      { timestamp: localTime(2023, 11, 14, 22, 13, 20, 123), sourceIp: '10.0.0.5', sourcePort: 53211, query: 'www.example.com', type: 'A', qclass: 'IN', flags: '+E(0)K', recursionDesired: true, serverIp: '10.0.0.1', responseCode: 'NORESPONSE' },
+      { timestamp: localTime(2023, 11, 14, 22, 13, 21, 4), sourceIp: '192.168.1.20', query: 'mail.example.org', type: 'MX', flags: '-ED', recursionDesired: false, serverIp: '192.168.1.1' },
+      { timestamp: syslogTime(11, 14, 22, 13, 22), sourceIp: '2001:db8::15', sourcePort: 5353, query: '_ldap._tcp.corp.example.com', type: 'SRV', serverIp: '2001:db8::1' }
+    ],
+    errorLines: [5]
+  },
+  {
+    format: 'unbound',
+    description: 'log-queries and log-replies, with a reply folded into its query',
+    lines: [
+      '[1700000000] unbound[1234:0] info: start of service (unbound 1.17.1).',
+      '[1700000000] unbound[1234:0] info: 10.0.0.5 www.example.com. A IN',
+      '[1700000000] unbound[1234:0] info: 10.0.0.5 www.example.com. A IN NOERROR 0.025000 0 61',
+      '[1700000001] unbound[1234:1] info: 10.0.0.7 cdn.example.net. AAAA IN NOERROR 0.000000 1 89',
+      '[1700000002] unbound[1234:0] info: 10.0.0.9 nosuch.example.com. TXT IN NXDOMAIN 0.104000 0 110',
+      'resolver restarted by watchdog'
+    ],
+    queries: [
+      { timestamp: '2023-11-14T22:13:20.000Z', sourceIp: '10.0.0.5', query: 'www.example.com', type: 'A', responseCode: 'NOERROR', responseTimeMs: 25, fromCache: false, responseSize: 61 },
+      { timestamp: '2023-11-14T22:13:21.000Z', sourceIp: '10.0.0.7', query: 'cdn.example.net', type: 'AAAA', responseCode: 'NOERROR', fromCache: true, responseSize: 89 },
+      { timestamp: '2023-11-14T22:13:22.000Z', sourceIp: '10.0.0.9', query: 'nosuch.example.com', type: 'TXT', responseCode: 'NXDOMAIN', responseTimeMs: 104 }
+    ],
+    errorLines: [6]
+  },
+  {
+    format: 'dnsmasq',
+    description: 'Pi-hole blocking, cached negative answers and log-queries=extra serials',
+    lines: [
+      'Nov 14 22:13:20 dnsmasq[812]: query[A] ads.example.com from 192.168.1.20',
+      'Nov 14 22:13:20 dnsmasq[812]: /etc/pihole/gravity.list ads.example.com is 0.0.0.0',
+      'Nov 14 22:13:21 dnsmasq[812]: query[AAAA] www.example.org from 192.168.1.21',
+      'Nov 14 22:13:21 dnsmasq[812]: forwarded www.example.org to 1.1.1.1',
+      'Nov 14 22:13:21 dnsmasq[812]: reply www.example.org is 2001:db8::80',
+      'Nov 14 22:13:22 dnsmasq[812]: query[A] missing.example.com from 192.168.1.22',
+      'Nov 14 22:13:22 dnsmasq[812]: cached missing.example.com is NXDOMAIN',
+      'Nov 14 22:13:23 dnsmasq[812]: 17 192.168.1.23/50312 query[A] api.example.net from 192.168.1.23',
+      'Nov 14 22:13:23 dnsmasq[812]: 17 192.168.1.23/50312 reply api.example.net is 203.0.113.7',
+      'Nov 14 22:13:24 pihole-FTL[900]: Resizing "dns_cache" from 8192 to 16384'
+    ],
+    queries: [
+      { timestamp: syslogTime(11, 14, 22, 13, 20), sourceIp: '192.168.1.20', query: 'ads.example.com', type: 'A', responseCode: 'NOERROR', answers: ['0.0.0.0'], blockedBy: '/etc/pihole/gravity.list' },
+      { sourceIp: '192.168.1.21', query: 'www.example.org', type: 'AAAA', responseCode: 'NOERROR', answers: ['2001:db8::80'] },
+      { sourceIp: '192.168.1.22', query: 'missing.example.com', type: 'A', responseCode: 'NXDOMAIN', fromCache: true },
+      { sourceIp: '192.168.1.23', query: 'api.example.net', type: 'A', responseCode: 'NOERROR', answers: ['203.0.113.7'], serial: 17 }
+    ],
+    errorLines: [10]
+  },
+  {
+    format: 'windows-dns',
+    description: 'debug log with its header, client responses, upstream recursion and a cut-off line',
+    lines: [
+      'DNS Server log file creation at 11/14/2023 10:13:00 PM',
+      'Log file wrap at 11/14/2023 10:13:00 PM',
+      '',
+      '11/14/2023 10:13:20 PM 0E5C PACKET  000000A1B2C3D4E5 UDP Rcv 10.0.0.5        1a2b   Q [0001   D   NOERROR] A      (3)www(7)example(3)com(0)',
+      '11/14/2023 10:13:20 PM 0E5C PACKET  000000A1B2C3D4E5 UDP Snd 10.0.0.5        1a2b R Q [8081   DR  NOERROR] A      (3)www(7)example(3)com(0)',
+      '11/14/2023 10:13:21 PM 0E5C PACKET  000000A1B2C3D4F0 TCP Rcv 10.0.0.6        3c4d   Q [0001   D   NOERROR] AAAA   (6)nosuch(7)example(3)com(0)',
+      '11/14/2023 10:13:21 PM 0E5C PACKET  000000A1B2C3D500 UDP Snd 192.0.2.53      5e6f   Q [0001   D   NOERROR] AAAA   (6)nosuch(7)example(3)com(0)',
+      '11/14/2023 10:13:21 PM 0E5C PACKET  000000A1B2C3D4F0 TCP Snd 10.0.0.6        3c4d R Q [8183   DR NXDOMAIN] AAAA   (6)nosuch(7)example(3)com(0)',
+      '11/14/2023 10:13:22 PM 0E5C PACKET  000000A1B2C3D510 UDP Rcv'
+    ],
+    queries: [
+      { timestamp: localTime(2023, 11, 14, 22, 13, 20), sourceIp: '10.0.0.5', query: 'www.example.com', type: 'A', responseCode: 'NOERROR', transport: 'udp', transactionId: 0x1a2b, flags: 'D' },
+      { timestamp: localTime(2023, 11, 14, 22, 13, 21), sourceIp: '10.0.0.6', query: 'nosuch.example.com', type: 'AAAA', responseCode: 'NXDOMAIN', transport: 'tcp', transactionId: 0x3c4d }
+    ],
+    errorLines: [9]
+  }
+];
+
+const fieldOf = (query: DNSQuery, field: string): unknown => {
+  if (field === 'answers') return query.answers?.map(a => a.data);
+  const value = (query as unknown as Record<string, unknown>)[field];
+  return value !== undefined ? value : query.metadata?.[field];
+};
+
+describe.each(FIXTURES)('$format: $description', fixture => {
+  it('is detected', () => {
+    expect(detectResolverFormat(fixture.lines)).toBe(fixture.format);
+  });
+
+  it('parses the expected queries', () => {
+    const { queries } = parseResolverLog(fixture.lines.join('\n'), fixture.format);
+    expect(queries).toHaveLength(fixture.queries.length);
+    fixture.queries.forEach((expected, i) => {
+      const actual = Object.fromEntries(Object.keys(expected).map(field => [field, fieldOf(queries[i], field)]));
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  it('reports the lines it cannot parse', () => {
+    const { errors } = parseResolverLog(fixture.lines.join('\n'), fixture.format);
+    expect(errors.map(e => e.line)).toEqual(fixture.errorLines);
+  });
+});
@@ -0,0 +1,327 @@
+import { DNSQuery, LogFormat, ParseError, ParseResult } from '../types';
+import { normalizeDNSQuery } from './forensics';
+
+/**
+ * Parsers for the query logs written by common recursive resolvers:
+ * BIND querylog, Unbound log-queries/log-replies, dnsmasq (and Pi-hole's pihole.log)
+ * and the Windows DNS Server debug log.
+ */
+
+type ResolverFormat = Extract<LogFormat, 'bind' | 'unbound' | 'dnsmasq' | 'windows-dns'>;
+
+interface ResolverParser {
+  format: ResolverFormat;
+  /** Cheap per-line test used for auto-detection */
+  detect: (line: string) => boolean;
+  parse: (lines: string[]) => { queries: DNSQuery[]; errors: ParseError[] };
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
+};
+
+/**
+ * Parses `14-Nov-2023 22:13:20.123` (BIND's default querylog timestamp)
+ */
+const parseBindTime = (value: string): string | undefined => {
+  const m = value.match(/^(\d{1,2})-([A-Za-z]{3})-(\d{4}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?$/);
+  if (!m || MONTHS[m[2].toLowerCase()] === undefined) return undefined;
+  const ms = m[7] ? parseInt(m[7].padEnd(3, '0'), 10) : 0;
+  return new Date(+m[3], MONTHS[m[2].toLowerCase()], +m[1], +m[4], +m[5], +m[6], ms).toISOString();
+};
+
+/**
+ * Parses a syslog `Nov 14 22:13:20` prefix. Syslog omits the year, so the current one is assumed.
+ */
+const parseSyslogTime = (value: string): string | undefined => {
+  const m = value.match(/^([A-Za-z]{3})\s+(\d{1,2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!m || MONTHS[m[1].toLowerCase()] === undefined) return undefined;
+  return new Date(new Date().getFullYear(), MONTHS[m[1].toLowerCase()], +m[2], +m[3], +m[4], +m[5]).toISOString();
+};
+
+const parseEpochTime = (value: string): string | undefined => {
+  const seconds = parseFloat(value);
+  return Number.isFinite(seconds) ? new Date(seconds * 1000).toISOString() : undefined;
+};
+
+/**
+ * Parses the locale-formatted Windows timestamp, e.g. `11/14/2023 10:13:20 PM`
+ * or the 24-hour `14/11/2023 22:13:20` variant
+ */
+const parseWindowsTime = (value: string): string | undefined => {
+  const m = value.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4}) (\d{1,2}):(\d{2}):(\d{2})(?: ([AP]M))?$/i);
+  if (!m) return undefined;
+  let [year, month, day] = [+m[3], +m[1], +m[2]];
+  if (m[1].length === 4) [year, month, day] = [+m[1], +m[2], +m[3]];
+  // Day-first locales: the first field can only be a day when it exceeds 12
+  else if (+m[1] > 12) [month, day] = [+m[2], +m[1]];
+  let hour = +m[4];
+  if (m[7]) {
+    const pm = m[7].toUpperCase() === 'PM';
+    if (pm && hour < 12) hour += 12;
+    if (!pm && hour === 12) hour = 0;
+  }
+  const date = new Date(year, month - 1, day, hour, +m[5], +m[6]);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Decodes the Windows debug log name encoding: `(3)www(6)google(3)com(0)` -> `www.google.com`
+ */
+export const decodeWindowsDnsName = (encoded: string): string => {
+  const labels: string[] = [];
+  const re = /\((\d+)\)/g;
+  let match: RegExpExecArray | null;
+  let last: { end: number; len: number } | null = null;
+  while ((match = re.exec(encoded)) !== null) {
+    if (last && last.len > 0) labels.push(encoded.slice(last.end, last.end + last.len));
+    last = { end: match.index + match[0].length, len: parseInt(match[1], 10) };
+  }
+  return labels.join('.');
+};
+
+const stripRoot = (name: string): string => (name.endsWith('.') && name.length > 1 ? name.slice(0, -1) : name);
+
+// --- BIND ---
+
+// client @0x7f.. 10.0.0.5#5353 (www.example.com): view internal: query: www.example.com IN A +E(0)K (10.0.0.1)
+const BIND_QUERY = /client (?:@\S+ )?([0-9a-fA-F:.]+)#(\d+)(?: \([^)]*\))?(?:: view [^:]+)?: query: (\S+) (\S+) (\S+) (\S*)(?: \(([^)]+)\))?/;
+
+const bindParser: ResolverParser = {
+  format: 'bind',
+  detect: line => BIND_QUERY.test(line),
+  parse: lines => {
+    const queries: DNSQuery[] = [];
+    const errors: ParseError[] = [];
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      const m = line.match(BIND_QUERY);
+      if (!m) {
+        errors.push({ line: i + 1, content: line, reason: 'Not a BIND query line' });
+        return;
+      }
+      const prefix = line.slice(0, m.index).trim();
+      const timestamp = parseBindTime(prefix.split(/\s+/).slice(0, 2).join(' ')) ?? parseSyslogTime(prefix);
+      queries.push(normalizeDNSQuery({
+        timestamp,
+        sourceIp: m[1],
+        query: stripRoot(m[3]),
+        type: m[5],
+        // The querylog only records the question; the outcome is unknown
+        responseCode: 'NORESPONSE',
+        sourcePort: parseInt(m[2], 10),
+        qclass: m[4],
+        flags: m[6],
+        recursionDesired: m[6].startsWith('+'),
+        serverIp: m[7]
+      }));
+    });
+    return { queries, errors };
+  }
+};
+
+// --- Unbound ---
+
+// [1700000000] unbound[1234:0] info: 10.0.0.5 www.example.com. A IN NOERROR 0.000000 0 45
+const UNBOUND_LINE = /info: ([0-9a-fA-F:.]+) (\S+) (\S+) (IN|CH|HS|NONE|ANY|CLASS\d+)(?: (\S+) ([\d.]+) (\d) (\d+))?\s*$/;
+
+const unboundParser: ResolverParser = {
+  format: 'unbound',
+  detect: line => /unbound\[\d+:\d+\]/.test(line) && UNBOUND_LINE.test(line),
+  parse: lines => {
+    const records: Record<string, any>[] = [];
+    const errors: ParseError[] = [];
+    // With both log-queries and log-replies enabled each lookup is logged twice;
+    // fold the reply into the query line it answers
+    const open = new Map<string, Record<string, any>>();
+
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      const m = line.match(UNBOUND_LINE);
+      if (!m) {
+        // Other unbound diagnostics (startup, stats) are not queries but are not errors either
+        if (!/unbound\[\d+:\d+\]/.test(line)) errors.push({ line: i + 1, content: line, reason: 'Not an Unbound log line' });
+        return;
+      }
+      const epoch = line.match(/^\[(\d+(?:\.\d+)?)\]/);
+      const timestamp = epoch ? parseEpochTime(epoch[1]) : parseSyslogTime(line);
+      const query = stripRoot(m[2]);
+      const key = `${m[1]}|${query.toLowerCase()}|${m[3]}`;
+
+      if (m[5] === undefined) {
+        const record = { timestamp, sourceIp: m[1], query, type: m[3], responseCode: 'NORESPONSE', qclass: m[4] };
+        records.push(record);
+        open.set(key, record);
+        return;
+      }
+
+      const reply = {
+        responseCode: m[5],
+        responseTimeMs: parseFloat(m[6]) * 1000,
+        fromCache: m[7] === '1',
+        responseSize: parseInt(m[8], 10)
+      };
+      const pending = open.get(key);
+      if (pending) {
+        Object.assign(pending, reply);
+        open.delete(key);
+      } else {
+        records.push({ timestamp, sourceIp: m[1], query, type: m[3], qclass: m[4], ...reply });
+      }
+    });
+
+    return { queries: records.map(r => normalizeDNSQuery(r)), errors };
+  }
+};
+
+// --- dnsmasq / Pi-hole ---
+
+const DNSMASQ_PREFIX = /^(.*?)\s*dnsmasq\[\d+\]:\s*(?:(\d+) ([0-9a-fA-F:.]+)\/(\d+) )?(.*)$/;
+const DNSMASQ_QUERY = /^query\[(\w+)\] (\S+) from ([0-9a-fA-F:.]+)$/;
+// reply/cached/config/<blocklist path> <name> is <answer>
+const DNSMASQ_ANSWER = /^(reply|cached|cached-stale|config|\/\S+|special domain|regex blacklisted|gravity blocked|exactly blacklisted) (\S+) is (.+)$/;
+const DNSMASQ_NEGATIVE: Record<string, string> = {
+  'NXDOMAIN': 'NXDOMAIN',
+  'NODATA': 'NOERROR',
+  'NODATA-IPv4': 'NOERROR',
+  'NODATA-IPv6': 'NOERROR',
+  'SERVFAIL': 'SERVFAIL',
+  'REFUSED': 'REFUSED'
+};
+
+const dnsmasqParser: ResolverParser = {
+  format: 'dnsmasq',
+  detect: line => /dnsmasq\[\d+\]:/.test(line),
+  parse: lines => {
+    const records: Record<string, any>[] = [];
+    const errors: ParseError[] = [];
+    // Most recent unanswered query per name (or per serial when log-queries=extra is set)
+    const open = new Map<string, Record<string, any>>();
+
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      const prefix = line.match(DNSMASQ_PREFIX);
+      if (!prefix) {
+        errors.push({ line: i + 1, content: line, reason: 'Not a dnsmasq log line' });
+        return;
+      }
+      const [, head, serial, , , message] = prefix;
+
+      const q = message.match(DNSMASQ_QUERY);
+      if (q) {
+        const record: Record<string, any> = {
+          timestamp: parseSyslogTime(head),
+          sourceIp: q[3],
+          query: q[2],
+          type: q[1],
+          responseCode: 'NORESPONSE',
+          answers: [] as string[],
+          ...(serial && { serial: parseInt(serial, 10) })
+        };
+        records.push(record);
+        open.set(serial ?? q[2].toLowerCase(), record);
+        return;
+      }
+
+      const a = message.match(DNSMASQ_ANSWER);
+      if (a) {
+        const record = open.get(serial ?? a[2].toLowerCase());
+        if (!record) return;
+        const [, source, , answer] = a;
+        if (DNSMASQ_NEGATIVE[answer]) {
+          record.responseCode = DNSMASQ_NEGATIVE[answer];
+        } else {
+          record.responseCode = 'NOERROR';
+          if (answer !== '<CNAME>') record.answers.push(answer);
+        }
+        if (source !== 'reply' && source !== 'cached' && source !== 'cached-stale' && source !== 'config') {
+          record.blockedBy = source;
+        }
+        if (source.startsWith('cached')) record.fromCache = true;
+      }
+      // forwarded/validation/dhcp and other dnsmasq lines carry no query of their own
+    });
+
+    const queries = records.map(r => normalizeDNSQuery({
+      ...r,
+      answers: r.answers.length > 0 ? r.answers : undefined
+    }));
+    return { queries, errors };
+  }
+};
+
+// --- Windows DNS Server debug log ---
+
+// 11/14/2023 10:13:20 PM 0E5C PACKET  000000A1B2C3D4E5 UDP Rcv 10.0.0.5   1234   Q [0001   D   NOERROR] A      (3)www(7)example(3)com(0)
+const WINDOWS_PACKET = /^(.+?)\s+([0-9A-Fa-f]+)\s+PACKET\s+([0-9A-Fa-f]+)\s+(UDP|TCP)\s+(Rcv|Snd)\s+(\S+)\s+([0-9A-Fa-f]+)\s+(R)?\s*([QNU?])\s+\[([0-9A-Fa-f]+)\s+([A-Z ]*?)\s*([A-Z]+)\]\s+(\S+)\s+(\S+)/;
+
+const windowsParser: ResolverParser = {
+  format: 'windows-dns',
+  detect: line => /\sPACKET\s+[0-9A-Fa-f]+\s+(UDP|TCP)\s+(Rcv|Snd)\s/.test(line),
+  parse: lines => {
+    const records: Record<string, any>[] = [];
+    const errors: ParseError[] = [];
+    const open = new Map<string, Record<string, any>>();
+
+    lines.forEach((line, i) => {
+      if (!/\sPACKET\s/.test(line)) return; // header block, notes and packet detail dumps
+      const m = line.match(WINDOWS_PACKET);
+      if (!m) {
+        errors.push({ line: i + 1, content: line, reason: 'Malformed PACKET line' });
+        return;
+      }
+      const [, time, , , proto, direction, remoteIp, xid, isResponse, opcode, , flags, rcode, qtype, encodedName] = m;
+      if (opcode !== 'Q') return;
+      const query = decodeWindowsDnsName(encodedName);
+      const key = `${remoteIp}|${xid}|${query.toLowerCase()}`;
+
+      if (!isResponse && direction === 'Rcv') {
+        const record: Record<string, any> = {
+          timestamp: parseWindowsTime(time.trim()),
+          sourceIp: remoteIp,
+          query,
+          type: qtype,
+          responseCode: 'NORESPONSE',
+          transport: proto.toLowerCase(),
+          transactionId: parseInt(xid, 16),
+          flags: flags.trim()
+        };
+        records.push(record);
+        open.set(key, record);
+      } else if (isResponse && direction === 'Snd') {
+        const record = open.get(key);
+        if (record) {
+          record.responseCode = rcode;
+          open.delete(key);
+        }
+      }
+      // Snd without R and Rcv with R are the server's own upstream recursion
+    });
+
+    return { queries: records.map(r => normalizeDNSQuery(r)), errors };
+  }
+};
+
+const PARSERS: ResolverParser[] = [bindParser, unboundParser, dnsmasqParser, windowsParser];
+
+/**
+ * Picks the resolver format that recognises the most of the first few non-empty lines
+ */
+export const detectResolverFormat = (lines: string[]): ResolverFormat | null => {
+  const sample = lines.filter(l => l.trim()).slice(0, 50);
+  let best: { format: ResolverFormat; hits: number } | null = null;
+  for (const parser of PARSERS) {
+    const hits = sample.filter(parser.detect).length;
+    if (hits > 0 && (!best || hits > best.hits)) best = { format: parser.format, hits };
+  }
+  return best?.format ?? null;
+};
+
+/**
+ * Parses a resolver log of the given format. Line numbers in the error report
+ * refer to the original content, blank lines included.
+ */
+export const parseResolverLog = (content: string, format: ResolverFormat): ParseResult => {
+  const parser = PARSERS.find(p => p.format === format)!;
+  return { format, ...parser.parse(content.split(/\r?\n/).map(l => l.trimEnd())) };
+};
@@ -0,0 +1,340 @@
+import YAML from 'yaml';
+import { AlertSeverity, AlertType, DetectionRule, QueryLabel, RuleCondition, RuleOperator, ScoreFactor } from '../types';
+
+/**
+ * Declarative detection rules. A rule pack is evaluated in three passes over a query's
+ * fields and features: scoring rules build the threat score, the first matching
+ * classification rule labels the query (and may test `threatScore`), and the first matching
+ * alert rule decides the alert type (and may test `label`).
+ */
+
+export type RuleFormat = 'json' | 'yaml';
+
+/** Fields rules may test, besides anything under `metadata.` */
+export const RULE_FIELDS = [
+  'query', 'subdomain', 'registeredDomain', 'publicSuffix', 'type', 'responseCode', 'responseSize', 'truncated',
+  'sourceIp', 'process', 'host', 'length', 'entropy', 'ipScope', 'location', 'countryCode', 'asn', 'asOrg', 'reputation',
+  'answerEntropy', 'answerPayloadLength',
+  'lexical.encoding', 'lexical.bigramScore', 'lexical.trigramScore', 'lexical.vowelRatio', 'lexical.consonantRatio',
+  'lexical.digitRatio', 'lexical.longestLabel', 'dgaScore', 'tool', 'intel.feed', 'intel.kind', 'intel.field', 'intel.confidence',
+  'domainAgeDays', 'domainFirstSeenDays', 'domainIntel.registrar',
+  'threatScore', 'label'
+];
+
+const OPERATORS: RuleOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'contains', 'matches', 'exists'];
+const ALERT_TYPES: AlertType[] = ['TUNNELING_DETECTED', 'HIGH_ENTROPY', 'C2_PATTERN', 'VOLUME_ANOMALY', 'DGA_DETECTED', 'BASELINE_DEVIATION', 'INTEL_MATCH'];
+const LABELS: QueryLabel[] = ['Tunneling', 'DGA'];
+const SEVERITIES: AlertSeverity[] = ['MEDIUM', 'HIGH', 'CRITICAL'];
+const RULE_KEYS = ['id', 'name', 'description', 'enabled', 'when', 'weight', 'scale', 'group', 'classify', 'alert', 'severity'];
+
+/**
+ * The built-in detection logic, expressed as rules
+ */
+export const DEFAULT_RULES: DetectionRule[] = [
+  // Scoring
+  { id: 'entropy', name: 'Subdomain entropy', description: 'Entropy above 4.0 is suspicious, above 4.5 highly suspicious', enabled: true, when: { all: [{ field: 'entropy', op: 'gt', value: 3.5 }] }, scale: { field: 'entropy', from: 3.5, factor: 30, max: 40 } },
+  { id: 'subdomain-length', name: 'Long subdomain', enabled: true, when: { all: [{ field: 'length', op: 'gt', value: 30 }] }, scale: { field: 'length', from: 30, factor: 0.5, max: 20 } },
+  { id: 'rcode-nxdomain', name: 'NXDOMAIN response', enabled: true, when: { all: [{ field: 'responseCode', op: 'eq', value: 'NXDOMAIN' }] }, weight: 15 },
+  { id: 'rcode-servfail', name: 'SERVFAIL response', enabled: true, when: { all: [{ field: 'responseCode', op: 'eq', value: 'SERVFAIL' }] }, weight: 10 },
+  { id: 'qtype-txt', name: 'TXT query', enabled: true, when: { all: [{ field: 'type', op: 'eq', value: 'TXT' }] }, weight: 10 },
+  { id: 'qtype-null', name: 'NULL query', enabled: true, when: { all: [{ field: 'type', op: 'eq', value: 'NULL' }] }, weight: 15 },
+  { id: 'geo-high-risk', name: 'High-risk location', enabled: true, when: { all: [{ field: 'location', op: 'contains', value: ['Russia', 'China', 'North Korea', 'Iran', 'Unknown'] }] }, weight: 15 },
+  { id: 'geo-unresolved', name: 'Unresolved location', enabled: true, when: { any: [{ field: 'location', op: 'exists', value: false }, { field: 'location', op: 'eq', value: 'Resolving...' }] }, weight: 5 },
+  { id: 'reputation-malicious', name: 'Malicious indicator', description: 'Client address, name or answer listed as malicious by an imported threat-intel feed', enabled: true, when: { all: [{ field: 'reputation', op: 'eq', value: 'MALICIOUS' }] }, weight: 25 },
+  { id: 'reputation-suspicious', name: 'Suspicious indicator', description: 'Client address, name or answer listed as suspicious by an imported threat-intel feed', enabled: true, when: { all: [{ field: 'reputation', op: 'eq', value: 'SUSPICIOUS' }] }, weight: 15 },
+  { id: 'domain-newly-observed', name: 'Newly observed domain', description: 'Registered, or first seen in passive DNS, less than 30 days before the query', enabled: true, when: { any: [{ field: 'domainAgeDays', op: 'lt', value: 30 }, { field: 'domainFirstSeenDays', op: 'lt', value: 30 }] }, weight: 20 },
+  { id: 'answer-entropy', name: 'High-entropy answers', description: 'Downstream data in TXT/NULL/CNAME/AAAA answers', enabled: true, when: { all: [{ field: 'answerEntropy', op: 'gt', value: 4.0 }] }, scale: { field: 'answerEntropy', from: 4.0, factor: 12, max: 12 } },
+  { id: 'response-oversized', name: 'Oversized response', enabled: true, when: { all: [{ field: 'responseSize', op: 'gt', value: 512 }] }, scale: { field: 'responseSize', from: 512, factor: 0.01 }, group: { id: 'response-size', max: 8 } },
+  { id: 'response-truncated', name: 'Truncated response', enabled: true, when: { all: [{ field: 'truncated', op: 'eq', value: true }] }, weight: 4, group: { id: 'response-size', max: 8 } },
+  { id: 'encoding-base36', name: 'Base36 payload', enabled: true, when: { all: [{ field: 'lexical.encoding', op: 'eq', value: 'base36' }] }, weight: 6 },
+  { id: 'encoding-strong', name: 'Hex/base32/base64 payload', enabled: true, when: { all: [{ field: 'lexical.encoding', op: 'in', value: ['hex', 'base32', 'base64'] }] }, weight: 10 },
+  { id: 'unlikely-ngrams', name: 'Labels do not read like words', enabled: true, when: { all: [{ field: 'length', op: 'gte', value: 8 }, { field: 'lexical.bigramScore', op: 'lt', value: -1.5 }] }, scale: { field: 'lexical.bigramScore', from: -1.5, factor: -20, max: 6 } },
+  { id: 'long-label', name: 'Label near the 63-byte limit', enabled: true, when: { all: [{ field: 'lexical.longestLabel', op: 'gt', value: 50 }] }, weight: 4 },
+  { id: 'dga-domain', name: 'Machine-generated domain', description: 'Registered domain scored by the lexical DGA model', enabled: true, when: { all: [{ field: 'dgaScore', op: 'gt', value: 0.5 }] }, scale: { field: 'dgaScore', from: 0.5, factor: 40, max: 20 } },
+  { id: 'known-tool', name: 'Known tunnelling/C2 tool', description: 'Matched by the tool signature library', enabled: true, when: { all: [{ field: 'tool', op: 'exists' }] }, weight: 30 },
+
+  // Classification
+  { id: 'classify-entropy', name: 'Tunnel: entropy', enabled: true, when: { all: [{ field: 'entropy', op: 'gt', value: 4.2 }] }, classify: true },
+  { id: 'classify-length', name: 'Tunnel: length', enabled: true, when: { all: [{ field: 'length', op: 'gt', value: 45 }] }, classify: true },
+  { id: 'classify-answer-payload', name: 'Tunnel: answer payload', enabled: true, when: { all: [{ field: 'answerPayloadLength', op: 'gt', value: 100 }, { field: 'answerEntropy', op: 'gt', value: 4.8 }] }, classify: true },
+  { id: 'classify-response-size', name: 'Tunnel: response size', enabled: true, when: { all: [{ field: 'responseSize', op: 'gt', value: 1500 }] }, classify: true },
+  { id: 'classify-encoded-payload', name: 'Tunnel: encoded payload', description: 'Caught before it gets long or random enough for the entropy rule', enabled: true, when: { all: [{ field: 'lexical.encoding', op: 'exists' }, { field: 'length', op: 'gte', value: 24 }] }, classify: true },
+  { id: 'classify-known-tool', name: 'Tunnel: known tool', enabled: true, when: { all: [{ field: 'tool', op: 'exists' }] }, classify: true },
+  { id: 'classify-dga', name: 'DGA: failed lookup of generated domain', enabled: true, when: { all: [{ field: 'dgaScore', op: 'gte', value: 0.7 }, { field: 'responseCode', op: 'eq', value: 'NXDOMAIN' }] }, classify: 'DGA' },
+  { id: 'classify-score', name: 'Tunnel: threat score', enabled: true, when: { all: [{ field: 'threatScore', op: 'gt', value: 60 }] }, classify: true },
+
+  // Alerts
+  { id: 'alert-known-c2', name: 'Alert: C2 framework', enabled: true, when: { all: [{ field: 'tool', op: 'in', value: ['Cobalt Strike', 'Sliver'] }] }, alert: 'C2_PATTERN', severity: 'CRITICAL' },
+  { id: 'alert-intel', name: 'Alert: threat-intel match', enabled: true, when: { all: [{ field: 'reputation', op: 'eq', value: 'MALICIOUS' }] }, alert: 'INTEL_MATCH', severity: 'HIGH' },
+  { id: 'alert-high-entropy', name: 'Alert: high entropy', enabled: true, when: { all: [{ field: 'label', op: 'eq', value: 'Tunneling' }, { field: 'entropy', op: 'gt', value: 4.5 }] }, alert: 'HIGH_ENTROPY' },
+  { id: 'alert-tunneling', name: 'Alert: tunnelling', enabled: true, when: { all: [{ field: 'label', op: 'eq', value: 'Tunneling' }] }, alert: 'TUNNELING_DETECTED' },
+  { id: 'alert-dga', name: 'Alert: DGA lookup', description: 'The NXDOMAIN burst correlator already raises one alert per infected host; enable for one per query', enabled: false, when: { all: [{ field: 'label', op: 'eq', value: 'DGA' }] }, alert: 'DGA_DETECTED' }
+];
+
+// Rules used by the scoring functions; the UI and the ingest worker install the user's pack
+let activeRules: DetectionRule[] = DEFAULT_RULES;
+
+export const setActiveRules = (rules: DetectionRule[]) => {
+  activeRules = rules;
+};
+
+export const getActiveRules = (): DetectionRule[] => activeRules;
+
+const regexCache = new Map<string, RegExp>();
+
+const resolveField = (ctx: Record<string, any>, path: string): any =>
+  path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), ctx);
+
+const testCondition = (ctx: Record<string, any>, c: RuleCondition): boolean => {
+  const actual = resolveField(ctx, c.field);
+  switch (c.op) {
+    case 'exists': return (actual !== undefined && actual !== null && actual !== '') === (c.value ?? true);
+    case 'eq': return actual === c.value;
+    case 'neq': return actual !== c.value;
+    case 'gt': return typeof actual === 'number' && actual > c.value;
+    case 'gte': return typeof actual === 'number' && actual >= c.value;
+    case 'lt': return typeof actual === 'number' && actual < c.value;
+    case 'lte': return typeof actual === 'number' && actual <= c.value;
+    case 'in': return Array.isArray(c.value) && c.value.includes(actual);
+    case 'notIn': return Array.isArray(c.value) && !c.value.includes(actual);
+    case 'contains': {
+      if (typeof actual !== 'string') return false;
+      const needles: string[] = Array.isArray(c.value) ? c.value : [c.value];
+      return needles.some(n => actual.includes(n));
+    }
+    case 'matches': {
+      if (typeof actual !== 'string') return false;
+      if (!regexCache.has(c.value)) regexCache.set(c.value, new RegExp(c.value, 'i'));
+      return regexCache.get(c.value)!.test(actual);
+    }
+  }
+};
+
+export const ruleMatches = (ctx: Record<string, any>, rule: DetectionRule): boolean => {
+  if (!rule.enabled) return false;
+  const { all = [], any } = rule.when;
+  return all.every(c => testCondition(ctx, c)) && (!any || any.length === 0 || any.some(c => testCondition(ctx, c)));
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return 'none';
+  if (typeof value === 'number') return String(parseFloat(value.toFixed(3)));
+  return String(value);
+};
+
+/**
+ * What a matched rule saw: every field it tested, once, with the query's value
+ */
+export const describeObserved = (ctx: Record<string, any>, rule: DetectionRule): string => {
+  const { all = [], any = [] } = rule.when;
+  const fields = [...all, ...any.filter(c => testCondition(ctx, c))].map(c => c.field);
+  if (rule.scale) fields.unshift(rule.scale.field);
+  return Array.from(new Set(fields)).map(f => `${f} = ${formatValue(resolveField(ctx, f))}`).join(', ');
+};
+
+export const ruleFactor = (ctx: Record<string, any>, rule: DetectionRule, effect: ScoreFactor['effect'], contribution?: number): ScoreFactor => ({
+  factor: rule.name,
+  observed: describeObserved(ctx, rule),
+  ...(contribution !== undefined ? { contribution } : {}),
+  effect,
+  ruleId: rule.id
+});
+
+/**
+ * Sum of the scoring rules' contributions, capped at 100, with one factor per matching rule.
+ * When a group cap applies, its members' contributions are scaled down to fit it.
+ */
+export const evaluateScore = (ctx: Record<string, any>, rules: DetectionRule[]): { score: number; factors: ScoreFactor[] } => {
+  const matched: { rule: DetectionRule; contribution: number }[] = [];
+  const groups = new Map<string, { total: number; max: number }>();
+
+  for (const rule of rules) {
+    if ((rule.weight === undefined && !rule.scale) || !ruleMatches(ctx, rule)) continue;
+    let contribution = rule.weight ?? 0;
+    if (rule.scale) {
+      const value = resolveField(ctx, rule.scale.field);
+      const scaled = typeof value === 'number' ? Math.max(0, (value - rule.scale.from) * rule.scale.factor) : 0;
+      contribution += rule.scale.max !== undefined ? Math.min(rule.scale.max, scaled) : scaled;
+    }
+    matched.push({ rule, contribution });
+    if (rule.group) {
+      const group = groups.get(rule.group.id) ?? { total: 0, max: rule.group.max };
+      group.total += contribution;
+      group.max = Math.min(group.max, rule.group.max);
+      groups.set(rule.group.id, group);
+    }
+  }
+
+  let score = 0;
+  const factors = matched.map(({ rule, contribution }) => {
+    const group = rule.group && groups.get(rule.group.id);
+    const capped = group && group.total > group.max ? contribution * (group.max / group.total) : contribution;
+    score += capped;
+    return ruleFactor(ctx, rule, 'score', parseFloat(capped.toFixed(1)));
+  });
+
+  return { score: Math.min(100, Math.round(score)), factors };
+};
+
+const classifyLabel = (rule: DetectionRule): QueryLabel => (rule.classify === true ? 'Tunneling' : rule.classify as QueryLabel);
+
+/**
+ * The label of the first matching classification rule, in pack order, with every matching
+ * rule that agrees with it
+ */
+export const evaluateClassification = (ctx: Record<string, any>, rules: DetectionRule[]): { label: QueryLabel; factors: ScoreFactor[] } => {
+  const matched = rules.filter(r => r.classify && ruleMatches(ctx, r));
+  if (matched.length === 0) return { label: 'Normal', factors: [] };
+  const label = classifyLabel(matched[0]);
+  return { label, factors: matched.filter(r => classifyLabel(r) === label).map(r => ruleFactor(ctx, r, 'classify')) };
+};
+
+/**
+ * The first matching alert rule, in pack order
+ */
+export const evaluateAlert = (ctx: Record<string, any>, rules: DetectionRule[]): DetectionRule | undefined =>
+  rules.find(r => r.alert && ruleMatches(ctx, r));
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+const validateCondition = (c: any, path: string, errors: string[]) => {
+  if (!c || typeof c !== 'object' || Array.isArray(c)) {
+    errors.push(`${path}: expected a condition object with "field" and "op"`);
+    return;
+  }
+  for (const key of Object.keys(c)) {
+    if (!['field', 'op', 'value'].includes(key)) errors.push(`${path}: unknown property "${key}"`);
+  }
+  if (typeof c.field !== 'string' || !c.field) {
+    errors.push(`${path}.field: required`);
+  } else if (!RULE_FIELDS.includes(c.field) && !c.field.startsWith('metadata.')) {
+    errors.push(`${path}.field: unknown field "${c.field}" (expected one of ${RULE_FIELDS.join(', ')}, or metadata.<key>)`);
+  }
+  if (!OPERATORS.includes(c.op)) {
+    errors.push(`${path}.op: unknown operator "${c.op}" (expected one of ${OPERATORS.join(', ')})`);
+    return;
+  }
+  switch (c.op) {
+    case 'gt': case 'gte': case 'lt': case 'lte':
+      if (!isNumber(c.value)) errors.push(`${path}.value: "${c.op}" needs a number`);
+      break;
+    case 'in': case 'notIn':
+      if (!Array.isArray(c.value)) errors.push(`${path}.value: "${c.op}" needs a list`);
+      break;
+    case 'contains':
+      if (typeof c.value !== 'string' && !(Array.isArray(c.value) && c.value.every((v: unknown) => typeof v === 'string'))) {
+        errors.push(`${path}.value: "contains" needs a string or a list of strings`);
+      }
+      break;
+    case 'matches':
+      if (typeof c.value !== 'string') {
+        errors.push(`${path}.value: "matches" needs a regular expression string`);
+      } else {
+        try {
+          new RegExp(c.value);
+        } catch (error: any) {
+          errors.push(`${path}.value: invalid regular expression (${error.message})`);
+        }
+      }
+      break;
+    case 'exists':
+      if (c.value !== undefined && typeof c.value !== 'boolean') errors.push(`${path}.value: "exists" takes true or false`);
+      break;
+    default:
+      if (c.value === undefined) errors.push(`${path}.value: required for "${c.op}"`);
+  }
+};
+
+/**
+ * Checks a parsed rule pack (a list of rules, or an object with a `rules` list).
+ * Returns the rules, with `enabled` defaulted to true, and every problem found.
+ */
+export const validateRules = (doc: unknown): { rules: DetectionRule[]; errors: string[] } => {
+  const errors: string[] = [];
+  const list = Array.isArray(doc) ? doc : (doc && typeof doc === 'object' ? (doc as Record<string, unknown>).rules : undefined);
+  if (!Array.isArray(list)) return { rules: [], errors: ['Expected a list of rules or an object with a "rules" list'] };
+
+  const ids = new Set<string>();
+  const rules = list.map((r: any, i: number): DetectionRule => {
+    const path = `rules[${i}]${r && typeof r.id === 'string' ? ` (${r.id})` : ''}`;
+    if (!r || typeof r !== 'object' || Array.isArray(r)) {
+      errors.push(`${path}: expected a rule object`);
+      return r;
+    }
+    for (const key of Object.keys(r)) {
+      if (!RULE_KEYS.includes(key)) errors.push(`${path}: unknown property "${key}"`);
+    }
+    if (typeof r.id !== 'string' || !r.id.trim()) errors.push(`${path}.id: required`);
+    else if (ids.has(r.id)) errors.push(`${path}.id: duplicate id "${r.id}"`);
+    else ids.add(r.id);
+    if (typeof r.name !== 'string' || !r.name.trim()) errors.push(`${path}.name: required`);
+    if (r.description !== undefined && typeof r.description !== 'string') errors.push(`${path}.description: must be a string`);
+    if (r.enabled !== undefined && typeof r.enabled !== 'boolean') errors.push(`${path}.enabled: must be true or false`);
+
+    if (!r.when || typeof r.when !== 'object' || Array.isArray(r.when)) {
+      errors.push(`${path}.when: required, with "all" and/or "any" condition lists`);
+    } else {
+      for (const key of Object.keys(r.when)) {
+        if (key !== 'all' && key !== 'any') errors.push(`${path}.when: unknown property "${key}"`);
+      }
+      let conditions = 0;
+      for (const key of ['all', 'any'] as const) {
+        const value = r.when[key];
+        if (value === undefined) continue;
+        if (!Array.isArray(value)) {
+          errors.push(`${path}.when.${key}: must be a list`);
+          continue;
+        }
+        value.forEach((c: any, j: number) => validateCondition(c, `${path}.when.${key}[${j}]`, errors));
+        conditions += value.length;
+      }
+      if (conditions === 0) errors.push(`${path}.when: needs at least one condition`);
+    }
+
+    if (r.weight !== undefined && !isNumber(r.weight)) errors.push(`${path}.weight: must be a number`);
+    if (r.scale !== undefined) {
+      const s = r.scale;
+      if (!s || typeof s !== 'object') errors.push(`${path}.scale: expected { field, from, factor, max? }`);
+      else {
+        if (typeof s.field !== 'string' || (!RULE_FIELDS.includes(s.field) && !s.field.startsWith('metadata.'))) errors.push(`${path}.scale.field: unknown field "${s.field}"`);
+        if (!isNumber(s.from)) errors.push(`${path}.scale.from: must be a number`);
+        if (!isNumber(s.factor)) errors.push(`${path}.scale.factor: must be a number`);
+        if (s.max !== undefined && !isNumber(s.max)) errors.push(`${path}.scale.max: must be a number`);
+      }
+    }
+    if (r.group !== undefined && (typeof r.group?.id !== 'string' || !isNumber(r.group?.max))) {
+      errors.push(`${path}.group: expected { id, max }`);
+    }
+    if (r.classify !== undefined && typeof r.classify !== 'boolean' && !LABELS.includes(r.classify)) {
+      errors.push(`${path}.classify: must be true, false or a label (${LABELS.join(', ')})`);
+    }
+    if (r.alert !== undefined && !ALERT_TYPES.includes(r.alert)) {
+      errors.push(`${path}.alert: unknown alert type "${r.alert}" (expected one of ${ALERT_TYPES.join(', ')})`);
+    }
+    if (r.severity !== undefined && !SEVERITIES.includes(r.severity)) {
+      errors.push(`${path}.severity: unknown severity "${r.severity}" (expected one of ${SEVERITIES.join(', ')})`);
+    }
+    if (r.weight === undefined && r.scale === undefined && !r.classify && r.alert === undefined) {
+      errors.push(`${path}: does nothing; give it a weight, scale, classify or alert`);
+    }
+    return { ...r, enabled: r.enabled ?? true };
+  });
+
+  return { rules: errors.length === 0 ? rules : [], errors };
+};
+
+/**
+ * Parses and validates a rule document in JSON or YAML
+ */
+export const parseRules = (text: string, format: RuleFormat): { rules: DetectionRule[]; errors: string[] } => {
+  let doc: unknown;
+  try {
+    doc = format === 'json' ? JSON.parse(text) : YAML.parse(text);
+  } catch (error: any) {
+    return { rules: [], errors: [`${format === 'json' ? 'JSON' : 'YAML'} syntax error: ${error.message}`] };
+  }
+  return validateRules(doc);
+};
+
+export const serializeRules = (rules: DetectionRule[], format: RuleFormat): string =>
+  format === 'json' ? JSON.stringify({ rules }, null, 2) : YAML.stringify({ rules });
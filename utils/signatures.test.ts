@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { matchToolSignature, TOOL_SIGNATURES } from './signatures';
+
+interface Fixture {
+  query: string;
+  type: string;
+}
+
+// Per signature id: queries it must match and look-alikes it must not
+const FIXTURES: Record<string, { matches: Fixture[]; misses: Fixture[] }> = {
+  'iodine-handshake': {
+    matches: [
+      { query: 'zaA-Aaahhh-Drink-mal-ein-Jagermeister-aA-Aaahhh-Drink-mal-ein-J.t.example.com', type: 'NULL' },
+      { query: 'zaA-Aaahhh-Drink-mal-ein-Jagermeister-aA-Aaahhh-Drink-mal-ein-J.t.example.com', type: 'TXT' }
+    ],
+    misses: [
+      { query: 'yahoo.com', type: 'A' },
+      { query: 'zoom.us', type: 'A' },
+      { query: 'yt3z9abcdef.blog.example.com', type: 'A' },
+      { query: 'zone1.corp.example.com', type: 'TXT' },
+      { query: 'yrbxq0aaaa.cdn.example.com', type: 'TXT' },
+      { query: 'zqp2s4aaab.example.net', type: 'MX' }
+    ]
+  },
+  'dnscat2-prefix': {
+    matches: [
+      { query: 'dnscat.9d8e0100ab1c7a4f0000000000', type: 'TXT' },
+      { query: 'dnscat.1f6e01c9b20057d2a4b3', type: 'MX' }
+    ],
+    misses: [
+      { query: 'dnscat.example.com', type: 'A' }
+    ]
+  },
+  'dnsexfiltrator': {
+    matches: [
+      { query: 'init.ORSXG5BONR4HI7BS.base32.exfil.example.com', type: 'TXT' },
+      { query: '1.UEsDBBQAAAAIAGt0Vk9vZ1x2yQAAAE8BAAAIAAAAdGVzdC50eHRlj8EKwkAMRO-C_5CbF0uL3.exfil.example.com', type: 'TXT' }
+    ],
+    misses: [
+      { query: '1.debian.pool.ntp.org', type: 'A' },
+      { query: 'init.example.com', type: 'A' }
+    ]
+  },
+  'dns2tcp': {
+    matches: [
+      { query: 'aaaaaaaaaaaaaaeaqaaaaaaaa.=auth.tun.example.com', type: 'TXT' },
+      { query: 'aWRlbnRpZmllcjpzc2g.=connect.tun.example.com', type: 'TXT' },
+      { query: 'ABcdEFgh0123IJklMNop4567.tun.example.com', type: 'KEY' }
+    ],
+    misses: [
+      { query: '_dmarc.example.com', type: 'TXT' },
+      { query: 'selector1._domainkey.example.com', type: 'TXT' }
+    ]
+  },
+  'cobalt-strike-dns': {
+    matches: [
+      { query: 'api.1d2e3f4a.12ab34cd.c2.example.com', type: 'TXT' },
+      { query: 'www6.5c3ad51.7c2b8d4e.c2.example.com', type: 'AAAA' },
+      { query: 'post.2f64a0c8e1b3.1a9b77e4.c2.example.com', type: 'A' },
+      { query: 'aaa.stage.12345678.c2.example.com', type: 'TXT' }
+    ],
+    misses: [
+      { query: 'api.github.com', type: 'A' },
+      { query: 'post.news.example.com', type: 'A' },
+      { query: 'cdn.jsdelivr.net', type: 'A' },
+      { query: 'www.google.com', type: 'A' },
+      { query: 'api.2023.01.example.com', type: 'A' },
+      { query: 'cdn.123.abc.example.net', type: 'A' },
+      { query: 'www.deadbeef.cafebabe.example.com', type: 'A' },
+      { query: 'api.v1.12345678.example.com', type: 'A' }
+    ]
+  },
+  'dnscat2-hex': {
+    matches: [
+      { query: 'c2f501d2a3000000000a1b2c3d4e5f.skullseclabs.org', type: 'CNAME' },
+      { query: '4d2b0142ab0013a6f2e1.6c6f676f.tun.example.com', type: 'MX' }
+    ],
+    misses: [
+      { query: 'deadbeef0011223344.exfil.example.com', type: 'TXT' },
+      { query: 'e5b7a2a51fc0d4c6.ad.doubleclick.net', type: 'A' }
+    ]
+  },
+  'iodine-rtype': {
+    matches: [
+      { query: '0iabbaeb3ck9cyr2pmtkahmxivdi0lgl4vyzbwchxcxfegemx0bmxvtnlkabaa.t.example.com', type: 'NULL' },
+      { query: 'paaakrq2xbzaa.t.example.com', type: 'TYPE65399' }
+    ],
+    misses: [
+      { query: '0iabbaeb3ck9cyr2pmtkahmxivdi0lgl4vyzbwchxcxfegemx0bmxvtnlkabaa.t.example.com', type: 'A' }
+    ]
+  },
+  'sliver-dns': {
+    matches: [
+      {
+        query: 'ebnvwqbq5nk3m7fxsqz2y4gd6hlrj8kcp9tw2v3xmn4bq7ysd5fhg6jk8lzr2nt.ab7cxq4m9ps2kd8fvw3nh6jr5yt2gz7ebl4ucx9qm3ns8pk2dh6wf5jv7rb3ty.k4m9q2xd7hs3fw8np5vb6jt2cz7ly4rg9ek3ua8mx2qs6dp5hn7wf3bj4tv9c.c2.example.com',
+        type: 'TXT'
+      }
+    ],
+    misses: [
+      { query: 'mzxw6ytboi3dmnzq4ztqmfrgg2lmmuxgg33nmzxw6ytboi3dmnzq4ztqmf.t.example.com', type: 'TXT' }
+    ]
+  }
+};
+
+describe.each(TOOL_SIGNATURES.map(signature => ({ signature, id: `${signature.id}@${signature.version}` })))('$id', ({ signature }) => {
+  const fixtures = FIXTURES[signature.id];
+
+  it('has fixtures', () => {
+    expect(fixtures?.matches.length).toBeGreaterThan(0);
+    expect(fixtures?.misses.length).toBeGreaterThan(0);
+  });
+
+  it.each(fixtures?.matches ?? [])('attributes $type $query', ({ query, type }) => {
+    expect(matchToolSignature({ query, type })?.tool).toBe(signature.tool);
+  });
+
+  it.each(fixtures?.misses ?? [])('does not attribute $type $query', ({ query, type }) => {
+    expect(matchToolSignature({ query, type })?.tool).not.toBe(signature.tool);
+  });
+});
@@ -0,0 +1,139 @@
+import { DNSQuery } from '../types';
+import { splitDomain } from './publicSuffix';
+
+/**
+ * Signatures for known DNS tunnelling and C2 tools. Each signature is versioned on its own;
+ * signatures.test.ts holds captured-style queries each must match and look-alikes it must not.
+ */
+
+export const SIGNATURE_LIBRARY_VERSION = '1.1.0';
+
+export interface SignatureInput {
+  query: string;
+  /** Labels left of the registered domain, lowercased */
+  labels: string[];
+  type: string;
+}
+
+export interface ToolSignature {
+  id: string;
+  tool: string;
+  version: string;
+  description: string;
+  test: (input: SignatureInput) => boolean;
+}
+
+const HEX = /^[0-9a-f]+$/;
+// dnscat2 packet header: 16-bit packet id, message type (SYN/MSG/FIN/PING), 16-bit session id
+const DNSCAT_HEADER = /^[0-9a-f]{4}(00|01|02|ff)[0-9a-f]{4}/;
+const IODINE_TYPES = ['NULL', 'PRIVATE', 'TYPE65399'];
+// Prefixes specific to the DNS beacon; the generic www and cdn defaults collide with ordinary names
+const COBALT_PREFIXES = ['api', 'www6', 'post'];
+// Beacon requests: <prefix>.<7-12 hex nonce>.<8 hex beacon id>
+const COBALT_NONCE = /^[0-9a-f]{7,12}$/;
+const COBALT_BEACON_ID = /^[0-9a-f]{8}$/;
+
+// Ordered most specific first; the first match wins
+export const TOOL_SIGNATURES: ToolSignature[] = [
+  {
+    id: 'iodine-handshake',
+    tool: 'iodine',
+    version: '1.1',
+    description: 'Upstream case-check probe (the "Aaahhh-Drink-mal-ein-Jagermeister" pattern)',
+    test: ({ labels }) => labels.some(l => l.includes('aaahhh-drink-mal-ein'))
+  },
+  {
+    id: 'dnscat2-prefix',
+    tool: 'dnscat2',
+    version: '1.0',
+    description: 'Direct-mode queries under the literal "dnscat." prefix',
+    test: ({ query }) => /^dnscat\.[0-9a-f.]{8,}/i.test(query)
+  },
+  {
+    id: 'dnsexfiltrator',
+    tool: 'DNSExfiltrator',
+    version: '1.0',
+    description: 'init.<name|chunks>.base32|base64 session start, then <chunk>.<data> TXT requests',
+    test: ({ labels, type }) =>
+      (labels[0] === 'init' && labels.slice(2).some(l => /^base(32|64)$/.test(l))) ||
+      (type === 'TXT' && labels.length >= 2 && /^\d+$/.test(labels[0]) && labels.slice(1).join('').length >= 30 && /^[a-z0-9_-]+$/.test(labels.slice(1).join('')))
+  },
+  {
+    id: 'dns2tcp',
+    tool: 'dns2tcp',
+    version: '1.0',
+    description: 'Control labels =auth, =connect and =resource, and base64 data over KEY records',
+    test: ({ labels, type }) =>
+      labels.some(l => /^=(auth|connect|resources?)$/.test(l)) ||
+      (type === 'KEY' && labels.length >= 1 && labels[0].length >= 16 && /^[a-z0-9+/=_-]+$/.test(labels[0]))
+  },
+  {
+    id: 'cobalt-strike-dns',
+    tool: 'Cobalt Strike',
+    version: '1.1',
+    description: 'DNS beacon prefixes (api., www6., post.) followed by a hex nonce and an 8-digit hex beacon id, and stager .stage.<n>. requests',
+    test: ({ labels }) =>
+      (labels.includes('stage') && labels.some(l => /^\d{5,}$/.test(l))) ||
+      (labels.length >= 3 && COBALT_PREFIXES.includes(labels[0]) && COBALT_NONCE.test(labels[1]) && COBALT_BEACON_ID.test(labels[2]))
+  },
+  {
+    id: 'dnscat2-hex',
+    tool: 'dnscat2',
+    version: '1.0',
+    description: 'Hex-encoded packets under a domain, starting with a dnscat2 packet header',
+    test: ({ labels, type }) => {
+      // Leading hex labels only; the tunnel zone's own labels follow them
+      const end = labels.findIndex(l => !HEX.test(l));
+      const joined = labels.slice(0, end === -1 ? labels.length : end).join('');
+      return type !== 'A' && joined.length >= 18 && DNSCAT_HEADER.test(joined);
+    }
+  },
+  {
+    id: 'iodine-rtype',
+    tool: 'iodine',
+    version: '1.0',
+    description: 'Data over the NULL or PRIVATE (65399) record types iodine prefers',
+    test: ({ labels, type }) => IODINE_TYPES.includes(type) && labels.join('').length >= 8
+  },
+  {
+    id: 'sliver-dns',
+    tool: 'Sliver',
+    version: '1.0',
+    description: 'Messages packed into three or more near-maximum (50+ character) base32/base58 labels over A or TXT',
+    test: ({ labels, type }) =>
+      (type === 'A' || type === 'TXT') && labels.filter(l => l.length >= 50 && /^[a-z0-9]+$/.test(l)).length >= 3
+  }
+];
+
+const toInput = (query: string, type: string, subdomain?: string): SignatureInput => ({
+  query,
+  labels: (subdomain ?? splitDomain(query).subdomain).toLowerCase().split('.').filter(Boolean),
+  type: type.toUpperCase()
+});
+
+/**
+ * The first signature matching the query, if any
+ */
+export const matchToolSignature = (query: Pick<DNSQuery, 'query' | 'type' | 'subdomain'>): ToolSignature | undefined => {
+  const input = toInput(query.query, query.type, query.subdomain);
+  return TOOL_SIGNATURES.find(s => s.test(input));
+};
+
+/**
+ * Registered domains carrying traffic from each attributed tool, for the forensic report
+ */
+export const summarizeDetectedTools = (logs: DNSQuery[]): string[] => {
+  const byTool = new Map<string, Map<string, number>>();
+  for (const log of logs) {
+    if (!log.tool) continue;
+    const domain = log.registeredDomain || log.query;
+    if (!byTool.has(log.tool)) byTool.set(log.tool, new Map());
+    const domains = byTool.get(log.tool)!;
+    domains.set(domain, (domains.get(domain) ?? 0) + 1);
+  }
+  const summary: string[] = [];
+  for (const [tool, domains] of byTool) {
+    for (const [domain, count] of domains) summary.push(`${domain} (${tool}, ${count} queries)`);
+  }
+  return summary;
+};
@@ -0,0 +1,173 @@
+import { Alert, DNSQuery, SuppressionEntry, SuppressionKind } from '../types';
+import { inCidr, parseCidr, parseIp } from './ip';
+import { splitDomain } from './publicSuffix';
+
+/**
+ * Allowlisting of benign traffic that looks like tunnelling: antivirus cloud lookups, CDN
+ * hashes, DKIM/DMARC records and telemetry. A matching entry marks an alert suppressed
+ * instead of dropping it, so the Alerts view can still count and show what it hid.
+ */
+
+export const SUPPRESSION_KINDS: SuppressionKind[] = ['domain', 'wildcard', 'regex', 'cidr', 'qtype'];
+
+const curated = (id: string, kind: SuppressionKind, value: string, reason: string, qtype?: string): SuppressionEntry => ({
+  id, kind, value, qtype, reason, author: 'AegisDNS', createdAt: '2026-01-01T00:00:00.000Z', enabled: true
+});
+
+/**
+ * The curated list shipped with the app
+ */
+export const DEFAULT_SUPPRESSIONS: SuppressionEntry[] = [
+  curated('av-sophos', 'wildcard', '*.sophosxl.net', 'Sophos Live Protection file and URL reputation lookups'),
+  curated('av-mcafee-avqs', 'wildcard', '*.avqs.mcafee.com', 'McAfee GTI file reputation lookups'),
+  curated('av-mcafee-avts', 'wildcard', '*.avts.mcafee.com', 'McAfee GTI file reputation lookups'),
+  curated('av-eset', 'wildcard', '*.e5.sk', 'ESET LiveGrid reputation lookups'),
+  curated('rbl-spamhaus-zen', 'wildcard', '*.zen.spamhaus.org', 'Spamhaus ZEN blocklist lookups by mail servers'),
+  curated('rbl-spamhaus-dbl', 'wildcard', '*.dbl.spamhaus.org', 'Spamhaus DBL blocklist lookups by mail servers'),
+  curated('mail-dkim', 'regex', '\\._domainkey\\.', 'DKIM public key lookups by mail servers', 'TXT'),
+  curated('mail-dmarc', 'regex', '^_dmarc\\.', 'DMARC policy lookups by mail servers', 'TXT'),
+  curated('cdn-cloudfront', 'wildcard', '*.cloudfront.net', 'CloudFront distribution hostnames'),
+  curated('cdn-akamai', 'wildcard', '*.akamaihd.net', 'Akamai content hostnames'),
+  curated('cdn-edgekey', 'wildcard', '*.edgekey.net', 'Akamai edge hostnames'),
+  curated('cdn-gvt1', 'wildcard', '*.gvt1.com', 'Google update and component download mirrors'),
+  curated('telemetry-microsoft', 'wildcard', '*.events.data.microsoft.com', 'Windows and Office telemetry endpoints')
+];
+
+// Entries new alerts are checked against; the UI installs the user's list
+let activeSuppressions: SuppressionEntry[] = DEFAULT_SUPPRESSIONS;
+
+export const setActiveSuppressions = (entries: SuppressionEntry[]) => {
+  activeSuppressions = entries;
+};
+
+export const getActiveSuppressions = (): SuppressionEntry[] => activeSuppressions;
+
+/** What an entry is tested against: a query, or the domain or source of an aggregate alert */
+export interface SuppressionTarget {
+  query?: string;
+  registeredDomain?: string;
+  sourceIp?: string;
+  type?: string;
+}
+
+const patternCache = new Map<string, RegExp | null>();
+
+const pattern = (kind: 'wildcard' | 'regex', value: string): RegExp | null => {
+  const key = `${kind}:${value}`;
+  if (!patternCache.has(key)) {
+    try {
+      patternCache.set(key, kind === 'regex'
+        ? new RegExp(value, 'i')
+        // `*.example.com` covers example.com itself as well as every name under it
+        : new RegExp(`^${value.toLowerCase().split('*').map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*').replace(/^\.\*\\\./, '(.*\\.)?')}\\.?$`, 'i'));
+    } catch (error) {
+      patternCache.set(key, null);
+    }
+  }
+  return patternCache.get(key)!;
+};
+
+export const isExpired = (entry: SuppressionEntry, now: number = Date.now()): boolean =>
+  entry.expiresAt !== undefined && Date.parse(entry.expiresAt) <= now;
+
+export const isActive = (entry: SuppressionEntry, now: number = Date.now()): boolean =>
+  entry.enabled && !isExpired(entry, now);
+
+const matches = (entry: SuppressionEntry, target: SuppressionTarget): boolean => {
+  if (entry.qtype && target.type?.toUpperCase() !== entry.qtype.toUpperCase()) return false;
+  const name = target.query ?? target.registeredDomain;
+  switch (entry.kind) {
+    case 'domain': {
+      if (!name) return false;
+      const domain = target.registeredDomain ?? splitDomain(name).registeredDomain;
+      return domain.toLowerCase() === entry.value.toLowerCase().replace(/\.$/, '');
+    }
+    case 'wildcard':
+    case 'regex':
+      return !!name && !!pattern(entry.kind, entry.value)?.test(name);
+    case 'cidr':
+      return !!target.sourceIp && inCidr(target.sourceIp, entry.value);
+    case 'qtype':
+      return !!target.type && target.type.toUpperCase() === entry.value.toUpperCase();
+  }
+};
+
+/**
+ * The first active entry matching the target
+ */
+export const matchSuppression = (target: SuppressionTarget, entries: SuppressionEntry[] = activeSuppressions, now: number = Date.now()): SuppressionEntry | undefined =>
+  entries.find(e => isActive(e, now) && matches(e, target));
+
+/**
+ * What an alert is tested as: its query, or for aggregate alerts the domain or source it was raised for
+ */
+export const alertTarget = (alert: Pick<Alert, 'subject'>, query?: DNSQuery): SuppressionTarget => {
+  if (alert.subject === undefined && query) return query;
+  const subject = alert.subject ?? '';
+  return parseIp(subject) ? { sourceIp: subject } : { query: subject };
+};
+
+/**
+ * Re-marks every alert against the current entries, e.g. after one is added or removed
+ */
+export const applySuppressions = (alerts: Alert[], logs: DNSQuery[], entries: SuppressionEntry[]): Alert[] => {
+  const byId = new Map(logs.map(l => [l.id, l]));
+  return alerts.map(alert => {
+    const suppressedBy = matchSuppression(alertTarget(alert, byId.get(alert.queryId)), entries)?.id;
+    return suppressedBy === alert.suppressedBy ? alert : { ...alert, suppressedBy };
+  });
+};
+
+/**
+ * Suppressed alerts and matching queries per entry id
+ */
+export const countSuppressionHits = (alerts: Alert[], logs: DNSQuery[], entries: SuppressionEntry[]): Map<string, { alerts: number; queries: number }> => {
+  const hits = new Map(entries.map(e => [e.id, { alerts: 0, queries: 0 }]));
+  for (const alert of alerts) {
+    if (alert.suppressedBy && hits.has(alert.suppressedBy)) hits.get(alert.suppressedBy)!.alerts++;
+  }
+  const now = Date.now();
+  const active = entries.filter(e => isActive(e, now));
+  for (const log of logs) {
+    const entry = active.find(e => matches(e, log));
+    if (entry) hits.get(entry.id)!.queries++;
+  }
+  return hits;
+};
+
+/**
+ * Checks an entry list loaded from storage, or an entry being added
+ */
+export const validateSuppressions = (doc: unknown): { entries: SuppressionEntry[]; errors: string[] } => {
+  const errors: string[] = [];
+  if (!Array.isArray(doc)) return { entries: [], errors: ['Expected a list of suppression entries'] };
+
+  const ids = new Set<string>();
+  const entries = doc.map((e: any, i: number): SuppressionEntry => {
+    const path = `entries[${i}]${e && typeof e.id === 'string' ? ` (${e.id})` : ''}`;
+    if (!e || typeof e !== 'object' || Array.isArray(e)) {
+      errors.push(`${path}: expected an entry object`);
+      return e;
+    }
+    if (typeof e.id !== 'string' || !e.id.trim()) errors.push(`${path}.id: required`);
+    else if (ids.has(e.id)) errors.push(`${path}.id: duplicate id "${e.id}"`);
+    else ids.add(e.id);
+    if (!SUPPRESSION_KINDS.includes(e.kind)) errors.push(`${path}.kind: must be one of ${SUPPRESSION_KINDS.join(', ')}`);
+    if (typeof e.value !== 'string' || !e.value.trim()) {
+      errors.push(`${path}.value: required`);
+    } else if ((e.kind === 'regex' || e.kind === 'wildcard') && !pattern(e.kind, e.value)) {
+      errors.push(`${path}.value: invalid ${e.kind === 'regex' ? 'regular expression' : 'pattern'}`);
+    } else if (e.kind === 'cidr' && !parseCidr(e.value)) {
+      errors.push(`${path}.value: "${e.value}" is not an address or CIDR range`);
+    }
+    if (e.qtype !== undefined && (typeof e.qtype !== 'string' || !/^[A-Z0-9]+$/i.test(e.qtype))) errors.push(`${path}.qtype: must be a record type such as TXT`);
+    if (typeof e.reason !== 'string' || !e.reason.trim()) errors.push(`${path}.reason: required`);
+    if (typeof e.author !== 'string' || !e.author.trim()) errors.push(`${path}.author: required`);
+    if (typeof e.createdAt !== 'string' || isNaN(Date.parse(e.createdAt))) errors.push(`${path}.createdAt: must be a date`);
+    if (e.expiresAt !== undefined && (typeof e.expiresAt !== 'string' || isNaN(Date.parse(e.expiresAt)))) errors.push(`${path}.expiresAt: must be a date`);
+    if (typeof e.enabled !== 'boolean') errors.push(`${path}.enabled: must be true or false`);
+    return e;
+  });
+
+  return { entries, errors };
+};
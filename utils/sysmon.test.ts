@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseSysmonEvents } from './sysmon';
+
+const event = (computer: string, queryName: string, extra: Record<string, unknown> = {}) => ({
+  EventID: 22,
+  Computer: computer,
+  UtcTime: '2023-11-14 22:13:20.123',
+  QueryName: queryName,
+  QueryStatus: '0',
+  QueryResults: '::ffff:93.184.216.34;',
+  Image: 'C:\\Windows\\System32\\svchost.exe',
+  ProcessId: '1234',
+  ...extra
+});
+
+describe('parseSysmonEvents', () => {
+  it('keeps endpoints apart by computer name', () => {
+    const { queries } = parseSysmonEvents(JSON.stringify([event('WS-01.corp.example', 'a.example.com'), event('WS-02.corp.example', 'b.example.com')]));
+    expect(queries.map(q => [q.sourceIp, q.host])).toEqual([['WS-01.corp.example', 'WS-01.corp.example'], ['WS-02.corp.example', 'WS-02.corp.example']]);
+  });
+
+  it('reports an unreadable event in a JSON array without reparsing the document line by line', () => {
+    const items = [event('WS-01', 'a.example.com'), event('WS-01', 'b.example.com', { QueryResults: 42 }), event('WS-01', 'c.example.com')];
+    const { queries, errors } = parseSysmonEvents(JSON.stringify(items, null, 2));
+    expect(queries.map(q => q.query)).toEqual(['a.example.com', 'c.example.com']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(2);
+    expect(errors[0].reason).toMatch(/^Unreadable event/);
+  });
+
+  it('reports invalid lines and unreadable events in NDJSON separately', () => {
+    const content = [JSON.stringify(event('WS-01', 'a.example.com')), '{not json', JSON.stringify(event('WS-01', 'b.example.com', { UtcTime: 7 }))].join('\n');
+    const { queries, errors } = parseSysmonEvents(content);
+    expect(queries.map(q => q.query)).toEqual(['a.example.com']);
+    expect(errors.map(e => [e.line, e.reason.split(':')[0]])).toEqual([[2, 'Invalid JSON record'], [3, 'Unreadable event']]);
+  });
+});
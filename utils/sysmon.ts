@@ -0,0 +1,276 @@
+import { DNSQuery, ParseError, ParseResult } from '../types';
+import { normalizeDNSQuery } from './forensics';
+
+/**
+ * Sysmon DNSEvent (Event ID 22) ingestion from EVTX exports.
+ * Accepts XML (wevtutil / Event Viewer "Save as XML") and the common JSON shapes:
+ * flat key/value records, evtx_dump's Event.System/Event.EventData nesting,
+ * Winlogbeat's winlog.event_data, and PowerShell Get-WinEvent | ConvertTo-Json.
+ */
+
+const SYSMON_DNS_EVENT_ID = 22;
+
+// Win32 DNS status codes seen in QueryStatus, mapped to the closest DNS rcode
+const QUERY_STATUS: Record<number, string> = {
+  0: 'NOERROR',
+  1460: 'TIMEOUT',
+  9001: 'FORMERR',
+  9002: 'SERVFAIL',
+  9003: 'NXDOMAIN',
+  9004: 'NOTIMP',
+  9005: 'REFUSED',
+  9501: 'NOERROR', // DNS_INFO_NO_RECORDS: name exists, no data of the requested type
+  9560: 'SERVFAIL', // DNS_ERROR_RECORD_TIMED_OUT
+  123: 'FORMERR' // ERROR_INVALID_NAME
+};
+
+// Field order of Event 22 in Get-WinEvent's positional Properties array
+const PROPERTY_ORDER = ['RuleName', 'UtcTime', 'ProcessGuid', 'ProcessId', 'QueryName', 'QueryStatus', 'QueryResults', 'Image', 'User'];
+
+const RR_TYPE_CODES: Record<number, string> = { 1: 'A', 2: 'NS', 5: 'CNAME', 6: 'SOA', 12: 'PTR', 15: 'MX', 16: 'TXT', 28: 'AAAA', 33: 'SRV' };
+
+interface SysmonDnsEvent {
+  eventId?: number;
+  computer?: string;
+  systemTime?: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Splits QueryResults (`type:  5 cdn.example.net;::ffff:93.184.216.34;`) into answers.
+ * IPv4 results are written as IPv4-mapped IPv6 addresses.
+ */
+const parseQueryResults = (results: string | undefined): { answers: string[]; types: string[] } => {
+  const answers: string[] = [];
+  const types: string[] = [];
+  if (!results || results === '-') return { answers, types };
+
+  for (const raw of results.split(';')) {
+    const entry = raw.trim();
+    if (!entry) continue;
+    const typed = entry.match(/^type:\s+(\d+)\s+(.*)$/);
+    if (typed) {
+      const type = RR_TYPE_CODES[+typed[1]] ?? `TYPE${typed[1]}`;
+      types.push(type);
+      answers.push(typed[2]);
+    } else if (entry.toLowerCase().startsWith('::ffff:') && entry.includes('.')) {
+      types.push('A');
+      answers.push(entry.slice(7));
+    } else {
+      types.push(entry.includes(':') ? 'AAAA' : 'A');
+      answers.push(entry);
+    }
+  }
+  return { answers, types };
+};
+
+/**
+ * Sysmon writes UtcTime as `2023-11-14 22:13:20.123` with no zone designator
+ */
+const toIsoTimestamp = (utcTime?: string, systemTime?: string): string | undefined => {
+  if (utcTime) {
+    const date = new Date(utcTime.replace(' ', 'T') + (/[zZ]|[+-]\d{2}:?\d{2}$/.test(utcTime) ? '' : 'Z'));
+    if (!isNaN(date.getTime())) return date.toISOString();
+  }
+  if (systemTime) {
+    // PowerShell's ConvertTo-Json writes dates as /Date(1700000000000)/
+    const msDate = systemTime.match(/\/Date\((-?\d+)/);
+    const date = msDate ? new Date(+msDate[1]) : new Date(systemTime);
+    if (!isNaN(date.getTime())) return date.toISOString();
+  }
+  return undefined;
+};
+
+const eventToQuery = (event: SysmonDnsEvent): DNSQuery => {
+  const { data } = event;
+  const { answers, types } = parseQueryResults(data.QueryResults);
+  const status = data.QueryStatus !== undefined ? parseInt(String(data.QueryStatus), 10) : undefined;
+  // Sysmon does not record the question type; the best evidence is the answer types
+  const inferredType = types.find(t => t !== 'CNAME') ?? 'A';
+
+  const extra: Record<string, any> = {};
+  Object.keys(data).forEach(key => {
+    if (!['QueryName', 'QueryResults', 'QueryStatus', 'Image', 'ProcessId', 'UtcTime'].includes(key)) extra[key] = data[key];
+  });
+
+  return normalizeDNSQuery({
+    ...extra,
+    timestamp: toIsoTimestamp(data.UtcTime, event.systemTime),
+    // The query originates on the endpoint itself. Its name stands in for the address, so
+    // per-source analyses keep endpoints apart instead of merging them on one loopback address
+    sourceIp: data.SourceIp ?? event.computer ?? '127.0.0.1',
+    query: data.QueryName ?? '',
+    type: inferredType,
+    typeInferred: true,
+    responseCode: status !== undefined ? (QUERY_STATUS[status] ?? `STATUS${status}`) : undefined,
+    queryStatus: status,
+    answers: answers.length > 0 ? answers : undefined,
+    answerTypes: types,
+    process: data.Image,
+    processId: data.ProcessId !== undefined ? parseInt(String(data.ProcessId), 10) : undefined,
+    host: event.computer
+  });
+};
+
+/**
+ * Pulls the event fields out of any of the supported JSON layouts
+ */
+const fromJson = (obj: any): SysmonDnsEvent | null => {
+  if (!obj || typeof obj !== 'object') return null;
+
+  // evtx_dump: { Event: { System: {...}, EventData: {...} } }
+  const evt = obj.Event ?? obj;
+  if (evt.System && evt.EventData) {
+    const sys = evt.System;
+    return {
+      eventId: Number(sys.EventID?.['#text'] ?? sys.EventID),
+      computer: sys.Computer,
+      systemTime: sys.TimeCreated?.['#attributes']?.SystemTime ?? sys.TimeCreated?.SystemTime,
+      data: evt.EventData
+    };
+  }
+
+  // Winlogbeat / Elastic: { winlog: { event_id, computer_name, event_data } }
+  if (obj.winlog?.event_data) {
+    return {
+      eventId: Number(obj.winlog.event_id),
+      computer: obj.winlog.computer_name ?? obj.host?.name,
+      systemTime: obj['@timestamp'],
+      data: obj.winlog.event_data
+    };
+  }
+
+  // Get-WinEvent | ConvertTo-Json: positional Properties
+  if (Array.isArray(obj.Properties) && obj.Id !== undefined) {
+    const data: Record<string, any> = {};
+    PROPERTY_ORDER.forEach((name, i) => {
+      if (obj.Properties[i] !== undefined) data[name] = obj.Properties[i].Value ?? obj.Properties[i];
+    });
+    return { eventId: Number(obj.Id), computer: obj.MachineName, systemTime: obj.TimeCreated, data };
+  }
+
+  // Flat exports (EvtxECmd, SIEM CSV-to-JSON)
+  if ('QueryName' in obj) {
+    return {
+      eventId: obj.EventID !== undefined ? Number(obj.EventID) : obj.EventId !== undefined ? Number(obj.EventId) : undefined,
+      computer: obj.Computer ?? obj.ComputerName ?? obj.Hostname,
+      systemTime: obj.TimeCreated ?? obj.SystemTime,
+      data: obj
+    };
+  }
+
+  return null;
+};
+
+const decodeXmlEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, d) => String.fromCharCode(+d))
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, h) => String.fromCharCode(parseInt(h, 16)))
+    .replace(/&amp;/g, '&');
+
+/**
+ * Extracts a single <Event> element. Regex-based rather than DOMParser so it also runs in workers.
+ */
+const fromXml = (xml: string): SysmonDnsEvent => {
+  const data: Record<string, any> = {};
+  const dataRe = /<Data Name=['"]([^'"]+)['"]\s*(?:\/>|>([\s\S]*?)<\/Data>)/g;
+  let m: RegExpExecArray | null;
+  while ((m = dataRe.exec(xml)) !== null) data[m[1]] = decodeXmlEntities(m[2] ?? '');
+
+  const eventId = xml.match(/<EventID[^>]*>(\d+)<\/EventID>/);
+  const computer = xml.match(/<Computer>([^<]*)<\/Computer>/);
+  const systemTime = xml.match(/<TimeCreated SystemTime=['"]([^'"]+)['"]/);
+  return {
+    eventId: eventId ? +eventId[1] : undefined,
+    computer: computer ? decodeXmlEntities(computer[1]) : undefined,
+    systemTime: systemTime?.[1],
+    data
+  };
+};
+
+/**
+ * Returns true if the content looks like exported Sysmon DNS events
+ */
+export const isSysmonContent = (content: string): boolean => {
+  const head = content.slice(0, 8192);
+  if (/<Event[\s>]/.test(head) && /Data Name=['"]QueryName['"]/.test(head)) return true;
+  return /["']?QueryName["']?\s*:/.test(head) && /["']?(Image|ProcessId|EventID|event_id)["']?\s*:/.test(head);
+};
+
+/**
+ * Parses Sysmon Event ID 22 records. Events with other IDs are skipped silently.
+ */
+export const parseSysmonEvents = (content: string): ParseResult => {
+  const trimmed = content.trim();
+  const queries: DNSQuery[] = [];
+  const errors: ParseError[] = [];
+
+  const accept = (event: SysmonDnsEvent | null, line: number, raw: string) => {
+    if (!event) {
+      errors.push({ line, content: raw.slice(0, 500), reason: 'Unrecognised event layout' });
+      return;
+    }
+    if (event.eventId !== undefined && !isNaN(event.eventId) && event.eventId !== SYSMON_DNS_EVENT_ID) return;
+    if (!event.data.QueryName) {
+      errors.push({ line, content: raw.slice(0, 500), reason: 'Event has no QueryName' });
+      return;
+    }
+    queries.push(eventToQuery(event));
+  };
+
+  // A field of an unexpected type costs only its own event
+  const acceptSafely = (read: () => SysmonDnsEvent | null, line: number, raw: string) => {
+    try {
+      accept(read(), line, raw);
+    } catch (error) {
+      errors.push({ line, content: raw.slice(0, 500), reason: `Unreadable event: ${(error as Error).message}` });
+    }
+  };
+
+  if (trimmed.startsWith('<')) {
+    const eventRe = /<Event[\s>][\s\S]*?<\/Event>/g;
+    let m: RegExpExecArray | null;
+    // Newlines are counted from the previous event on, so each part of the block is scanned once
+    let line = 1;
+    let counted = 0;
+    while ((m = eventRe.exec(trimmed)) !== null) {
+      for (let i = counted; i < m.index; i++) if (trimmed.charCodeAt(i) === 10) line++;
+      counted = m.index;
+      const xml = m[0];
+      acceptSafely(() => fromXml(xml), line, xml);
+    }
+    return { format: 'sysmon', queries, errors };
+  }
+
+  // A single JSON document (array or object) ...
+  let doc: any;
+  try {
+    doc = JSON.parse(trimmed);
+  } catch (e) {
+    doc = undefined;
+  }
+  if (doc !== undefined) {
+    const list = Array.isArray(doc) ? doc : (doc?.Events ?? doc?.records ?? [doc]);
+    (Array.isArray(list) ? list : [list]).forEach((item: any, i: number) => acceptSafely(() => fromJson(item), i + 1, JSON.stringify(item) ?? String(item)));
+    return { format: 'sysmon', queries, errors };
+  }
+
+  // ... or one JSON event per line
+  content.split(/\r?\n/).forEach((raw, i) => {
+    if (!raw.trim()) return;
+    let item: any;
+    try {
+      item = JSON.parse(raw);
+    } catch (e) {
+      errors.push({ line: i + 1, content: raw, reason: 'Invalid JSON record' });
+      return;
+    }
+    acceptSafely(() => fromJson(item), i + 1, raw);
+  });
+
+  return { format: 'sysmon', queries, errors };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseZeekLog } from './zeek';
+
+const TSV_HEADER = [
+  '#separator \\x09',
+  '#set_separator\t,',
+  '#empty_field\t(empty)',
+  '#unset_field\t-',
+  '#fields\tts\tuid\tid.orig_h\tid.orig_p\tquery\tqtype\tqtype_name\trcode\trcode_name\tanswers\tTTLs',
+  '#types\ttime\tstring\taddr\tport\tstring\tcount\tstring\tcount\tstring\tvector[string]\tvector[interval]'
+];
+
+describe('parseZeekLog', () => {
+  it('names numeric qtypes Zeek leaves unnamed and keeps the raw codes in metadata', () => {
+    const { queries, errors } = parseZeekLog([
+      ...TSV_HEADER,
+      '1700000000.000000\tCa1\t10.0.0.5\t53211\twww.example.com\t1\tA\t0\tNOERROR\t93.184.216.34\t300.000000',
+      '1700000001.000000\tCa2\t10.0.0.5\t53212\tsvc.example.com\t65\t-\t3\t-\t-\t-'
+    ].join('\n'));
+    expect(errors).toEqual([]);
+    expect(queries.map(q => [q.type, q.responseCode, q.metadata?.qtypeCode, q.metadata?.rcodeCode, q.metadata?.['id.orig_p']])).toEqual([
+      ['A', 'NOERROR', 1, 0, 53211],
+      ['HTTPS', 'NXDOMAIN', 65, 3, 53212]
+    ]);
+  });
+
+  it('reports JSON records it cannot read with the reason', () => {
+    const { queries, errors } = parseZeekLog([
+      '{"ts":1700000000,"uid":"Ca1","id.orig_h":"10.0.0.5","query":"www.example.com","qtype":28,"rcode":0}',
+      '{"ts":1700000001,"uid":"Ca2","id.orig_h":"10.0.0.5","query":42,"qtype_name":"A"}',
+      '{not json'
+    ].join('\n'));
+    expect(queries.map(q => [q.query, q.type, q.responseCode])).toEqual([['www.example.com', 'AAAA', 'NOERROR']]);
+    expect(errors.map(e => [e.line, e.reason.split(':')[0]])).toEqual([[2, 'Unreadable record'], [3, 'Invalid JSON record']]);
+  });
+});
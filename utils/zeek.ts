@@ -0,0 +1,216 @@
+import { DNSQuery, ParseError, ParseResult } from '../types';
+import { normalizeDNSQuery } from './forensics';
+import { rcodeName, rrTypeName } from './dnsWire';
+
+/**
+ * Zeek dns.log reader for both the ASCII (TSV with #-directives) and JSON writers.
+ */
+
+interface ZeekHeader {
+  separator: string;
+  setSeparator: string;
+  emptyField: string;
+  unsetField: string;
+  fields: string[];
+  types: string[];
+}
+
+const DEFAULT_HEADER: ZeekHeader = {
+  separator: '\t',
+  setSeparator: ',',
+  emptyField: '(empty)',
+  unsetField: '-',
+  fields: [],
+  types: []
+};
+
+// Columns that map onto first-class DNSQuery fields; everything else goes to metadata
+const MAPPED_COLUMNS = ['ts', 'id.orig_h', 'query', 'qtype', 'qtype_name', 'rcode', 'rcode_name', 'answers', 'TTLs', 'TC', 'uid'];
+
+const toCode = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof n === 'number' && Number.isInteger(n) ? n : undefined;
+};
+
+/**
+ * Zeek escapes non-printable bytes (including the separator itself) as \xHH
+ */
+const unescape = (value: string): string =>
+  value.replace(/\\x([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+const convertScalar = (value: string, type: string): any => {
+  switch (type) {
+    case 'time':
+    case 'interval':
+    case 'double':
+      return parseFloat(value);
+    case 'count':
+    case 'int':
+    case 'port':
+      return parseInt(value, 10);
+    case 'bool':
+      return value === 'T';
+    default:
+      return unescape(value);
+  }
+};
+
+const convertValue = (raw: string, type: string, header: ZeekHeader): any => {
+  if (raw === header.unsetField) return undefined;
+  const container = type.match(/^(?:vector|set)\[(.+)\]$/);
+  if (container) {
+    if (raw === header.emptyField) return [];
+    return raw.split(header.setSeparator).map(v => convertScalar(v, container[1]));
+  }
+  if (raw === header.emptyField) return '';
+  return convertScalar(raw, type);
+};
+
+/**
+ * Zeek timestamps are epoch seconds, or ISO 8601 when the JSON writer is configured for it
+ */
+const toIsoTimestamp = (ts: unknown): string | undefined => {
+  if (typeof ts === 'number' && Number.isFinite(ts)) return new Date(ts * 1000).toISOString();
+  if (typeof ts === 'string' && ts) {
+    const asNumber = Number(ts);
+    const date = Number.isFinite(asNumber) ? new Date(asNumber * 1000) : new Date(ts);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+  return undefined;
+};
+
+const asArray = (value: unknown): any[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  return Array.isArray(value) ? value : [value];
+};
+
+/**
+ * Maps one Zeek dns.log record (already split into named columns) onto a DNSQuery
+ */
+const zeekRecordToQuery = (record: Record<string, any>): DNSQuery => {
+  const extra: Record<string, any> = {};
+  Object.keys(record).forEach(key => {
+    if (!MAPPED_COLUMNS.includes(key) && record[key] !== undefined) extra[key] = record[key];
+  });
+
+  const ttls = asArray(record.TTLs)?.map(Number).filter(n => Number.isFinite(n));
+  // The numeric columns share names with core fields, so they are kept under their own keys
+  const qtypeCode = toCode(record.qtype);
+  const rcodeCode = toCode(record.rcode);
+
+  return normalizeDNSQuery({
+    ...extra,
+    qtypeCode,
+    rcodeCode,
+    timestamp: toIsoTimestamp(record.ts),
+    sourceIp: record['id.orig_h'],
+    query: record.query ?? '',
+    // Zeek leaves the name unset for types it has no name for
+    type: record.qtype_name ?? (qtypeCode !== undefined ? rrTypeName(qtypeCode) : undefined),
+    // A missing rcode means Zeek never saw the reply; don't invent NOERROR for it
+    responseCode: record.rcode_name ?? (rcodeCode !== undefined ? rcodeName(rcodeCode) : 'NORESPONSE'),
+    answers: asArray(record.answers)?.map(String),
+    ttls,
+    truncated: record.TC,
+    uid: record.uid
+  });
+};
+
+/**
+ * Returns true if the content looks like a Zeek dns.log in either TSV or JSON form
+ */
+export const isZeekLog = (content: string): boolean => {
+  const head = content.trimStart();
+  if (head.startsWith('#separator') || head.startsWith('#fields')) return true;
+
+  const firstLine = head.slice(0, head.indexOf('\n') >= 0 ? head.indexOf('\n') : undefined).trim();
+  if (!firstLine.startsWith('{')) return false;
+  try {
+    const obj = JSON.parse(firstLine);
+    return 'id.orig_h' in obj && ('qtype_name' in obj || 'uid' in obj);
+  } catch {
+    return false;
+  }
+};
+
+const parseZeekTsv = (lines: string[]): { queries: DNSQuery[]; errors: ParseError[] } => {
+  let header: ZeekHeader = { ...DEFAULT_HEADER };
+  const queries: DNSQuery[] = [];
+  const errors: ParseError[] = [];
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+
+    if (line.startsWith('#')) {
+      // #separator is space-delimited (the separator itself is usually \x09);
+      // every other directive uses the declared separator
+      if (line.startsWith('#separator')) {
+        header = { ...header, separator: unescape(line.slice('#separator'.length).trim()) };
+        return;
+      }
+      const [directive, ...values] = line.split(header.separator);
+      switch (directive) {
+        case '#set_separator': header.setSeparator = unescape(values[0] ?? ','); break;
+        case '#empty_field': header.emptyField = values[0] ?? '(empty)'; break;
+        case '#unset_field': header.unsetField = values[0] ?? '-'; break;
+        case '#fields': header.fields = values; break;
+        case '#types': header.types = values; break;
+      }
+      return;
+    }
+
+    if (header.fields.length === 0) {
+      errors.push({ line: i + 1, content: line, reason: 'Record before #fields header' });
+      return;
+    }
+    const values = line.split(header.separator);
+    if (values.length !== header.fields.length) {
+      errors.push({ line: i + 1, content: line, reason: `Expected ${header.fields.length} fields, found ${values.length}` });
+      return;
+    }
+
+    const record: Record<string, any> = {};
+    header.fields.forEach((field, i) => {
+      record[field] = convertValue(values[i], header.types[i] ?? 'string', header);
+    });
+    try {
+      queries.push(zeekRecordToQuery(record));
+    } catch (e) {
+      errors.push({ line: i + 1, content: line, reason: `Unreadable record: ${(e as Error).message}` });
+    }
+  });
+
+  return { queries, errors };
+};
+
+const parseZeekJson = (lines: string[]): { queries: DNSQuery[]; errors: ParseError[] } => {
+  const queries: DNSQuery[] = [];
+  const errors: ParseError[] = [];
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch (e) {
+      errors.push({ line: i + 1, content: line, reason: 'Invalid JSON record' });
+      return;
+    }
+    try {
+      if (!record || typeof record !== 'object' || Array.isArray(record)) throw new Error('not a JSON object');
+      queries.push(zeekRecordToQuery(record));
+    } catch (e) {
+      errors.push({ line: i + 1, content: line, reason: `Unreadable record: ${(e as Error).message}` });
+    }
+  });
+  return { queries, errors };
+};
+
+/**
+ * Parses a Zeek dns.log. TSV logs honour the #separator/#fields/#types directives,
+ * including multiple concatenated log files with differing headers.
+ */
+export const parseZeekLog = (content: string): ParseResult => {
+  const lines = content.split(/\r?\n/);
+  const isTsv = lines.find(l => l.trim())?.startsWith('#') ?? false;
+  return { format: 'zeek', ...(isTsv ? parseZeekTsv(lines) : parseZeekJson(lines)) };
+};
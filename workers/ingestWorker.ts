@@ -0,0 +1,103 @@
+import { CsvMapping, DNSQuery, ParseError, ParseResult } from '../types';
+import { createStreamingLogParser, IngestEvent, IngestKind, IngestProgress, IngestRequest } from '../utils/ingest';
+import { parsePcap } from '../utils/pcap';
+import { isDnstapStream, parseDnstap } from '../utils/dnstap';
+import { setActiveRules } from '../utils/rules';
+import { setActiveModel } from '../utils/model';
+import { setActiveIntel } from '../utils/intel';
+import { setActiveGeoDatabases } from '../utils/geo';
+import { setActiveDomainIntel } from '../utils/domainIntel';
+
+/**
+ * Off-main-thread file ingestion. Reads the File in chunks, parses incrementally
+ * and posts records back in batches so the UI stays responsive on multi-gigabyte inputs.
+ */
+
+const CHUNK_BYTES = 4 * 1024 * 1024;
+const BATCH_SIZE = 2000;
+// Captures and dnstap files are decoded in one piece, so they are held in memory whole
+const MAX_BINARY_BYTES = 512 * 1024 * 1024;
+// Only the first errors are shipped to the UI; the rest are counted
+const MAX_REPORTED_ERRORS = 1000;
+
+let cancelled = false;
+
+const post = (event: IngestEvent) => self.postMessage(event);
+
+const run = async (file: File, kind: IngestKind, csvMapping?: CsvMapping) => {
+  const progress: IngestProgress = { bytesRead: 0, totalBytes: file.size, records: 0, errors: 0 };
+  let reportedErrors = 0;
+
+  const emit = (queries: DNSQuery[], errors: ParseError[]) => {
+    progress.records += queries.length;
+    progress.errors += errors.length;
+    const shippedErrors = errors.slice(0, Math.max(0, MAX_REPORTED_ERRORS - reportedErrors));
+    reportedErrors += shippedErrors.length;
+    for (let i = 0; i < queries.length; i += BATCH_SIZE) {
+      post({ type: 'batch', queries: queries.slice(i, i + BATCH_SIZE), errors: i === 0 ? shippedErrors : [] });
+    }
+    if (queries.length === 0 && shippedErrors.length > 0) post({ type: 'batch', queries: [], errors: shippedErrors });
+  };
+
+  const readWhole = async (label: string) => {
+    if (file.size > MAX_BINARY_BYTES) {
+      throw new Error(`${label} files over ${MAX_BINARY_BYTES / 1024 / 1024} MB cannot be loaded; split the file and import the parts`);
+    }
+    return file.arrayBuffer();
+  };
+
+  // dnstap is binary and, like captures, needs every frame to pair queries with responses
+  if (isDnstapStream(await file.slice(0, 64).arrayBuffer())) {
+    const result = parseDnstap(await readWhole('dnstap'));
+    progress.bytesRead = file.size;
+    if (cancelled) return post({ type: 'cancelled', progress });
+    emit(result.queries, result.errors);
+    return post({ type: 'done', format: 'dnstap', progress });
+  }
+
+  if (kind === 'pcap') {
+    // Captures are decoded as a whole: TCP reassembly and query/response pairing need every frame
+    const queries = parsePcap(await readWhole('Capture'));
+    progress.bytesRead = file.size;
+    if (cancelled) return post({ type: 'cancelled', progress });
+    emit(queries, []);
+    return post({ type: 'done', format: 'pcap', progress });
+  }
+
+  const parser = createStreamingLogParser({ csvMapping });
+  const decoder = new TextDecoder('utf-8');
+  const handle = (result: ParseResult | null) => {
+    if (result) emit(result.queries, result.errors);
+  };
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_BYTES) {
+    // Yields to the event loop, so a pending cancel message is seen here
+    const chunk = await file.slice(offset, offset + CHUNK_BYTES).arrayBuffer();
+    if (cancelled) return post({ type: 'cancelled', progress });
+
+    handle(parser.push(decoder.decode(chunk, { stream: true })));
+    progress.bytesRead = Math.min(file.size, offset + CHUNK_BYTES);
+    post({ type: 'progress', progress: { ...progress } });
+  }
+
+  handle(parser.push(decoder.decode()));
+  handle(parser.end());
+  post({ type: 'done', format: parser.format(), progress });
+};
+
+self.onmessage = (e: MessageEvent<IngestRequest>) => {
+  const request = e.data;
+  if (request.type === 'cancel') {
+    cancelled = true;
+    return;
+  }
+  cancelled = false;
+  setActiveRules(request.rules);
+  setActiveModel(request.model);
+  setActiveIntel(request.intel);
+  setActiveGeoDatabases(request.geo);
+  setActiveDomainIntel(request.domains);
+  run(request.file, request.kind, request.csvMapping).catch((err: any) => {
+    post({ type: 'error', message: err?.message || 'Ingest failed.' });
+  });
+};